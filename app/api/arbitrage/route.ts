@@ -0,0 +1,70 @@
+/**
+ * Arbitrage API Route
+ *
+ * GET /api/arbitrage?size=...&minDivergence=...
+ *
+ * Lists tokens whose Dexie best bid/ask and TibetSwap pool price diverge
+ * by at least `minDivergence` percent, with the estimated profit of
+ * spending `size` XCH on the buy leg.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ArbitrageApiResponse } from '@/contracts/types';
+import {
+  DEFAULT_ARBITRAGE_SIZE_XCH,
+  DEFAULT_MIN_DIVERGENCE_PCT,
+  scanArbitrage,
+} from '@/lib/arbitrage';
+
+// Depends on live books and reserves - never cache responses
+export const dynamic = 'force-dynamic';
+
+/**
+ * Read an optional numeric parameter
+ *
+ * @returns The value, the fallback when absent, or null when invalid
+ */
+function readNumber(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<ArbitrageApiResponse>> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const size = readNumber(searchParams.get('size'), DEFAULT_ARBITRAGE_SIZE_XCH);
+    const minDivergence = readNumber(
+      searchParams.get('minDivergence'),
+      DEFAULT_MIN_DIVERGENCE_PCT
+    );
+
+    if (size === null || size <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Size must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (minDivergence === null || minDivergence < 0) {
+      return NextResponse.json(
+        { success: false, error: 'minDivergence must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await scanArbitrage(size, minDivergence);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error.message }, { status: 503 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Arbitrage API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to scan for arbitrage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Best-Execution API Route
+ *
+ * GET /api/best-execution?tokenId=...&input=xch|token&amount=...
+ *
+ * Compares filling a swap on the Dexie order book, on TibetSwap, and
+ * split across both, and reports the best venue with deep links per leg.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { BestExecutionApiResponse, SwapInputAsset } from '@/contracts/types';
+import { findBestExecution } from '@/lib/execution-router';
+
+// Depends on live offers and reserves - never cache responses
+export const dynamic = 'force-dynamic';
+
+/**
+ * Valid input asset values
+ */
+const VALID_INPUTS: SwapInputAsset[] = ['xch', 'token'];
+
+/**
+ * Validate input asset parameter
+ */
+function isValidInput(input: string | null): input is SwapInputAsset {
+  return input !== null && VALID_INPUTS.includes(input as SwapInputAsset);
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<BestExecutionApiResponse>> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const tokenId = searchParams.get('tokenId');
+    const input = searchParams.get('input') || 'xch';
+    const amount = Number(searchParams.get('amount'));
+
+    // Validate tokenId
+    if (!tokenId || tokenId.length < 10) {
+      return NextResponse.json({ success: false, error: 'Invalid token ID' }, { status: 400 });
+    }
+
+    if (!isValidInput(input)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid input. Must be one of: ${VALID_INPUTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await findBestExecution(tokenId, input, amount);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error.message }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Best-execution API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to compare execution' },
+      { status: 500 }
+    );
+  }
+}
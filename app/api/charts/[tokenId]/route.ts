@@ -3,15 +3,34 @@
  *
  * GET /api/charts/[tokenId]?timeframe=1D|7D|1M|1Y|ALL
  *
- * Returns chart data for a specific token.
- * Note: Since we build chart data client-side from polling snapshots,
- * this endpoint primarily serves as an API contract placeholder
- * and returns minimal server-side data.
+ * Returns chart data for a specific token: line points from the
+ * server-side price history store, which is filled on every dashboard
+ * fetch and backfilled from Dexie completed offers, and OHLCV candles
+ * built from those offers. Nothing is synthesized - when history is
+ * thin the response says so via `hasSufficientHistory`. Tokens that are
+ * neither in the registry nor on the dashboard get a 404.
+ *
+ * The token ID `xch` returns the recorded XCH price history, in USD.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ChartTimeframe, ChartData } from '@/contracts/types';
-import { fetchMarkets } from '@/lib/dexie-api';
+import {
+  backfillPriceHistory,
+  getHistoryInterval,
+  getPriceHistory,
+  getXchPriceHistory,
+} from '@/lib/price-history';
+import { getCandleInterval, getCandles } from '@/lib/candles';
+import { isKnownToken } from '@/lib/data-fetcher';
+
+// History changes with every recording - never cache responses
+export const dynamic = 'force-dynamic';
+
+/**
+ * Minimum number of points needed to draw a line
+ */
+const MIN_HISTORY_POINTS = 2;
 
 /**
  * Valid timeframe values
@@ -25,6 +44,31 @@ function isValidTimeframe(tf: string | null): tf is ChartTimeframe {
   return tf !== null && VALID_TIMEFRAMES.includes(tf as ChartTimeframe);
 }
 
+/**
+ * Token ID of the XCH/USD history
+ */
+const XCH_TOKEN_ID = 'xch';
+
+/**
+ * Build chart data for XCH itself (prices in USD)
+ */
+async function getXchChartData(timeframe: ChartTimeframe): Promise<ChartData> {
+  const history = await getXchPriceHistory(timeframe);
+
+  return {
+    tokenId: XCH_TOKEN_ID,
+    timeframe,
+    dataPoints: history.map((snapshot) => ({
+      timestamp: snapshot.timestamp,
+      price: snapshot.priceUsd,
+      source: 'snapshot',
+    })),
+    intervalMs: getHistoryInterval(timeframe),
+    hasSufficientHistory: history.length >= MIN_HISTORY_POINTS,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ tokenId: string }> }
@@ -45,6 +89,13 @@ export async function GET(
       );
     }
 
+    if (tokenId === XCH_TOKEN_ID) {
+      return NextResponse.json({
+        success: true,
+        data: await getXchChartData(timeframe),
+      });
+    }
+
     // Validate tokenId
     if (!tokenId || tokenId.length < 10) {
       return NextResponse.json(
@@ -56,66 +107,45 @@ export async function GET(
       );
     }
 
-    // Fetch current market data to get latest price
-    const marketsResult = await fetchMarkets();
-
-    if (!marketsResult.success) {
+    if (!(await isKnownToken(tokenId))) {
       return NextResponse.json(
         {
           success: false,
-          error: 'Failed to fetch market data',
+          error: 'Unknown token',
         },
-        { status: 500 }
+        { status: 404 }
       );
     }
 
-    // Find the specific token's market data
-    const market = marketsResult.data.find((m) => m.id === tokenId);
+    // Seed thin history from completed offers in the background (no-op if
+    // done recently) - the points show up on a later request
+    void backfillPriceHistory(tokenId);
 
-    if (!market) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'Token not found',
-        },
-        { status: 404 }
-      );
-    }
+    const [history, candles] = await Promise.all([
+      getPriceHistory(tokenId, timeframe),
+      getCandles(tokenId, timeframe).catch((error) => {
+        // Candles are optional - the line history is still useful without them
+        console.warn('Candle aggregation failed:', error);
+        return [];
+      }),
+    ]);
 
-    // Build minimal chart data with current price
-    // Full historical data is built client-side from polling snapshots
-    const now = new Date();
     const chartData: ChartData = {
       tokenId,
       timeframe,
-      dataPoints: [
-        {
-          timestamp: now.toISOString(),
-          price: market.prices?.last?.price ?? 0,
-          volume: market.volume?.xch?.daily ?? 0,
-        },
-      ],
-      fetchedAt: now.toISOString(),
+      dataPoints: history.map((snapshot) => ({
+        timestamp: snapshot.timestamp,
+        price: snapshot.priceXch,
+        volume: snapshot.volume24hXch,
+        source: snapshot.origin ?? (snapshot.priceSource === 'tibetswap' ? 'amm' : 'snapshot'),
+      })),
+      candles,
+      intervalMs: getHistoryInterval(timeframe),
+      candleIntervalMs: getCandleInterval(timeframe),
+      hasSufficientHistory: history.length >= MIN_HISTORY_POINTS || candles.length > 0,
+      fetchedAt: new Date().toISOString(),
     };
 
-    // Add high/low points for context if available
-    if (market.prices?.high?.daily && market.prices?.low?.daily) {
-      // Add synthetic points for high and low
-      const dayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      const halfDayAgo = new Date(now.getTime() - 12 * 60 * 60 * 1000);
-
-      chartData.dataPoints.unshift(
-        {
-          timestamp: dayAgo.toISOString(),
-          price: market.prices.low.daily,
-        },
-        {
-          timestamp: halfDayAgo.toISOString(),
-          price: market.prices.high.daily,
-        }
-      );
-    }
-
     return NextResponse.json({
       success: true,
       data: chartData,
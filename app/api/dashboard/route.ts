@@ -1,12 +1,13 @@
 /**
  * Dashboard API Route
  *
- * Provides fresh data for client-side polling.
- * Bypasses ISR cache to always return latest data.
+ * Provides data for client-side polling.
+ * Bypasses ISR cache; freshness is handled by the shared server cache
+ * in lib/data-fetcher, whose hit/miss stats are included in the response.
  */
 
 import { NextResponse } from 'next/server';
-import { fetchDashboardData } from '@/lib/data-fetcher';
+import { fetchDashboardData, getDashboardCacheStats } from '@/lib/data-fetcher';
 import { DashboardApiResponse } from '@/contracts/types';
 
 // Disable caching for this route - always fresh data
@@ -21,6 +22,7 @@ export async function GET(): Promise<NextResponse<DashboardApiResponse>> {
       return NextResponse.json({
         success: true,
         data: result.data,
+        cache: getDashboardCacheStats(),
       });
     }
 
@@ -28,6 +30,7 @@ export async function GET(): Promise<NextResponse<DashboardApiResponse>> {
       {
         success: false,
         error: result.error.message,
+        cache: getDashboardCacheStats(),
       },
       { status: 500 }
     );
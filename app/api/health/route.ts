@@ -0,0 +1,35 @@
+/**
+ * Health API Route
+ *
+ * Reports the health and circuit breaker state of every upstream API.
+ * Responds 200 while at least one upstream works, 503 when all are down.
+ */
+
+import { NextResponse } from 'next/server';
+import { getAllUpstreamHealth } from '@/lib/upstream-health';
+import { HealthApiResponse } from '@/contracts/types';
+
+// Health is in-process state - never cache
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+export async function GET(): Promise<NextResponse<HealthApiResponse>> {
+  const upstreams = getAllUpstreamHealth();
+  const used = upstreams.filter((upstream) => upstream.status !== 'unknown');
+
+  let status: HealthApiResponse['status'] = 'ok';
+  if (used.length > 0 && used.every((upstream) => upstream.status === 'down')) {
+    status = 'down';
+  } else if (used.some((upstream) => upstream.status !== 'healthy')) {
+    status = 'degraded';
+  }
+
+  return NextResponse.json(
+    {
+      status,
+      upstreams,
+      checkedAt: new Date().toISOString(),
+    },
+    { status: status === 'down' ? 503 : 200 }
+  );
+}
@@ -6,33 +6,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-
-interface DexieOffer {
-  id: string;
-  trade_id: string;
-  status: number;
-  price: number;
-  date_found: string;
-  date_completed: string | null;
-  date_pending: string | null;
-  offered: Array<{
-    id: string;
-    code: string;
-    name: string;
-    amount: number;
-  }>;
-  requested: Array<{
-    id: string;
-    code: string;
-    name: string;
-    amount: number;
-  }>;
-  known_taker?: {
-    name: string;
-    source: string;
-  };
-  fees: number;
-}
+import { DexieOffer } from '@/contracts/types';
+import { fetchOffers } from '@/lib/dexie-offers';
 
 interface OfferHistoryItem {
   id: string;
@@ -48,27 +23,6 @@ interface OfferHistoryItem {
   taker: string | null;
 }
 
-const DEXIE_API = 'https://api.dexie.space/v1';
-
-async function fetchOffers(tokenId: string, status: number, pageSize: number): Promise<DexieOffer[]> {
-  // Try both directions: token offered and token requested
-  const [offeredRes, requestedRes] = await Promise.all([
-    fetch(`${DEXIE_API}/offers?offered=${tokenId}&requested=xch&status=${status}&page_size=${pageSize}`, {
-      next: { revalidate: 30 },
-    }),
-    fetch(`${DEXIE_API}/offers?requested=${tokenId}&offered=xch&status=${status}&page_size=${pageSize}`, {
-      next: { revalidate: 30 },
-    }),
-  ]);
-
-  const [offeredData, requestedData] = await Promise.all([
-    offeredRes.ok ? offeredRes.json() : { offers: [] },
-    requestedRes.ok ? requestedRes.json() : { offers: [] },
-  ]);
-
-  return [...(offeredData.offers || []), ...(requestedData.offers || [])];
-}
-
 function transformOffer(offer: DexieOffer, tokenId: string): OfferHistoryItem {
   // Determine if this is a buy or sell from token perspective
   const isTokenOffered = offer.offered.some(o => o.id === tokenId);
@@ -0,0 +1,48 @@
+/**
+ * Order Book API Route
+ *
+ * GET /api/orderbook/[tokenId]
+ *
+ * Aggregates all active Dexie offers for a token into bid/ask price
+ * levels with cumulative depth, and includes the TibetSwap pool price.
+ * IDs that are not asset IDs get a 400 and tokens that are neither in the
+ * registry nor on the dashboard a 404, before any offers are fetched.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { OrderBookApiResponse } from '@/contracts/types';
+import { isKnownToken } from '@/lib/data-fetcher';
+import { fetchOrderBookDepth } from '@/lib/orderbook';
+import { isAssetId } from '@/lib/validators';
+
+// Depends on live offers - never cache responses
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+): Promise<NextResponse<OrderBookApiResponse>> {
+  try {
+    const { tokenId } = await params;
+
+    // Validate tokenId
+    if (!isAssetId(tokenId)) {
+      return NextResponse.json({ success: false, error: 'Invalid token ID' }, { status: 400 });
+    }
+
+    // Every request pages the Dexie book - only do that for known tokens
+    if (!(await isKnownToken(tokenId))) {
+      return NextResponse.json({ success: false, error: 'Unknown token' }, { status: 404 });
+    }
+
+    const depth = await fetchOrderBookDepth(tokenId);
+
+    return NextResponse.json({ success: true, data: depth });
+  } catch (error) {
+    console.error('Order book API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch order book' },
+      { status: 500 }
+    );
+  }
+}
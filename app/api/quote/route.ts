@@ -0,0 +1,69 @@
+/**
+ * Swap Quote API Route
+ *
+ * GET /api/quote?tokenId=...&input=xch|token&amount=...
+ *
+ * Quotes an exact-input swap on the token's TibetSwap pool: output amount,
+ * effective price, price impact and fee.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { QuoteApiResponse, SwapInputAsset } from '@/contracts/types';
+import { quoteSwap } from '@/lib/amm-quote';
+
+// Quotes depend on live reserves - never cache responses
+export const dynamic = 'force-dynamic';
+
+/**
+ * Valid input asset values
+ */
+const VALID_INPUTS: SwapInputAsset[] = ['xch', 'token'];
+
+/**
+ * Validate input asset parameter
+ */
+function isValidInput(input: string | null): input is SwapInputAsset {
+  return input !== null && VALID_INPUTS.includes(input as SwapInputAsset);
+}
+
+export async function GET(request: NextRequest): Promise<NextResponse<QuoteApiResponse>> {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const tokenId = searchParams.get('tokenId');
+    const input = searchParams.get('input') || 'xch';
+    const amount = Number(searchParams.get('amount'));
+
+    // Validate tokenId
+    if (!tokenId || tokenId.length < 10) {
+      return NextResponse.json({ success: false, error: 'Invalid token ID' }, { status: 400 });
+    }
+
+    if (!isValidInput(input)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid input. Must be one of: ${VALID_INPUTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json(
+        { success: false, error: 'Amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    const result = await quoteSwap(tokenId, input, amount);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error.message }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Quote API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to quote swap' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Token Metadata API Route
+ *
+ * GET /api/tokens/[id]/metadata
+ *
+ * Returns a token's description, website, social links, tags and launch
+ * date, merged from the curated token registry file and the Dexie token
+ * list.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { TokenMetadataApiResponse } from '@/contracts/types';
+import { fetchTokenMetadata } from '@/lib/token-metadata';
+
+// The registry refreshes the curated file and Dexie list - never cache responses
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<TokenMetadataApiResponse>> {
+  try {
+    const { id } = await params;
+
+    if (!id || id.length < 10) {
+      return NextResponse.json({ success: false, error: 'Invalid token ID' }, { status: 400 });
+    }
+
+    const result = await fetchTokenMetadata(id);
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error.message }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: result.data });
+  } catch (error) {
+    console.error('Token metadata API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch token metadata' },
+      { status: 500 }
+    );
+  }
+}
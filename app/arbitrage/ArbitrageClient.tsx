@@ -0,0 +1,293 @@
+'use client';
+
+/**
+ * ArbitrageClient Component
+ *
+ * Client-side component for the arbitrage page: size and threshold inputs,
+ * and the opportunities table, re-scanned on the dashboard polling cycle.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  ArbitrageApiResponse,
+  ArbitrageDirection,
+  ArbitrageScan,
+  ExecutionLeg,
+  FiatRates,
+  XchMarketSummary,
+} from '@/contracts/types';
+import { setFiatRates } from '@/lib/currency';
+import { formatPercentage, formatPrice } from '@/lib/transform';
+import { getPlatformDisplayName } from '@/lib/dex-links';
+import { Header } from '@/components/Header';
+import { LastUpdated } from '@/components/LastUpdated';
+import { XchPriceWarning } from '@/components/XchPriceWarning';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface ArbitrageClientProps {
+  /** Scan with the default size and threshold, null if it failed */
+  initialScan: ArbitrageScan | null;
+  xchPriceUsd: number;
+  xchMarket?: XchMarketSummary;
+  fiatRates?: FiatRates;
+  xchPriceIsFallback?: boolean;
+}
+
+/**
+ * Re-scan interval (same as the dashboard polling cycle)
+ */
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Delay before re-scanning after an input changes
+ */
+const INPUT_DEBOUNCE_MS = 400;
+
+const DIRECTION_LABELS: Record<ArbitrageDirection, string> = {
+  buyTibetSwap: 'Buy TibetSwap, sell Dexie',
+  buyDexie: 'Buy Dexie, sell TibetSwap',
+};
+
+/**
+ * Sign prefix for amounts formatted by magnitude (the formatters expect positive values)
+ */
+function sign(value: number): string {
+  return value < 0 ? '-' : '+';
+}
+
+function LegLink({ leg, action }: { leg: ExecutionLeg; action: string }) {
+  return (
+    <a
+      href={leg.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-accent-blue hover:underline whitespace-nowrap"
+    >
+      {action} on {getPlatformDisplayName(leg.venue)}
+    </a>
+  );
+}
+
+export function ArbitrageClient({
+  initialScan,
+  xchPriceUsd,
+  xchMarket,
+  fiatRates,
+  xchPriceIsFallback,
+}: ArbitrageClientProps) {
+  const { formatMoney } = useCurrency();
+  const [size, setSize] = useState(initialScan ? String(initialScan.sizeXch) : '10');
+  const [minDivergence, setMinDivergence] = useState(
+    initialScan ? String(initialScan.minDivergencePct) : '2'
+  );
+  const [scan, setScan] = useState<ArbitrageScan | null>(initialScan);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(
+    initialScan ? null : 'Unable to scan for arbitrage'
+  );
+
+  useEffect(() => {
+    setFiatRates(fiatRates);
+  }, [fiatRates]);
+
+  // Scan when the inputs change, then on every polling cycle
+  useEffect(() => {
+    const parsedSize = Number(size);
+    const parsedDivergence = Number(minDivergence);
+    if (!(parsedSize > 0) || !(parsedDivergence >= 0)) {
+      setError('Enter a positive size and a non-negative threshold');
+      return;
+    }
+
+    let cancelled = false;
+
+    const runScan = async () => {
+      setIsLoading(true);
+
+      try {
+        const response = await fetch(
+          `/api/arbitrage?size=${parsedSize}&minDivergence=${parsedDivergence}`
+        );
+        const result: ArbitrageApiResponse = await response.json();
+        if (cancelled) return;
+
+        if (result.success && result.data) {
+          setScan(result.data);
+          setError(null);
+        } else {
+          setError(result.error || 'Unable to scan for arbitrage');
+        }
+      } catch {
+        if (!cancelled) setError('Unable to scan for arbitrage');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    const timeoutId = setTimeout(runScan, INPUT_DEBOUNCE_MS);
+    const intervalId = setInterval(runScan, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+      clearInterval(intervalId);
+    };
+  }, [size, minDivergence]);
+
+  const opportunities = scan?.opportunities ?? [];
+
+  return (
+    <div className="min-h-screen bg-background-primary">
+      <Header
+        xchPriceUsd={xchPriceUsd}
+        xchChange24h={xchMarket?.change24h ?? undefined}
+        xchSparkline={xchMarket?.sparkline}
+        xchPriceIsFallback={xchPriceIsFallback}
+      />
+
+      <main className="container mx-auto px-4 py-6">
+        <XchPriceWarning isFallback={xchPriceIsFallback} xchMarket={xchMarket} />
+
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold text-text-primary">Arbitrage</h1>
+            <p className="text-sm text-text-muted mt-1">
+              Dexie best bid/ask versus TibetSwap pool prices. Profit includes the TibetSwap
+              fee and price impact; the Dexie leg walks the book depth, and the size is capped
+              where the book runs out.
+            </p>
+          </div>
+          {scan && <LastUpdated timestamp={new Date(scan.fetchedAt)} isLoading={isLoading} />}
+        </div>
+
+        {/* Inputs */}
+        <div className="flex flex-wrap gap-4 mb-6">
+          <div>
+            <label className="block text-sm text-text-muted mb-1" htmlFor="arbitrage-size">
+              Size (XCH)
+            </label>
+            <input
+              id="arbitrage-size"
+              type="number"
+              min="0"
+              step="any"
+              inputMode="decimal"
+              value={size}
+              onChange={(e) => setSize(e.target.value)}
+              className="w-36 px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-text-primary tabular-nums focus:outline-none focus:border-accent-blue"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-text-muted mb-1" htmlFor="arbitrage-divergence">
+              Min divergence (%)
+            </label>
+            <input
+              id="arbitrage-divergence"
+              type="number"
+              min="0"
+              step="any"
+              inputMode="decimal"
+              value={minDivergence}
+              onChange={(e) => setMinDivergence(e.target.value)}
+              className="w-36 px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-text-primary tabular-nums focus:outline-none focus:border-accent-blue"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-accent-red text-sm mb-4">{error}</p>}
+
+        {/* Opportunities */}
+        <div className="bg-background-secondary border border-border-primary rounded-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-text-primary">Opportunities</h2>
+            <span className="text-xs text-text-muted">{opportunities.length} token(s)</span>
+          </div>
+
+          {opportunities.length === 0 ? (
+            <p className="text-text-muted text-sm">
+              No token diverges by {scan?.minDivergencePct ?? minDivergence}% or more between
+              Dexie and TibetSwap.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-text-muted border-b border-border-secondary">
+                    <th className="py-2 pr-4 text-left font-medium">Token</th>
+                    <th className="py-2 px-4 text-left font-medium">Route</th>
+                    <th className="py-2 px-4 text-right font-medium">Dexie</th>
+                    <th className="py-2 px-4 text-right font-medium">TibetSwap</th>
+                    <th className="py-2 px-4 text-right font-medium">Divergence</th>
+                    <th className="py-2 px-4 text-right font-medium">Impact</th>
+                    <th className="py-2 px-4 text-right font-medium">Est. Profit</th>
+                    <th className="py-2 pl-4 text-right font-medium">Trade</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {opportunities.map((opportunity) => (
+                    <tr
+                      key={opportunity.tokenId}
+                      className="border-b border-border-secondary last:border-0"
+                    >
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <Link
+                          href={`/tokens/${opportunity.symbol}`}
+                          className="font-medium text-text-primary hover:text-accent-blue"
+                        >
+                          {opportunity.symbol}
+                        </Link>
+                      </td>
+                      <td className="py-2 px-4 text-text-secondary whitespace-nowrap">
+                        {DIRECTION_LABELS[opportunity.direction]}
+                      </td>
+                      <td className="py-2 px-4 text-right tabular-nums text-text-primary whitespace-nowrap">
+                        {formatPrice(opportunity.dexiePrice)}
+                      </td>
+                      <td className="py-2 px-4 text-right tabular-nums text-text-primary whitespace-nowrap">
+                        {formatPrice(opportunity.ammPrice)}
+                      </td>
+                      <td className="py-2 px-4 text-right tabular-nums text-text-secondary whitespace-nowrap">
+                        {opportunity.divergencePct.toFixed(2)}%
+                      </td>
+                      <td className="py-2 px-4 text-right tabular-nums text-text-secondary whitespace-nowrap">
+                        {opportunity.priceImpact.toFixed(2)}%
+                      </td>
+                      <td
+                        className={`py-2 px-4 text-right tabular-nums whitespace-nowrap ${
+                          opportunity.profitXch > 0 ? 'text-accent-green' : 'text-accent-red'
+                        }`}
+                        title={`${formatPrice(opportunity.ammFeeXch)} XCH TibetSwap fee`}
+                      >
+                        <div>
+                          {sign(opportunity.profitXch)}
+                          {formatPrice(Math.abs(opportunity.profitXch))} XCH (
+                          {formatPercentage(opportunity.profitPct)})
+                        </div>
+                        <div className="text-xs text-text-muted">
+                          {sign(opportunity.profitXch)}
+                          {formatMoney(Math.abs(opportunity.profitXch) * xchPriceUsd)}
+                        </div>
+                        {opportunity.isSizeCapped && (
+                          <div className="text-xs text-accent-yellow">
+                            Capped at {formatPrice(opportunity.sizeXch)} XCH (Dexie depth)
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pl-4 text-right">
+                        <div className="flex flex-col items-end gap-1">
+                          <LegLink leg={opportunity.buy} action="Buy" />
+                          <LegLink leg={opportunity.sell} action="Sell" />
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
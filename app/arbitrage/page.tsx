@@ -0,0 +1,33 @@
+/**
+ * Arbitrage Page
+ *
+ * Tokens whose Dexie best bid/ask and TibetSwap pool price diverge, with
+ * the estimated profit of trading across the two venues.
+ */
+
+import { Metadata } from 'next';
+import { fetchDashboardDataSafe } from '@/lib/data-fetcher';
+import { scanArbitrage } from '@/lib/arbitrage';
+import { ArbitrageClient } from './ArbitrageClient';
+
+// ISR: Revalidate every 30 seconds
+export const revalidate = 30;
+
+export const metadata: Metadata = {
+  title: 'Arbitrage | XCH Dashboard',
+  description: 'Price gaps between the Dexie order book and TibetSwap pools.',
+};
+
+export default async function ArbitragePage() {
+  const [data, scan] = await Promise.all([fetchDashboardDataSafe(), scanArbitrage()]);
+
+  return (
+    <ArbitrageClient
+      initialScan={scan.success ? scan.data : null}
+      xchPriceUsd={data.xchPriceUsd}
+      xchMarket={data.xchMarket}
+      fiatRates={data.fiatRates}
+      xchPriceIsFallback={data.xchPriceIsFallback}
+    />
+  );
+}
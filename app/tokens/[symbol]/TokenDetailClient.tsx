@@ -7,23 +7,45 @@
  * Handles interactive elements like charts, watchlist, and real-time updates.
  */
 
+import { useEffect, useState } from 'react';
 import Link from 'next/link';
-import { TokenDetail } from '@/contracts/types';
+import { FiatRates, TokenDetail, TokenMetadata, XchMarketSummary } from '@/contracts/types';
+import { setFiatRates } from '@/lib/currency';
 import { TokenDetailHeader } from '@/components/TokenDetailHeader';
 import { TokenStats } from '@/components/TokenStats';
 import { TradingLinks } from '@/components/TradingLinks';
+import { SwapQuote } from '@/components/SwapQuote';
 import { PriceChart } from '@/components/PriceChart';
 import { ChartTimeframeSelector } from '@/components/ChartTimeframeSelector';
 import { OfferHistory } from '@/components/OfferHistory';
+import { DepthChart } from '@/components/DepthChart';
+import { MarketPairs } from '@/components/MarketPairs';
+import { PriceProvenance } from '@/components/PriceProvenance';
+import { TokenAbout } from '@/components/TokenAbout';
+import { CurrencySelector } from '@/components/CurrencySelector';
+import { XchPriceWarning } from '@/components/XchPriceWarning';
 import { useChartData } from '@/hooks/useChartData';
 import { useWatchlist } from '@/hooks/useWatchlist';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface TokenDetailClientProps {
   token: TokenDetail;
   xchPriceUsd: number;
+  fiatRates?: FiatRates;
+  xchMarket?: XchMarketSummary;
+  xchPriceIsFallback?: boolean;
+  /** Token metadata loaded on the server */
+  metadata?: TokenMetadata;
 }
 
-export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps) {
+export function TokenDetailClient({
+  token,
+  xchPriceUsd,
+  fiatRates,
+  xchMarket,
+  xchPriceIsFallback,
+  metadata,
+}: TokenDetailClientProps) {
   // Chart data hook
   const {
     data: chartData,
@@ -31,17 +53,25 @@ export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps
     error: chartError,
     timeframe,
     setTimeframe,
-  } = useChartData(token.id, token);
+  } = useChartData(token.id);
 
   // Watchlist hook
   const { isWatched, toggleWatchlist } = useWatchlist();
   const watched = isWatched(token.id);
 
+  // Display currency, and whether the chart is plotted in it instead of XCH
+  const { currency, convert } = useCurrency();
+  const [chartInFiat, setChartInFiat] = useState(false);
+
+  useEffect(() => {
+    setFiatRates(fiatRates);
+  }, [fiatRates]);
+
   return (
     <div className="min-h-screen bg-background-primary">
       {/* Navigation */}
       <div className="border-b border-border-primary">
-        <div className="container mx-auto px-4 py-4">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
           <Link
             href="/"
             className="inline-flex items-center gap-2 text-text-secondary hover:text-text-primary transition-colors"
@@ -60,10 +90,13 @@ export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps
             </svg>
             <span>Back to Dashboard</span>
           </Link>
+          <CurrencySelector />
         </div>
       </div>
 
       <main className="container mx-auto px-4 py-6">
+        <XchPriceWarning isFallback={xchPriceIsFallback} xchMarket={xchMarket} />
+
         {/* Token Header */}
         <TokenDetailHeader
           token={token}
@@ -78,10 +111,27 @@ export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps
           <div className="lg:col-span-2 bg-background-secondary border border-border-primary rounded-lg p-4">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-semibold text-text-primary">Price Chart</h2>
-              <ChartTimeframeSelector
-                currentTimeframe={timeframe}
-                onTimeframeChange={setTimeframe}
-              />
+              <div className="flex items-center gap-2">
+                <div className="flex items-center gap-1 bg-background-tertiary rounded-lg p-1">
+                  {(['XCH', currency] as const).map((unit, index) => (
+                    <button
+                      key={unit}
+                      onClick={() => setChartInFiat(index === 1)}
+                      className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                        chartInFiat === (index === 1)
+                          ? 'bg-background-secondary text-text-primary'
+                          : 'text-text-muted hover:text-text-secondary'
+                      }`}
+                    >
+                      {unit}
+                    </button>
+                  ))}
+                </div>
+                <ChartTimeframeSelector
+                  currentTimeframe={timeframe}
+                  onTimeframeChange={setTimeframe}
+                />
+              </div>
             </div>
 
             {chartError && (
@@ -95,8 +145,15 @@ export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps
                 data={chartData}
                 isLoading={chartLoading}
                 height={400}
+                priceMultiplier={chartInFiat ? convert(xchPriceUsd) : 1}
               />
             )}
+
+            {chartInFiat && (
+              <p className="mt-2 text-xs text-text-muted">
+                {currency} values use the current XCH price, not the price at each point in time
+              </p>
+            )}
           </div>
 
           {/* Sidebar - stats and trading links */}
@@ -106,7 +163,39 @@ export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps
 
             {/* Trading Links */}
             <TradingLinks token={token} />
+
+            {/* TibetSwap Quote */}
+            <SwapQuote
+              tokenId={token.id}
+              tokenSymbol={token.symbol}
+              xchPriceUsd={xchPriceUsd}
+            />
+          </div>
+        </div>
+
+        {/* Price Sources */}
+        {token.priceQuotes && token.priceQuotes.length > 0 && (
+          <div className="mt-6">
+            <PriceProvenance
+              quotes={token.priceQuotes}
+              policy={token.referencePolicy}
+              divergencePct={token.priceDivergencePct}
+              priceXch={token.priceXch}
+              xchPriceUsd={xchPriceUsd}
+            />
           </div>
+        )}
+
+        {/* Markets */}
+        {token.pairs && (
+          <div className="mt-6">
+            <MarketPairs pairs={token.pairs} tokenSymbol={token.symbol} />
+          </div>
+        )}
+
+        {/* Order Book Depth */}
+        <div className="mt-6">
+          <DepthChart tokenId={token.id} tokenSymbol={token.symbol} />
         </div>
 
         {/* Offer History */}
@@ -118,46 +207,15 @@ export function TokenDetailClient({ token, xchPriceUsd }: TokenDetailClientProps
           />
         </div>
 
-        {/* Additional info section */}
-        <div className="mt-6 bg-background-secondary border border-border-primary rounded-lg p-6">
-          <h2 className="text-lg font-semibold text-text-primary mb-4">
-            About {token.name}
-          </h2>
-          <div className="text-text-secondary">
-            {token.description ? (
-              <p>{token.description}</p>
-            ) : (
-              <p className="text-text-muted">
-                No description available for this token. Visit the trading platforms
-                for more information.
-              </p>
-            )}
-          </div>
-
-          {token.website && (
-            <div className="mt-4">
-              <a
-                href={token.website}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="inline-flex items-center gap-2 text-accent-blue hover:underline"
-              >
-                <svg
-                  className="h-4 w-4"
-                  xmlns="http://www.w3.org/2000/svg"
-                  viewBox="0 0 20 20"
-                  fill="currentColor"
-                >
-                  <path
-                    fillRule="evenodd"
-                    d="M4.083 9h1.946c.089-1.546.383-2.97.837-4.118A6.004 6.004 0 004.083 9zM10 2a8 8 0 100 16 8 8 0 000-16zm0 2c-.076 0-.232.032-.465.262-.238.234-.497.623-.737 1.182-.389.907-.673 2.142-.766 3.556h3.936c-.093-1.414-.377-2.649-.766-3.556-.24-.56-.5-.948-.737-1.182C10.232 4.032 10.076 4 10 4zm3.971 5c-.089-1.546-.383-2.97-.837-4.118A6.004 6.004 0 0115.917 9h-1.946zm-2.003 2H8.032c.093 1.414.377 2.649.766 3.556.24.56.5.948.737 1.182.233.23.389.262.465.262.076 0 .232-.032.465-.262.238-.234.498-.623.737-1.182.389-.907.673-2.142.766-3.556zm1.166 4.118c.454-1.147.748-2.572.837-4.118h1.946a6.004 6.004 0 01-2.783 4.118zm-6.268 0C6.412 13.97 6.118 12.546 6.03 11H4.083a6.004 6.004 0 002.783 4.118z"
-                    clipRule="evenodd"
-                  />
-                </svg>
-                Visit Website
-              </a>
-            </div>
-          )}
+        {/* About */}
+        <div className="mt-6">
+          <TokenAbout
+            tokenId={token.id}
+            tokenName={token.name}
+            description={token.description}
+            website={token.website}
+            initialMetadata={metadata}
+          />
         </div>
 
         {/* Footer */}
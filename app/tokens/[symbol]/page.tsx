@@ -7,7 +7,11 @@
 
 import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
+import { TokenDetail } from '@/contracts/types';
 import { fetchDashboardData } from '@/lib/data-fetcher';
+import { fetchTokenSupply, calculateValuation } from '@/lib/supply';
+import { fetchTokenPairs } from '@/lib/market-pairs';
+import { fetchTokenMetadata } from '@/lib/token-metadata';
 import { TokenDetailClient } from './TokenDetailClient';
 
 interface TokenPageProps {
@@ -57,20 +61,32 @@ export default async function TokenPage({ params }: TokenPageProps) {
     notFound();
   }
 
+  const [supply, pairsResult, metadataResult] = await Promise.all([
+    fetchTokenSupply(token.id),
+    fetchTokenPairs(token.id),
+    fetchTokenMetadata(token.id),
+  ]);
+
   // Enhance token with detail-specific data
-  const tokenDetail = {
+  const tokenDetail: TokenDetail = {
     ...token,
     liquidity: {
-      totalXch: token.volume24hXch * 10, // Approximation
-      totalUsd: token.volume24hUsd * 10,
+      totalXch: token.liquidityXch,
+      totalUsd: token.liquidityUsd,
     },
-    marketCap: undefined, // Not available from API
+    supply: supply ?? undefined,
+    ...calculateValuation(token, supply, result.data.xchPriceUsd),
+    pairs: pairsResult.success ? pairsResult.data : undefined,
   };
 
   return (
     <TokenDetailClient
       token={tokenDetail}
       xchPriceUsd={result.data.xchPriceUsd}
+      fiatRates={result.data.fiatRates}
+      xchMarket={result.data.xchMarket}
+      xchPriceIsFallback={result.data.xchPriceIsFallback}
+      metadata={metadataResult.success ? metadataResult.data : undefined}
     />
   );
 }
@@ -0,0 +1,214 @@
+'use client';
+
+/**
+ * XchDetailClient Component
+ *
+ * Client-side component for the XCH detail page: current price, 24h
+ * change and range, the oracle readings the price is the median of, and a
+ * chart of the recorded XCH price in the display currency.
+ */
+
+import { useEffect } from 'react';
+import { FiatRates, XchMarketSummary, XchPriceProvider } from '@/contracts/types';
+import { setFiatRates } from '@/lib/currency';
+import { formatPercentage } from '@/lib/transform';
+import { Header } from '@/components/Header';
+import { PriceChart } from '@/components/PriceChart';
+import { ChartTimeframeSelector } from '@/components/ChartTimeframeSelector';
+import { XchPriceWarning } from '@/components/XchPriceWarning';
+import { useChartData } from '@/hooks/useChartData';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface XchDetailClientProps {
+  xchPriceUsd: number;
+  xchMarket?: XchMarketSummary;
+  fiatRates?: FiatRates;
+  xchPriceIsFallback?: boolean;
+}
+
+const PROVIDER_LABELS: Record<XchPriceProvider, string> = {
+  oracles: 'Median of oracles',
+  cache: 'Last known price',
+  fallback: 'Fallback (oracles unavailable)',
+};
+
+export function XchDetailClient({
+  xchPriceUsd,
+  xchMarket,
+  fiatRates,
+  xchPriceIsFallback,
+}: XchDetailClientProps) {
+  const { currency, convert, formatMoney } = useCurrency();
+
+  // Chart data hook ('xch' serves the recorded XCH/USD history)
+  const {
+    data: chartData,
+    isLoading: chartLoading,
+    error: chartError,
+    timeframe,
+    setTimeframe,
+  } = useChartData('xch');
+
+  useEffect(() => {
+    setFiatRates(fiatRates);
+  }, [fiatRates]);
+
+  const change24h = xchMarket?.change24h ?? null;
+
+  const stats = [
+    {
+      label: '24h Change',
+      value: change24h !== null ? formatPercentage(change24h) : '-',
+      subValue:
+        xchMarket?.change24hSource === 'history'
+          ? 'From recorded prices'
+          : xchMarket?.change24hSource === 'provider'
+            ? 'Reported by provider'
+            : 'Not enough history yet',
+      className:
+        change24h === null
+          ? 'text-text-primary'
+          : change24h >= 0
+            ? 'text-accent-green'
+            : 'text-accent-red',
+    },
+    {
+      label: '24h High',
+      value: xchMarket && xchMarket.high24h !== null ? formatMoney(xchMarket.high24h) : '-',
+      className: 'text-text-primary',
+    },
+    {
+      label: '24h Low',
+      value: xchMarket && xchMarket.low24h !== null ? formatMoney(xchMarket.low24h) : '-',
+      className: 'text-text-primary',
+    },
+    {
+      label: 'Price Source',
+      value: xchMarket ? PROVIDER_LABELS[xchMarket.provider] : '-',
+      className: 'text-text-primary',
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background-primary">
+      <Header
+        xchPriceUsd={xchPriceUsd}
+        xchChange24h={change24h ?? undefined}
+        xchSparkline={xchMarket?.sparkline}
+        xchPriceIsFallback={xchPriceIsFallback}
+      />
+
+      <main className="container mx-auto px-4 py-6">
+        <XchPriceWarning isFallback={xchPriceIsFallback} xchMarket={xchMarket} />
+
+        {/* Price */}
+        <div className="bg-background-secondary border border-border-primary rounded-lg p-6">
+          <h1 className="text-2xl font-bold text-text-primary">Chia (XCH)</h1>
+          <div className="flex items-baseline gap-3 mt-2">
+            <span className="text-3xl font-bold text-text-primary tabular-nums">
+              {formatMoney(xchPriceUsd)}
+            </span>
+            {change24h !== null && (
+              <span
+                className={`text-lg font-medium tabular-nums ${
+                  change24h >= 0 ? 'text-accent-green' : 'text-accent-red'
+                }`}
+              >
+                {formatPercentage(change24h)}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mt-6">
+          {stats.map((stat) => (
+            <div
+              key={stat.label}
+              className="bg-background-secondary border border-border-primary rounded-lg p-4"
+            >
+              <div className="text-sm text-text-muted">{stat.label}</div>
+              <div className={`text-lg font-medium font-mono ${stat.className}`}>{stat.value}</div>
+              {stat.subValue && <div className="text-xs text-text-muted mt-1">{stat.subValue}</div>}
+            </div>
+          ))}
+        </div>
+
+        {/* Oracles */}
+        {xchMarket && xchMarket.readings.length > 0 && (
+          <div className="mt-6 bg-background-secondary border border-border-primary rounded-lg p-4">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-text-primary">Price Oracles</h2>
+              {xchMarket.divergencePct !== null && (
+                <span
+                  className={`text-xs tabular-nums ${
+                    xchMarket.isDivergent ? 'text-accent-yellow' : 'text-text-muted'
+                  }`}
+                >
+                  Max divergence {xchMarket.divergencePct.toFixed(2)}%
+                </span>
+              )}
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-text-muted text-left">
+                  <th className="pb-2 font-medium">Oracle</th>
+                  <th className="pb-2 font-medium text-right">Price (USD)</th>
+                  <th className="pb-2 font-medium text-right">24h</th>
+                  <th className="pb-2 font-medium text-right">From median</th>
+                  <th className="pb-2 font-medium text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {xchMarket.readings.map((reading) => (
+                  <tr key={reading.oracle} className="border-t border-border-secondary">
+                    <td className="py-2 text-text-primary">{reading.label}</td>
+                    <td className="py-2 text-right text-text-primary tabular-nums">
+                      ${reading.priceUsd.toFixed(4)}
+                    </td>
+                    <td className="py-2 text-right text-text-secondary tabular-nums">
+                      {reading.change24h !== null ? formatPercentage(reading.change24h) : '-'}
+                    </td>
+                    <td className="py-2 text-right text-text-secondary tabular-nums">
+                      {reading.deviationPct.toFixed(2)}%
+                    </td>
+                    <td
+                      className={`py-2 text-right ${
+                        reading.accepted ? 'text-accent-green' : 'text-accent-red'
+                      }`}
+                    >
+                      {reading.accepted ? 'Used' : 'Outlier'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Chart */}
+        <div className="mt-6 bg-background-secondary border border-border-primary rounded-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-text-primary">Price History ({currency})</h2>
+            <ChartTimeframeSelector currentTimeframe={timeframe} onTimeframeChange={setTimeframe} />
+          </div>
+
+          {chartError && (
+            <div className="flex items-center justify-center h-64 text-text-muted">
+              <p>Unable to load chart data</p>
+            </div>
+          )}
+
+          {!chartError && (
+            <PriceChart
+              data={chartData}
+              isLoading={chartLoading}
+              height={400}
+              priceMultiplier={convert(1)}
+            />
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
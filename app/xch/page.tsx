@@ -0,0 +1,31 @@
+/**
+ * XCH Detail Page
+ *
+ * XCH/USD price, 24h change and range, the oracle readings behind the
+ * price, and the recorded price history.
+ */
+
+import { Metadata } from 'next';
+import { fetchDashboardDataSafe } from '@/lib/data-fetcher';
+import { XchDetailClient } from './XchDetailClient';
+
+// ISR: Revalidate every 30 seconds
+export const revalidate = 30;
+
+export const metadata: Metadata = {
+  title: 'XCH | XCH Dashboard',
+  description: 'Chia (XCH) price, 24h change and price history.',
+};
+
+export default async function XchPage() {
+  const data = await fetchDashboardDataSafe();
+
+  return (
+    <XchDetailClient
+      xchPriceUsd={data.xchPriceUsd}
+      xchMarket={data.xchMarket}
+      fiatRates={data.fiatRates}
+      xchPriceIsFallback={data.xchPriceIsFallback}
+    />
+  );
+}
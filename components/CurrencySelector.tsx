@@ -0,0 +1,37 @@
+'use client';
+
+/**
+ * CurrencySelector Component
+ *
+ * Dropdown for the fiat currency prices are displayed in.
+ * Falls back to USD (with a hint) while no exchange rate is available.
+ */
+
+import { FiatCurrency } from '@/contracts/types';
+import { SUPPORTED_CURRENCIES } from '@/lib/currency';
+import { useCurrency } from '@/hooks/useCurrency';
+
+export function CurrencySelector() {
+  const { currency, selectedCurrency, setCurrency } = useCurrency();
+  const isFallback = currency !== selectedCurrency;
+
+  return (
+    <select
+      value={selectedCurrency}
+      onChange={(e) => setCurrency(e.target.value as FiatCurrency)}
+      aria-label="Display currency"
+      title={isFallback ? `No ${selectedCurrency} rate available - showing USD` : undefined}
+      className={`bg-background-tertiary border rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-accent-blue cursor-pointer ${
+        isFallback
+          ? 'border-accent-yellow text-accent-yellow'
+          : 'border-border-primary text-text-primary'
+      }`}
+    >
+      {SUPPORTED_CURRENCIES.map((option) => (
+        <option key={option} value={option}>
+          {option}
+        </option>
+      ))}
+    </select>
+  );
+}
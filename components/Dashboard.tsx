@@ -14,7 +14,7 @@ import { usePolling, useAlerts, useSearch, useSort } from '@/hooks';
 import { useWatchlist } from '@/hooks/useWatchlist';
 import { useAdvancedFilters } from '@/hooks/useAdvancedFilters';
 import { usePagination } from '@/hooks/usePagination';
-import { addPricePoints } from '@/lib/chart-data';
+import { setFiatRates } from '@/lib/currency';
 import {
   Header,
   SearchBar,
@@ -22,6 +22,7 @@ import {
   LastUpdated,
   TokenTable,
   NotificationBanner,
+  XchPriceWarning,
 } from '@/components';
 import { FilterPanel } from './FilterPanel';
 import { PaginationControls } from './PaginationControls';
@@ -72,18 +73,18 @@ export function Dashboard({ initialData }: DashboardProps) {
     setPriceRange,
     setVolumeRange,
     setChangeRange,
+    setSpreadRange,
+    setLiquidityRange,
     setOnlyWatchlist,
     clearFilters,
     applyFilters,
     hasActiveFilters,
   } = useAdvancedFilters();
 
-  // Data polling with alert checking and chart data recording
+  // Data polling with alert checking
   const handleDataUpdate = useCallback(
     (prevData: DashboardData, newData: DashboardData) => {
       checkForAlerts(prevData.tokens, newData.tokens);
-      // Record price points for chart history
-      addPricePoints(newData.tokens);
     },
     [checkForAlerts]
   );
@@ -94,12 +95,10 @@ export function Dashboard({ initialData }: DashboardProps) {
     onDataUpdate: handleDataUpdate,
   });
 
-  // Record initial data for charts
+  // Share the latest exchange rates with the display currency store
   useEffect(() => {
-    if (initialData?.tokens) {
-      addPricePoints(initialData.tokens);
-    }
-  }, [initialData]);
+    setFiatRates(data?.fiatRates);
+  }, [data?.fiatRates]);
 
   // Calculate trending sections data
   const trendingData = useMemo(() => {
@@ -153,7 +152,12 @@ export function Dashboard({ initialData }: DashboardProps) {
 
   return (
     <div className="min-h-screen bg-background-primary pb-20 lg:pb-0">
-      <Header xchPriceUsd={data?.xchPriceUsd ?? 0} />
+      <Header
+        xchPriceUsd={data?.xchPriceUsd ?? 0}
+        xchChange24h={data?.xchMarket?.change24h ?? undefined}
+        xchSparkline={data?.xchMarket?.sparkline}
+        xchPriceIsFallback={data?.xchPriceIsFallback}
+      />
 
       <main className="container mx-auto px-4 py-6">
         {/* Notification Banner */}
@@ -218,6 +222,8 @@ export function Dashboard({ initialData }: DashboardProps) {
             onPriceRangeChange={setPriceRange}
             onVolumeRangeChange={setVolumeRange}
             onChangeRangeChange={setChangeRange}
+            onSpreadRangeChange={setSpreadRange}
+            onLiquidityRangeChange={setLiquidityRange}
             onWatchlistChange={setOnlyWatchlist}
             onClearFilters={clearFilters}
             hasActiveFilters={hasActiveFilters}
@@ -253,6 +259,20 @@ export function Dashboard({ initialData }: DashboardProps) {
           </div>
         </div>
 
+        {/* Degraded Feeds Notice */}
+        {data?.degradedSources && data.degradedSources.length > 0 && (
+          <div className="bg-background-secondary border border-border-primary rounded-lg px-4 py-3 mb-6 text-sm">
+            <span className="text-text-muted">Degraded data feeds: </span>
+            <span className="text-accent-yellow font-medium">
+              {data.degradedSources.join(', ')}
+            </span>
+            <span className="text-text-muted"> - some prices may be missing or delayed.</span>
+          </div>
+        )}
+
+        {/* XCH Price Warning */}
+        <XchPriceWarning isFallback={data?.xchPriceIsFallback} xchMarket={data?.xchMarket} />
+
         {/* Stale Data Warning */}
         {data?.isStale && (
           <div className="bg-accent-yellow/10 border border-accent-yellow/30 rounded-lg p-4 mb-6">
@@ -270,7 +290,9 @@ export function Dashboard({ initialData }: DashboardProps) {
                 />
               </svg>
               <span className="text-accent-yellow font-medium">
-                Data may be stale. Refresh to get latest prices.
+                {data.ageMs !== undefined
+                  ? `Upstream unavailable - showing data from ${Math.max(1, Math.round(data.ageMs / 60000))} min ago.`
+                  : 'Data may be stale. Refresh to get latest prices.'}
               </span>
             </div>
           </div>
@@ -0,0 +1,230 @@
+'use client';
+
+/**
+ * DepthChart Component
+ *
+ * SVG depth chart of a token's Dexie order book: cumulative bid and ask
+ * depth (in XCH) around the mid price, with the TibetSwap pool price marked.
+ * Lightweight, no external dependencies.
+ */
+
+import { useState, useEffect, ReactNode } from 'react';
+import { DepthLevel, OrderBookDepth } from '@/contracts/types';
+import { formatPrice, formatVolume } from '@/lib/transform';
+
+interface DepthChartProps {
+  tokenId: string;
+  tokenSymbol: string;
+  /** Chart height in pixels */
+  height?: number;
+}
+
+/**
+ * Price range shown on each side of the center price (0.5 = ±50%)
+ */
+const PRICE_RANGE = 0.5;
+
+const VIEW_WIDTH = 600;
+const PADDING = 8;
+
+/**
+ * Build a stepped path for one side of the book
+ *
+ * @returns Path for the outline and the filled area
+ */
+function buildSidePath(
+  levels: DepthLevel[],
+  edgePrice: number,
+  toX: (price: number) => number,
+  toY: (depth: number) => number
+): { line: string; area: string } | null {
+  if (levels.length === 0) return null;
+
+  const baseline = toY(0);
+  const commands = [`M ${toX(levels[0].price)},${baseline}`];
+  let previous = 0;
+
+  for (const level of levels) {
+    const x = toX(level.price);
+    commands.push(`L ${x},${toY(previous)}`, `L ${x},${toY(level.cumulativeXch)}`);
+    previous = level.cumulativeXch;
+  }
+  commands.push(`L ${toX(edgePrice)},${toY(previous)}`);
+
+  const line = commands.join(' ');
+  return { line, area: `${line} L ${toX(edgePrice)},${baseline} Z` };
+}
+
+export function DepthChart({ tokenId, tokenSymbol, height = 240 }: DepthChartProps) {
+  const [data, setData] = useState<OrderBookDepth | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchDepth() {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const res = await fetch(`/api/orderbook/${tokenId}`);
+        const json = await res.json();
+
+        if (json.success) {
+          setData(json.data);
+        } else {
+          setError(json.error || 'Failed to load order book');
+        }
+      } catch {
+        setError('Failed to fetch order book');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchDepth();
+  }, [tokenId]);
+
+  const center = data
+    ? data.midPrice ?? data.ammPrice ?? data.bestBid ?? data.bestAsk
+    : null;
+
+  let chart: ReactNode = null;
+
+  if (data && center) {
+    const minPrice = center * (1 - PRICE_RANGE);
+    const maxPrice = center * (1 + PRICE_RANGE);
+
+    const bids = data.bids.filter((level) => level.price >= minPrice);
+    const asks = data.asks.filter((level) => level.price <= maxPrice);
+    const maxDepth = Math.max(
+      bids[bids.length - 1]?.cumulativeXch ?? 0,
+      asks[asks.length - 1]?.cumulativeXch ?? 0,
+      1e-9
+    );
+
+    const toX = (price: number) =>
+      PADDING + ((price - minPrice) / (maxPrice - minPrice)) * (VIEW_WIDTH - PADDING * 2);
+    const toY = (depth: number) => PADDING + (1 - depth / maxDepth) * (height - PADDING * 2);
+
+    const bidPath = buildSidePath(bids, minPrice, toX, toY);
+    const askPath = buildSidePath(asks, maxPrice, toX, toY);
+    const ammInRange =
+      data.ammPrice !== null && data.ammPrice >= minPrice && data.ammPrice <= maxPrice;
+
+    chart = (
+      <svg
+        viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height }}
+        role="img"
+        aria-label={`${tokenSymbol} order book depth`}
+      >
+        {bidPath && (
+          <g className="text-accent-green">
+            <path d={bidPath.area} fill="currentColor" fillOpacity={0.15} />
+            <path d={bidPath.line} fill="none" stroke="currentColor" strokeWidth={1.5} />
+          </g>
+        )}
+        {askPath && (
+          <g className="text-accent-red">
+            <path d={askPath.area} fill="currentColor" fillOpacity={0.15} />
+            <path d={askPath.line} fill="none" stroke="currentColor" strokeWidth={1.5} />
+          </g>
+        )}
+        {ammInRange && data.ammPrice !== null && (
+          <line
+            className="text-accent-blue"
+            x1={toX(data.ammPrice)}
+            x2={toX(data.ammPrice)}
+            y1={PADDING}
+            y2={height - PADDING}
+            stroke="currentColor"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        )}
+      </svg>
+    );
+  }
+
+  return (
+    <div className="bg-background-secondary border border-border-primary rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">Order Book Depth</h2>
+        <div className="flex items-center gap-3 text-xs text-text-muted">
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-accent-green" /> Bids
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full bg-accent-red" /> Asks
+          </span>
+          {data?.ammPrice && (
+            <span className="flex items-center gap-1">
+              <span className="w-2 h-2 rounded-full bg-accent-blue" /> TibetSwap
+            </span>
+          )}
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center text-text-muted" style={{ height }}>
+          Loading order book...
+        </div>
+      )}
+
+      {!isLoading && error && (
+        <div className="flex items-center justify-center text-accent-red" style={{ height }}>
+          {error}
+        </div>
+      )}
+
+      {!isLoading && !error && !chart && (
+        <div className="flex items-center justify-center text-text-muted" style={{ height }}>
+          No active offers for {tokenSymbol}
+        </div>
+      )}
+
+      {!isLoading && !error && chart}
+
+      {!isLoading && !error && data && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mt-4 text-sm">
+          <div>
+            <div className="text-text-muted">Best bid</div>
+            <div className="text-accent-green tabular-nums">
+              {data.bestBid !== null ? `${formatPrice(data.bestBid)} XCH` : '-'}
+            </div>
+          </div>
+          <div>
+            <div className="text-text-muted">Best ask</div>
+            <div className="text-accent-red tabular-nums">
+              {data.bestAsk !== null ? `${formatPrice(data.bestAsk)} XCH` : '-'}
+            </div>
+          </div>
+          <div>
+            <div className="text-text-muted">TibetSwap price</div>
+            <div className="text-accent-blue tabular-nums">
+              {data.ammPrice !== null ? `${formatPrice(data.ammPrice)} XCH` : '-'}
+            </div>
+          </div>
+          <div>
+            <div className="text-text-muted">Total depth</div>
+            <div className="text-text-primary tabular-nums">
+              {formatVolume(
+                (data.bids[data.bids.length - 1]?.cumulativeXch ?? 0) +
+                  (data.asks[data.asks.length - 1]?.cumulativeXch ?? 0)
+              )}{' '}
+              XCH
+            </div>
+          </div>
+        </div>
+      )}
+
+      {!isLoading && !error && data?.truncated && (
+        <p className="text-xs text-accent-yellow mt-3">
+          Not every active offer could be read; best prices and depth may be incomplete.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
 /**
  * FilterPanel Component
  *
- * Advanced filter UI for filtering tokens by price, volume, change, and watchlist.
+ * Advanced filter UI for filtering tokens by price, volume, change, spread,
+ * liquidity, and watchlist.
  * Collapsible panel with range inputs.
  */
 
@@ -15,6 +16,9 @@ interface FilterPanelProps {
   onPriceRangeChange: (min: number, max: number) => void;
   onVolumeRangeChange: (min: number, max: number) => void;
   onChangeRangeChange: (min: number, max: number) => void;
+  /** Both bounds undefined clears the filter */
+  onSpreadRangeChange: (min?: number, max?: number) => void;
+  onLiquidityRangeChange: (min: number, max: number) => void;
   onWatchlistChange: (enabled: boolean) => void;
   onClearFilters: () => void;
   hasActiveFilters: boolean;
@@ -26,6 +30,8 @@ export function FilterPanel({
   onPriceRangeChange,
   onVolumeRangeChange,
   onChangeRangeChange,
+  onSpreadRangeChange,
+  onLiquidityRangeChange,
   onWatchlistChange,
   onClearFilters,
   hasActiveFilters,
@@ -40,6 +46,14 @@ export function FilterPanel({
   const [volumeMax, setVolumeMax] = useState(filters.volumeRange?.max.toString() || '');
   const [changeMin, setChangeMin] = useState(filters.changeRange?.min.toString() || '');
   const [changeMax, setChangeMax] = useState(filters.changeRange?.max.toString() || '');
+  const [spreadMin, setSpreadMin] = useState(filters.spreadRange?.min.toString() || '');
+  const [spreadMax, setSpreadMax] = useState(
+    filters.spreadRange && Number.isFinite(filters.spreadRange.max)
+      ? filters.spreadRange.max.toString()
+      : ''
+  );
+  const [liquidityMin, setLiquidityMin] = useState(filters.liquidityRange?.min.toString() || '');
+  const [liquidityMax, setLiquidityMax] = useState(filters.liquidityRange?.max.toString() || '');
 
   const handlePriceApply = () => {
     const min = parseFloat(priceMin) || 0;
@@ -59,6 +73,19 @@ export function FilterPanel({
     onChangeRangeChange(min, max);
   };
 
+  const handleSpreadApply = () => {
+    // Empty fields clear the filter rather than hiding tokens without a book
+    const min = parseFloat(spreadMin);
+    const max = parseFloat(spreadMax);
+    onSpreadRangeChange(Number.isNaN(min) ? undefined : min, Number.isNaN(max) ? undefined : max);
+  };
+
+  const handleLiquidityApply = () => {
+    const min = parseFloat(liquidityMin) || 0;
+    const max = parseFloat(liquidityMax) || Infinity;
+    onLiquidityRangeChange(min, max === Infinity ? 999999999 : max);
+  };
+
   const handleClear = () => {
     setPriceMin('');
     setPriceMax('');
@@ -66,6 +93,10 @@ export function FilterPanel({
     setVolumeMax('');
     setChangeMin('');
     setChangeMax('');
+    setSpreadMin('');
+    setSpreadMax('');
+    setLiquidityMin('');
+    setLiquidityMax('');
     onClearFilters();
   };
 
@@ -113,7 +144,7 @@ export function FilterPanel({
       {/* Expandable content */}
       {isExpanded && (
         <div className="px-4 pb-4 border-t border-border-primary">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 pt-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pt-4">
             {/* Price Range Filter */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-text-secondary">
@@ -210,6 +241,77 @@ export function FilterPanel({
               </button>
             </div>
 
+            {/* Spread Range Filter */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-text-secondary">
+                Bid/Ask Spread (%)
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  placeholder="Min %"
+                  value={spreadMin}
+                  onChange={(e) => setSpreadMin(e.target.value)}
+                  className="w-full px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-sm text-text-primary placeholder-text-muted focus:outline-none focus:border-accent-blue"
+                  step="0.1"
+                  min="0"
+                />
+                <span className="text-text-muted">-</span>
+                <input
+                  type="number"
+                  placeholder="Max %"
+                  value={spreadMax}
+                  onChange={(e) => setSpreadMax(e.target.value)}
+                  className="w-full px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-sm text-text-primary placeholder-text-muted focus:outline-none focus:border-accent-blue"
+                  step="0.1"
+                  min="0"
+                />
+              </div>
+              <button
+                onClick={handleSpreadApply}
+                className="w-full py-1.5 text-xs bg-background-tertiary hover:bg-border-primary rounded transition-colors text-text-secondary"
+              >
+                Apply
+              </button>
+            </div>
+
+            {/* Liquidity Range Filter */}
+            <div className="space-y-2">
+              <label
+                className="text-sm font-medium text-text-secondary"
+                title="XCH that can be bought plus sold within ±2% of the mid price, Dexie and TibetSwap combined"
+              >
+                ±2% Liquidity (XCH)
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  placeholder="Min"
+                  value={liquidityMin}
+                  onChange={(e) => setLiquidityMin(e.target.value)}
+                  className="w-full px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-sm text-text-primary placeholder-text-muted focus:outline-none focus:border-accent-blue"
+                  step="0.01"
+                  min="0"
+                />
+                <span className="text-text-muted">-</span>
+                <input
+                  type="number"
+                  placeholder="Max"
+                  value={liquidityMax}
+                  onChange={(e) => setLiquidityMax(e.target.value)}
+                  className="w-full px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-sm text-text-primary placeholder-text-muted focus:outline-none focus:border-accent-blue"
+                  step="0.01"
+                  min="0"
+                />
+              </div>
+              <button
+                onClick={handleLiquidityApply}
+                className="w-full py-1.5 text-xs bg-background-tertiary hover:bg-border-primary rounded transition-colors text-text-secondary"
+              >
+                Apply
+              </button>
+            </div>
+
             {/* Watchlist Filter */}
             <div className="space-y-2">
               <label className="text-sm font-medium text-text-secondary">
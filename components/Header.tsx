@@ -3,43 +3,72 @@
 /**
  * Header Component
  *
- * Top navigation bar with XCH price display.
+ * Top navigation bar with XCH price, 24h change and sparkline (linking to
+ * the XCH detail view) and the display currency selector.
  * Sticky position with backdrop blur effect.
  * Responsive: inline on desktop, hamburger icon on mobile.
  */
 
-import { formatUsd, formatPercentage } from '@/lib/transform';
+import Link from 'next/link';
+import { formatPercentage } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+import { CurrencySelector } from './CurrencySelector';
+import { Sparkline } from './Sparkline';
 
 interface HeaderProps {
   /** Current XCH price in USD */
   xchPriceUsd: number;
   /** Optional 24h price change percentage */
   xchChange24h?: number;
+  /** Optional recent USD prices for the sparkline, oldest first */
+  xchSparkline?: number[];
+  /** Whether the XCH price is a fallback rather than a live oracle price */
+  xchPriceIsFallback?: boolean;
 }
 
-export function Header({ xchPriceUsd, xchChange24h = 0 }: HeaderProps) {
+export function Header({
+  xchPriceUsd,
+  xchChange24h = 0,
+  xchSparkline,
+  xchPriceIsFallback = false,
+}: HeaderProps) {
   const isPositive = xchChange24h >= 0;
+  const { formatMoney } = useCurrency();
+
+  // Fallback prices are shown in the warning color with an explanation
+  const priceClass = xchPriceIsFallback ? 'text-accent-yellow' : 'text-text-primary';
+  const priceTitle = xchPriceIsFallback ? 'XCH price unavailable - showing a fallback price' : undefined;
 
   return (
     <header className="sticky top-0 z-50 bg-background-secondary/80 backdrop-blur-lg border-b border-border-primary">
       <div className="container mx-auto px-4">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
-          <div className="flex items-center gap-3">
+          <Link href="/" className="flex items-center gap-3">
             <div className="h-9 w-9 bg-accent-green rounded-lg flex items-center justify-center">
               <span className="text-background-primary font-bold text-lg">X</span>
             </div>
             <span className="text-xl font-bold text-text-primary tracking-tight">
               XCH<span className="text-accent-green">.SPEED</span>
             </span>
-          </div>
+          </Link>
 
           {/* XCH Price - Desktop */}
           <div className="hidden sm:flex items-center gap-3">
-            <div className="flex items-center gap-2">
+            <Link
+              href="/arbitrage"
+              className="text-sm text-text-secondary hover:text-text-primary transition-colors"
+            >
+              Arbitrage
+            </Link>
+            <Link
+              href="/xch"
+              className="flex items-center gap-2 rounded-lg px-2 py-1 hover:bg-background-tertiary transition-colors"
+              title="XCH price details"
+            >
               <span className="text-sm text-text-muted">XCH</span>
-              <span className="text-lg font-semibold text-text-primary tabular-nums">
-                {formatUsd(xchPriceUsd)}
+              <span className={`text-lg font-semibold tabular-nums ${priceClass}`} title={priceTitle}>
+                {formatMoney(xchPriceUsd)}
               </span>
               {xchChange24h !== 0 && (
                 <span
@@ -52,15 +81,19 @@ export function Header({ xchPriceUsd, xchChange24h = 0 }: HeaderProps) {
                   {formatPercentage(xchChange24h)}
                 </span>
               )}
-            </div>
+              {xchSparkline && xchSparkline.length > 1 && (
+                <Sparkline data={xchSparkline} width={64} height={20} />
+              )}
+            </Link>
+            <CurrencySelector />
           </div>
 
           {/* Mobile: Price + Hamburger */}
           <div className="flex sm:hidden items-center gap-3">
             {/* Compact price display */}
-            <div className="text-right">
-              <div className="text-sm font-semibold text-text-primary tabular-nums">
-                {formatUsd(xchPriceUsd)}
+            <Link href="/xch" className="text-right">
+              <div className={`text-sm font-semibold tabular-nums ${priceClass}`} title={priceTitle}>
+                {formatMoney(xchPriceUsd)}
               </div>
               {xchChange24h !== 0 && (
                 <div
@@ -71,7 +104,9 @@ export function Header({ xchPriceUsd, xchChange24h = 0 }: HeaderProps) {
                   {formatPercentage(xchChange24h)}
                 </div>
               )}
-            </div>
+            </Link>
+
+            <CurrencySelector />
 
             {/* Hamburger Menu Icon - Visual only for now */}
             <button
@@ -0,0 +1,65 @@
+'use client';
+
+/**
+ * MarketPairs Component
+ *
+ * Table of every market a token trades in - XCH, stablecoin and CAT
+ * quotes - with the price in the quote asset, the implied XCH price and
+ * 24h volume.
+ */
+
+import { MarketPair } from '@/contracts/types';
+import { formatPrice, formatVolume } from '@/lib/transform';
+
+interface MarketPairsProps {
+  pairs: MarketPair[];
+  tokenSymbol: string;
+}
+
+export function MarketPairs({ pairs, tokenSymbol }: MarketPairsProps) {
+  return (
+    <div className="bg-background-secondary border border-border-primary rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">Markets</h2>
+        <span className="text-xs text-text-muted">{pairs.length} pair(s)</span>
+      </div>
+
+      {pairs.length === 0 ? (
+        <p className="text-text-muted text-sm">No Dexie markets for {tokenSymbol}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-text-muted border-b border-border-secondary">
+                <th className="py-2 pr-4 text-left font-medium">Pair</th>
+                <th className="py-2 px-4 text-right font-medium">Price</th>
+                <th className="py-2 px-4 text-right font-medium">Implied XCH</th>
+                <th className="py-2 pl-4 text-right font-medium">Vol (24h)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {pairs.map((pair) => (
+                <tr key={pair.pairId} className="border-b border-border-secondary last:border-0">
+                  <td className="py-2 pr-4 text-text-primary font-medium whitespace-nowrap">
+                    {pair.baseSymbol}/{pair.quoteSymbol}
+                  </td>
+                  <td className="py-2 px-4 text-right tabular-nums text-text-primary whitespace-nowrap">
+                    {formatPrice(pair.price)} {pair.quoteSymbol}
+                  </td>
+                  <td className="py-2 px-4 text-right tabular-nums text-text-secondary whitespace-nowrap">
+                    {pair.priceXch !== null ? `${formatPrice(pair.priceXch)} XCH` : '-'}
+                  </td>
+                  <td className="py-2 pl-4 text-right tabular-nums text-text-secondary whitespace-nowrap">
+                    {pair.volume24hXch !== null
+                      ? `${formatVolume(pair.volume24hXch)} XCH`
+                      : `${formatVolume(pair.volume24h)} ${pair.quoteSymbol}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
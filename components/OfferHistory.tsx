@@ -8,7 +8,8 @@
  */
 
 import { useState, useEffect } from 'react';
-import { formatPrice, formatUsd } from '@/lib/transform';
+import { formatPrice, formatRelativeTime } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface OfferHistoryItem {
   id: string;
@@ -41,21 +42,6 @@ interface OfferHistoryProps {
   xchPriceUsd: number;
 }
 
-function formatRelativeTime(dateString: string): string {
-  const date = new Date(dateString);
-  const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
-  const diffMins = Math.floor(diffMs / 60000);
-  const diffHours = Math.floor(diffMins / 60);
-  const diffDays = Math.floor(diffHours / 24);
-
-  if (diffMins < 1) return 'Just now';
-  if (diffMins < 60) return `${diffMins}m ago`;
-  if (diffHours < 24) return `${diffHours}h ago`;
-  if (diffDays < 7) return `${diffDays}d ago`;
-  return date.toLocaleDateString();
-}
-
 function formatAmount(amount: number): string {
   if (amount >= 1_000_000) {
     return `${(amount / 1_000_000).toFixed(2)}M`;
@@ -67,6 +53,7 @@ function formatAmount(amount: number): string {
 }
 
 export function OfferHistory({ tokenId, tokenSymbol, xchPriceUsd }: OfferHistoryProps) {
+  const { formatMoney } = useCurrency();
   const [data, setData] = useState<OfferHistoryData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -151,7 +138,7 @@ export function OfferHistory({ tokenId, tokenSymbol, xchPriceUsd }: OfferHistory
               {formatPrice(data.lastTradePrice.priceXch)} XCH
             </span>
             <span className="text-sm text-text-secondary tabular-nums">
-              ({formatUsd(data.lastTradePrice.priceXch * xchPriceUsd)})
+              ({formatMoney(data.lastTradePrice.priceXch * xchPriceUsd)})
             </span>
             <span className="text-xs text-text-muted">
               {formatRelativeTime(data.lastTradePrice.date)}
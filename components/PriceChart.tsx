@@ -4,41 +4,159 @@
  * PriceChart Component
  *
  * Price chart using lightweight-charts library.
+ * Renders candlesticks with a volume histogram when trade candles are
+ * available, with the recorded price snapshots overlaid as a line;
+ * otherwise an area chart of the snapshots. Buckets without data are left
+ * as gaps (whitespace entries), never filled in.
  * Falls back to a simple visual when library not available.
+ * Prices are plotted in XCH unless a fiat multiplier is given.
  */
 
 import { useEffect, useRef, useState } from 'react';
-import { ChartData } from '@/contracts/types';
+import type {
+  CandlestickData,
+  HistogramData,
+  IChartApi,
+  SingleValueData,
+  UTCTimestamp,
+  WhitespaceData,
+} from 'lightweight-charts';
+import { ChartCandle, ChartData, ChartDataPoint, ChartPointSource } from '@/contracts/types';
+import { splitAtGaps } from '@/lib/chart-data';
+
+/**
+ * Convert an ISO timestamp to chart time (seconds)
+ */
+function toChartTime(timestamp: string): UTCTimestamp {
+  return Math.floor(new Date(timestamp).getTime() / 1000) as UTCTimestamp;
+}
+
+type Gapped<T> = T | WhitespaceData<UTCTimestamp>;
+
+/**
+ * Line/area data from snapshots, with a whitespace entry between segments
+ * separated by missing history so the line breaks instead of interpolating
+ */
+function toGappedLine(
+  points: ChartDataPoint[],
+  intervalMs: number | undefined,
+  priceMultiplier: number
+): Gapped<SingleValueData<UTCTimestamp>>[] {
+  const segments = intervalMs ? splitAtGaps(points, intervalMs) : [points];
+  const seriesData: Gapped<SingleValueData<UTCTimestamp>>[] = [];
+
+  segments.forEach((segment, index) => {
+    if (index > 0) {
+      const previous = segments[index - 1][segments[index - 1].length - 1];
+      const gapTime = Math.floor(
+        (toChartTime(previous.timestamp) + toChartTime(segment[0].timestamp)) / 2
+      ) as UTCTimestamp;
+      seriesData.push({ time: gapTime });
+    }
+    for (const point of segment) {
+      seriesData.push({ time: toChartTime(point.timestamp), value: point.price * priceMultiplier });
+    }
+  });
+
+  return seriesData;
+}
+
+/**
+ * Candle and volume data with a whitespace entry for every bucket without
+ * trades - bars are spaced evenly, so skipped buckets would otherwise vanish
+ */
+function toGappedCandles(
+  candles: ChartCandle[],
+  intervalMs: number | undefined,
+  priceMultiplier: number
+): {
+  candleData: Gapped<CandlestickData<UTCTimestamp>>[];
+  volumeData: Gapped<HistogramData<UTCTimestamp>>[];
+} {
+  const candleData: Gapped<CandlestickData<UTCTimestamp>>[] = [];
+  const volumeData: Gapped<HistogramData<UTCTimestamp>>[] = [];
+  const intervalSec = intervalMs ? intervalMs / 1000 : 0;
+  let previousTime: number | null = null;
+
+  for (const candle of candles) {
+    const time = toChartTime(candle.timestamp);
+
+    if (previousTime !== null && intervalSec > 0) {
+      for (let empty = previousTime + intervalSec; empty < time; empty += intervalSec) {
+        candleData.push({ time: empty as UTCTimestamp });
+        volumeData.push({ time: empty as UTCTimestamp });
+      }
+    }
+    previousTime = time;
+
+    candleData.push({
+      time,
+      open: candle.open * priceMultiplier,
+      high: candle.high * priceMultiplier,
+      low: candle.low * priceMultiplier,
+      close: candle.close * priceMultiplier,
+    });
+    volumeData.push({
+      time,
+      value: candle.volume,
+      color: candle.close >= candle.open ? 'rgba(63, 185, 80, 0.5)' : 'rgba(248, 81, 73, 0.5)',
+    });
+  }
+
+  return { candleData, volumeData };
+}
 
 interface PriceChartProps {
   data: ChartData | null;
   isLoading: boolean;
   height?: number;
+  /** Factor applied to every XCH price (e.g. the current XCH price in fiat) */
+  priceMultiplier?: number;
 }
 
-export function PriceChart({ data, isLoading, height = 300 }: PriceChartProps) {
+export function PriceChart({
+  data,
+  isLoading,
+  height = 300,
+  priceMultiplier = 1,
+}: PriceChartProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const chartRef = useRef<unknown>(null);
+  const chartRef = useRef<IChartApi | null>(null);
   const [chartError, setChartError] = useState(false);
 
+  const hasCandles = (data?.candles?.length ?? 0) > 0;
+  const isInsufficient =
+    !data || data.hasSufficientHistory === false || (data.dataPoints.length === 0 && !hasCandles);
+
   useEffect(() => {
-    if (!containerRef.current || !data?.dataPoints.length) return;
+    if (!containerRef.current || !data || isInsufficient) return;
+
+    const { dataPoints, candles, intervalMs, candleIntervalMs } = data;
 
-    let chart: unknown;
-    let series: unknown;
+    let resizeObserver: ResizeObserver | null = null;
+    let cancelled = false;
 
     const initChart = async () => {
       try {
         // Dynamically import lightweight-charts
-        const { createChart, ColorType } = await import('lightweight-charts');
+        const {
+          createChart,
+          ColorType,
+          AreaSeries,
+          CandlestickSeries,
+          HistogramSeries,
+          LineSeries,
+        } = await import('lightweight-charts');
+
+        if (cancelled || !containerRef.current) return;
 
         // Clear any existing chart
         if (chartRef.current) {
-          (chartRef.current as { remove: () => void }).remove();
+          chartRef.current.remove();
         }
 
         // Create chart
-        chart = createChart(containerRef.current!, {
+        const chart = createChart(containerRef.current, {
           height,
           layout: {
             background: { type: ColorType.Solid, color: 'transparent' },
@@ -61,47 +179,74 @@ export function PriceChart({ data, isLoading, height = 300 }: PriceChartProps) {
           },
         });
 
-        // Add area series
-        series = (chart as { addAreaSeries: (options: object) => unknown }).addAreaSeries({
-          lineColor: '#58a6ff',
-          topColor: 'rgba(88, 166, 255, 0.4)',
-          bottomColor: 'rgba(88, 166, 255, 0.0)',
-          lineWidth: 2,
-        });
+        if (candles && candles.length > 0) {
+          // Candlesticks from completed trades with a volume histogram below
+          const candleSeries = chart.addSeries(CandlestickSeries, {
+            upColor: '#3fb950',
+            downColor: '#f85149',
+            borderVisible: false,
+            wickUpColor: '#3fb950',
+            wickDownColor: '#f85149',
+          });
+          candleSeries.priceScale().applyOptions({
+            scaleMargins: { top: 0.1, bottom: 0.25 },
+          });
 
-        // Transform data for chart
-        const chartData = data.dataPoints.map((point) => ({
-          time: Math.floor(new Date(point.timestamp).getTime() / 1000) as unknown,
-          value: point.price,
-        }));
+          const volumeSeries = chart.addSeries(HistogramSeries, {
+            priceFormat: { type: 'volume' },
+            priceScaleId: '',
+          });
+          volumeSeries.priceScale().applyOptions({
+            scaleMargins: { top: 0.8, bottom: 0 },
+          });
 
-        // Set data
-        (series as { setData: (data: unknown[]) => void }).setData(chartData);
+          const { candleData, volumeData } = toGappedCandles(
+            candles,
+            candleIntervalMs,
+            priceMultiplier
+          );
+          candleSeries.setData(candleData);
+          volumeSeries.setData(volumeData);
+
+          // Recorded snapshots stay visible as a line over the candles
+          if (dataPoints.length > 0) {
+            const snapshotSeries = chart.addSeries(LineSeries, {
+              color: '#58a6ff',
+              lineWidth: 1,
+              pointMarkersVisible: true,
+              pointMarkersRadius: 2,
+              priceLineVisible: false,
+              lastValueVisible: false,
+            });
+            snapshotSeries.setData(toGappedLine(dataPoints, intervalMs, priceMultiplier));
+          }
+        } else {
+          // Area series from recorded price snapshots. Missing history is
+          // drawn as a gap (whitespace point), never interpolated.
+          const series = chart.addSeries(AreaSeries, {
+            lineColor: '#58a6ff',
+            topColor: 'rgba(88, 166, 255, 0.4)',
+            bottomColor: 'rgba(88, 166, 255, 0.0)',
+            lineWidth: 2,
+            pointMarkersVisible: true,
+            pointMarkersRadius: 2,
+          });
+
+          series.setData(toGappedLine(dataPoints, intervalMs, priceMultiplier));
+        }
 
         // Fit content
-        (chart as { timeScale: () => { fitContent: () => void } }).timeScale().fitContent();
+        chart.timeScale().fitContent();
 
         chartRef.current = chart;
 
         // Handle resize
-        const resizeObserver = new ResizeObserver(() => {
-          if (containerRef.current && chart) {
-            (chart as { applyOptions: (options: object) => void }).applyOptions({
-              width: containerRef.current.clientWidth,
-            });
+        resizeObserver = new ResizeObserver(() => {
+          if (containerRef.current) {
+            chart.applyOptions({ width: containerRef.current.clientWidth });
           }
         });
-
-        if (containerRef.current) {
-          resizeObserver.observe(containerRef.current);
-        }
-
-        return () => {
-          resizeObserver.disconnect();
-          if (chart) {
-            (chart as { remove: () => void }).remove();
-          }
-        };
+        resizeObserver.observe(containerRef.current);
       } catch (error) {
         console.warn('Failed to load chart library:', error);
         setChartError(true);
@@ -111,12 +256,14 @@ export function PriceChart({ data, isLoading, height = 300 }: PriceChartProps) {
     initChart();
 
     return () => {
+      cancelled = true;
+      resizeObserver?.disconnect();
       if (chartRef.current) {
-        (chartRef.current as { remove: () => void }).remove();
+        chartRef.current.remove();
         chartRef.current = null;
       }
     };
-  }, [data, height]);
+  }, [data, isInsufficient, height, priceMultiplier]);
 
   // Loading state
   if (isLoading) {
@@ -130,8 +277,9 @@ export function PriceChart({ data, isLoading, height = 300 }: PriceChartProps) {
     );
   }
 
-  // No data state
-  if (!data || data.dataPoints.length === 0) {
+  // Insufficient history state - shown instead of made-up points
+  if (isInsufficient) {
+    const pointCount = data?.dataPoints.length ?? 0;
     return (
       <div
         className="flex items-center justify-center bg-background-tertiary rounded-lg"
@@ -152,8 +300,15 @@ export function PriceChart({ data, isLoading, height = 300 }: PriceChartProps) {
               d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"
             />
           </svg>
-          <p>No chart data available</p>
-          <p className="text-sm mt-1">Chart history builds over time from price updates</p>
+          <p>Insufficient price history</p>
+          <p className="text-sm mt-1">
+            {pointCount === 0
+              ? 'No recorded prices or trades in this timeframe'
+              : `Only ${pointCount} recorded price in this timeframe`}
+          </p>
+          <p className="text-xs mt-1">
+            History is recorded every 5 minutes and backfilled from completed trades
+          </p>
         </div>
       </div>
     );
@@ -165,7 +320,38 @@ export function PriceChart({ data, isLoading, height = 300 }: PriceChartProps) {
   }
 
   // Main chart container
-  return <div ref={containerRef} className="w-full" style={{ height }} />;
+  return (
+    <div>
+      <div ref={containerRef} className="w-full" style={{ height }} />
+      <ProvenanceLegend data={data} />
+    </div>
+  );
+}
+
+const SOURCE_LABELS: Record<ChartPointSource, string> = {
+  snapshot: 'recorded',
+  amm: 'TibetSwap reserves',
+  trade: 'completed trades',
+};
+
+/**
+ * Legend showing how many points came from each source, and how many
+ * candles were built from trades
+ */
+function ProvenanceLegend({ data }: { data: ChartData }) {
+  const counts = new Map<ChartPointSource, number>();
+  for (const point of data.dataPoints) {
+    const source = point.source ?? 'snapshot';
+    counts.set(source, (counts.get(source) ?? 0) + 1);
+  }
+
+  const entries = Array.from(counts.entries()).map(
+    ([source, count]) => `${count} from ${SOURCE_LABELS[source]}`
+  );
+  const candleCount = data.candles?.length ?? 0;
+  if (candleCount > 0) entries.push(`${candleCount} trade candles`);
+
+  return <div className="mt-2 text-xs text-text-muted">{entries.join(' · ')}</div>;
 }
 
 /**
@@ -178,7 +364,14 @@ function SimpleFallbackChart({
   data: ChartData;
   height: number;
 }) {
-  const points = data.dataPoints;
+  // Use candle closes when there are no recorded snapshots
+  const points =
+    data.dataPoints.length > 0
+      ? data.dataPoints
+      : (data.candles ?? []).map((candle) => ({
+          timestamp: candle.timestamp,
+          price: candle.close,
+        }));
   const prices = points.map((p) => p.price);
   const minPrice = Math.min(...prices);
   const maxPrice = Math.max(...prices);
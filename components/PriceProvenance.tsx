@@ -0,0 +1,126 @@
+'use client';
+
+/**
+ * PriceProvenance Component
+ *
+ * Every venue price behind a token's reference price - Dexie last trade,
+ * Dexie mid, TibetSwap AMM, last completed offer - with when it was
+ * observed and how far it is from the reference.
+ */
+
+import { useEffect, useState } from 'react';
+import { ReferencePricePolicy, SourcePriceQuote } from '@/contracts/types';
+import { formatPrice, formatRelativeTime } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+
+/**
+ * Divergence above which the venues are highlighted as disagreeing
+ */
+const DIVERGENCE_WARNING_PCT = 5;
+
+const POLICY_LABELS: Record<ReferencePricePolicy, string> = {
+  priority: 'preferred source',
+  mid: 'order book mid',
+  median: 'median of sources',
+};
+
+interface PriceProvenanceProps {
+  quotes: SourcePriceQuote[];
+  policy?: ReferencePricePolicy;
+  divergencePct?: number;
+  /** Reference price in XCH */
+  priceXch: number;
+  xchPriceUsd: number;
+}
+
+function formatDeviation(deviationPct: number): string {
+  if (Math.abs(deviationPct) < 0.005) return '0.00%';
+  return `${deviationPct > 0 ? '+' : ''}${deviationPct.toFixed(2)}%`;
+}
+
+export function PriceProvenance({
+  quotes,
+  policy = 'priority',
+  divergencePct,
+  priceXch,
+  xchPriceUsd,
+}: PriceProvenanceProps) {
+  const { formatMoney } = useCurrency();
+  // Set after mount so server and client render the same markup
+  const [now, setNow] = useState<number | null>(null);
+  const isDivergent = divergencePct !== undefined && divergencePct > DIVERGENCE_WARNING_PCT;
+  const hasReference = quotes.some((quote) => quote.isReference);
+
+  useEffect(() => {
+    setNow(Date.now());
+  }, [quotes]);
+
+  return (
+    <div className="bg-background-secondary border border-border-primary rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">Price Sources</h2>
+        {divergencePct !== undefined && (
+          <span
+            className={`text-xs tabular-nums ${
+              isDivergent ? 'text-accent-yellow' : 'text-text-muted'
+            }`}
+          >
+            Sources differ by {divergencePct.toFixed(2)}%
+          </span>
+        )}
+      </div>
+
+      <p className="text-xs text-text-muted mb-3">
+        Reference price {formatPrice(priceXch)} XCH, chosen by {POLICY_LABELS[policy]}
+        {!hasReference && ' (between the source prices)'}.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-text-muted border-b border-border-secondary">
+              <th className="py-2 pr-4 text-left font-medium">Source</th>
+              <th className="py-2 px-4 text-right font-medium">Price (XCH)</th>
+              <th className="py-2 px-4 text-right font-medium">Price</th>
+              <th className="py-2 px-4 text-right font-medium">vs Reference</th>
+              <th className="py-2 pl-4 text-right font-medium">Observed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quotes.map((quote) => (
+              <tr
+                key={`${quote.source}-${quote.kind}`}
+                className="border-b border-border-secondary last:border-0"
+              >
+                <td className="py-2 pr-4 text-text-primary whitespace-nowrap">
+                  {quote.label}
+                  {quote.isReference && (
+                    <span className="ml-2 text-xs text-accent-green">Reference</span>
+                  )}
+                </td>
+                <td className="py-2 px-4 text-right tabular-nums text-text-primary whitespace-nowrap">
+                  {formatPrice(quote.priceXch)}
+                </td>
+                <td className="py-2 px-4 text-right tabular-nums text-text-secondary whitespace-nowrap">
+                  {formatMoney(quote.priceXch * xchPriceUsd)}
+                </td>
+                <td
+                  className={`py-2 px-4 text-right tabular-nums whitespace-nowrap ${
+                    Math.abs(quote.deviationPct) > DIVERGENCE_WARNING_PCT
+                      ? 'text-accent-yellow'
+                      : 'text-text-secondary'
+                  }`}
+                >
+                  {formatDeviation(quote.deviationPct)}
+                </td>
+                <td className="py-2 pl-4 text-right text-text-muted whitespace-nowrap">
+                  {now !== null ? formatRelativeTime(quote.observedAt, now) : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -20,6 +20,8 @@ const SORT_OPTIONS: { value: SortField; label: string }[] = [
   { value: 'priceUsd', label: 'Price (USD)' },
   { value: 'change24h', label: 'Change (24h)' },
   { value: 'change7d', label: 'Change (7d)' },
+  { value: 'spreadPct', label: 'Spread' },
+  { value: 'liquidityXch', label: 'Liquidity (±2%)' },
   { value: 'name', label: 'Name' },
   { value: 'symbol', label: 'Symbol' },
 ];
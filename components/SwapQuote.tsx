@@ -0,0 +1,257 @@
+'use client';
+
+/**
+ * SwapQuote Component
+ *
+ * Quote widget for swapping XCH and a token on TibetSwap.
+ * Shows output amount, effective price, price impact and fee, and
+ * compares the fill against the Dexie order book (best execution).
+ */
+
+import { useState, useEffect } from 'react';
+import { AmmQuote, BestExecutionResult, ExecutionStrategy, SwapInputAsset } from '@/contracts/types';
+import { formatPrice } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+
+interface SwapQuoteProps {
+  tokenId: string;
+  tokenSymbol: string;
+  xchPriceUsd: number;
+}
+
+/**
+ * Delay before requesting a quote after the amount changes
+ */
+const QUOTE_DEBOUNCE_MS = 400;
+
+/**
+ * Price impact (%) above which the impact is highlighted
+ */
+const HIGH_IMPACT_THRESHOLD = 5;
+
+const STRATEGY_LABELS: Record<ExecutionStrategy, string> = {
+  dexie: 'Dexie order book',
+  tibetswap: 'TibetSwap',
+  split: 'Split Dexie + TibetSwap',
+};
+
+export function SwapQuote({ tokenId, tokenSymbol, xchPriceUsd }: SwapQuoteProps) {
+  const { formatMoney } = useCurrency();
+  const [inputAsset, setInputAsset] = useState<SwapInputAsset>('xch');
+  const [amount, setAmount] = useState('1');
+  const [quote, setQuote] = useState<AmmQuote | null>(null);
+  const [execution, setExecution] = useState<BestExecutionResult | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const inputSymbol = inputAsset === 'xch' ? 'XCH' : tokenSymbol;
+  const outputSymbol = inputAsset === 'xch' ? tokenSymbol : 'XCH';
+
+  useEffect(() => {
+    const parsedAmount = Number(amount);
+    if (!Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      setQuote(null);
+      setExecution(null);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const query = `tokenId=${tokenId}&input=${inputAsset}&amount=${parsedAmount}`;
+
+      try {
+        const [quoteRes, executionRes] = await Promise.all([
+          fetch(`/api/quote?${query}`),
+          fetch(`/api/best-execution?${query}`),
+        ]);
+        const [quoteJson, executionJson] = await Promise.all([
+          quoteRes.json(),
+          executionRes.json(),
+        ]);
+
+        if (cancelled) return;
+        setExecution(executionJson.success ? executionJson.data : null);
+        if (quoteJson.success) {
+          setQuote(quoteJson.data);
+        } else {
+          setQuote(null);
+          setError(quoteJson.error || 'Failed to get quote');
+        }
+      } catch {
+        if (!cancelled) {
+          setQuote(null);
+          setExecution(null);
+          setError('Failed to fetch quote');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [tokenId, inputAsset, amount]);
+
+  // Value of what you receive, at the pool price after the swap
+  const outputXch = quote
+    ? inputAsset === 'xch'
+      ? quote.outputAmount * quote.priceAfter
+      : quote.outputAmount
+    : 0;
+
+  return (
+    <div className="bg-background-secondary border border-border-primary rounded-lg p-4">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-text-primary">Swap Quote</h2>
+        <span className="text-xs text-text-muted">TibetSwap</span>
+      </div>
+
+      {/* Direction */}
+      <div className="flex items-center gap-1 bg-background-tertiary rounded-lg p-1 mb-3">
+        {(['xch', 'token'] as const).map((asset) => (
+          <button
+            key={asset}
+            onClick={() => setInputAsset(asset)}
+            className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+              inputAsset === asset
+                ? 'bg-background-secondary text-text-primary'
+                : 'text-text-muted hover:text-text-secondary'
+            }`}
+          >
+            {asset === 'xch' ? `Buy ${tokenSymbol}` : `Sell ${tokenSymbol}`}
+          </button>
+        ))}
+      </div>
+
+      {/* Amount */}
+      <label className="block text-sm text-text-muted mb-1" htmlFor="swap-quote-amount">
+        You pay ({inputSymbol})
+      </label>
+      <input
+        id="swap-quote-amount"
+        type="number"
+        min="0"
+        step="any"
+        inputMode="decimal"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        className="w-full px-3 py-2 bg-background-tertiary border border-border-primary rounded-lg text-text-primary tabular-nums focus:outline-none focus:border-accent-blue"
+      />
+
+      {/* Result */}
+      <div className="mt-4 space-y-2 text-sm">
+        {error && <p className="text-accent-red">{error}</p>}
+
+        {!error && quote && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-text-muted">You receive</span>
+              <span className="font-semibold text-text-primary tabular-nums">
+                {formatPrice(quote.outputAmount)} {outputSymbol}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-muted">Effective price</span>
+              <span className="text-text-primary tabular-nums">
+                {formatPrice(quote.effectivePrice)} XCH
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-muted">Pool price</span>
+              <span className="text-text-secondary tabular-nums">
+                {formatPrice(quote.spotPrice)} XCH
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-muted">Price impact</span>
+              <span
+                className={`tabular-nums ${
+                  quote.priceImpact >= HIGH_IMPACT_THRESHOLD ? 'text-accent-red' : 'text-text-primary'
+                }`}
+              >
+                {quote.priceImpact.toFixed(2)}%
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-text-muted">Fee ({(quote.feeRate * 100).toFixed(1)}%)</span>
+              <span className="text-text-secondary tabular-nums">
+                {formatPrice(quote.feeAmount)} {inputSymbol}
+              </span>
+            </div>
+            {outputXch > 0 && (
+              <div className="flex justify-between">
+                <span className="text-text-muted">Received value</span>
+                <span className="text-text-secondary tabular-nums">
+                  {formatMoney(outputXch * xchPriceUsd)}
+                </span>
+              </div>
+            )}
+          </>
+        )}
+
+        {!error && !quote && isLoading && <p className="text-text-muted">Fetching quote...</p>}
+      </div>
+
+      {/* Best Execution */}
+      {execution && execution.best && (
+        <div className="mt-4 pt-4 border-t border-border-primary text-sm">
+          <div className="text-text-muted mb-2">Best execution</div>
+          {execution.plans.map((plan) => (
+            <div
+              key={plan.strategy}
+              className={`p-3 rounded-lg mb-2 ${
+                plan.strategy === execution.best
+                  ? 'bg-accent-green/10 border border-accent-green/30'
+                  : 'bg-background-tertiary'
+              }`}
+            >
+              <div className="flex justify-between">
+                <span className="font-medium text-text-primary">{STRATEGY_LABELS[plan.strategy]}</span>
+                <span className="text-text-primary tabular-nums">
+                  {formatPrice(plan.outputAmount)} {outputSymbol}
+                </span>
+              </div>
+              <div className="flex justify-between text-xs text-text-muted mt-1">
+                <span className="tabular-nums">
+                  Avg {formatPrice(plan.averagePrice)} XCH · slippage {plan.slippage.toFixed(2)}%
+                </span>
+                {plan.unfilledInput > 0 && (
+                  <span className="text-accent-yellow tabular-nums">
+                    {formatPrice(plan.unfilledInput)} {inputSymbol} unfilled
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-3 mt-2">
+                {plan.legs.map((leg) => (
+                  <a
+                    key={leg.venue}
+                    href={leg.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-accent-blue hover:underline tabular-nums"
+                  >
+                    {leg.venue === 'dexie'
+                      ? `Dexie: ${leg.offerIds?.length ?? 0} offer(s)`
+                      : 'TibetSwap'}{' '}
+                    · {formatPrice(leg.inputAmount)} {inputSymbol}
+                  </a>
+                ))}
+              </div>
+            </div>
+          ))}
+          {execution.bookTruncated && (
+            <p className="text-xs text-accent-yellow">
+              Not every Dexie offer could be read; better offers may exist.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+'use client';
+
+/**
+ * TokenAbout Component
+ *
+ * "About" section of the token page: description, website, social links,
+ * tags and launch date. Renders the metadata loaded with the page and
+ * refreshes it from /api/tokens/[id]/metadata.
+ */
+
+import { useEffect, useState } from 'react';
+import { TokenMetadata, TokenMetadataApiResponse, TokenSocialPlatform } from '@/contracts/types';
+
+interface TokenAboutProps {
+  tokenId: string;
+  tokenName: string;
+  /** Description known before metadata loads */
+  description?: string;
+  /** Website known before metadata loads */
+  website?: string;
+  /** Metadata loaded on the server, shown until the refresh returns */
+  initialMetadata?: TokenMetadata;
+}
+
+const SOCIAL_LABELS: Record<TokenSocialPlatform, string> = {
+  twitter: 'X / Twitter',
+  discord: 'Discord',
+  telegram: 'Telegram',
+  github: 'GitHub',
+  reddit: 'Reddit',
+};
+
+export function TokenAbout({
+  tokenId,
+  tokenName,
+  description,
+  website,
+  initialMetadata,
+}: TokenAboutProps) {
+  const [metadata, setMetadata] = useState<TokenMetadata | null>(initialMetadata ?? null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchMetadata() {
+      try {
+        const response = await fetch(`/api/tokens/${tokenId}/metadata`);
+        const result: TokenMetadataApiResponse = await response.json();
+        if (!cancelled && result.success && result.data) {
+          setMetadata(result.data);
+        }
+      } catch {
+        // Keep whatever description and website the page already had
+      }
+    }
+
+    fetchMetadata();
+    return () => {
+      cancelled = true;
+    };
+  }, [tokenId]);
+
+  const aboutText = metadata?.description ?? description;
+  const websiteUrl = metadata?.website ?? website;
+  const socials = Object.entries(metadata?.socials ?? {}) as [TokenSocialPlatform, string][];
+  const tags = metadata?.tags ?? [];
+
+  return (
+    <div className="bg-background-secondary border border-border-primary rounded-lg p-6">
+      <h2 className="text-lg font-semibold text-text-primary mb-4">About {tokenName}</h2>
+      <div className="text-text-secondary">
+        {aboutText ? (
+          <p className="whitespace-pre-line">{aboutText}</p>
+        ) : (
+          <p className="text-text-muted">
+            No description available for this token. Visit the trading platforms
+            for more information.
+          </p>
+        )}
+      </div>
+
+      {(tags.length > 0 || metadata?.launchDate) && (
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          {tags.map((tag) => (
+            <span
+              key={tag}
+              className="px-2 py-0.5 text-xs rounded-full bg-background-tertiary text-text-secondary"
+            >
+              {tag}
+            </span>
+          ))}
+          {metadata?.launchDate && (
+            <span className="text-xs text-text-muted">
+              Launched{' '}
+              {new Date(metadata.launchDate).toLocaleDateString(undefined, { timeZone: 'UTC' })}
+            </span>
+          )}
+        </div>
+      )}
+
+      {(websiteUrl || socials.length > 0) && (
+        <div className="flex flex-wrap gap-4 mt-4">
+          {websiteUrl && (
+            <a
+              href={websiteUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 text-accent-blue hover:underline"
+            >
+              <svg
+                className="h-4 w-4"
+                xmlns="http://www.w3.org/2000/svg"
+                viewBox="0 0 20 20"
+                fill="currentColor"
+              >
+                <path
+                  fillRule="evenodd"
+                  d="M4.083 9h1.946c.089-1.546.383-2.97.837-4.118A6.004 6.004 0 004.083 9zM10 2a8 8 0 100 16 8 8 0 000-16zm0 2c-.076 0-.232.032-.465.262-.238.234-.497.623-.737 1.182-.389.907-.673 2.142-.766 3.556h3.936c-.093-1.414-.377-2.649-.766-3.556-.24-.56-.5-.948-.737-1.182C10.232 4.032 10.076 4 10 4zm3.971 5c-.089-1.546-.383-2.97-.837-4.118A6.004 6.004 0 0115.917 9h-1.946zm-2.003 2H8.032c.093 1.414.377 2.649.766 3.556.24.56.5.948.737 1.182.233.23.389.262.465.262.076 0 .232-.032.465-.262.238-.234.498-.623.737-1.182.389-.907.673-2.142.766-3.556zm1.166 4.118c.454-1.147.748-2.572.837-4.118h1.946a6.004 6.004 0 01-2.783 4.118zm-6.268 0C6.412 13.97 6.118 12.546 6.03 11H4.083a6.004 6.004 0 002.783 4.118z"
+                  clipRule="evenodd"
+                />
+              </svg>
+              Visit Website
+            </a>
+          )}
+          {socials.map(([platform, url]) => (
+            <a
+              key={platform}
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-accent-blue hover:underline"
+            >
+              {SOCIAL_LABELS[platform] ?? platform}
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,7 +11,9 @@
 import Image from 'next/image';
 import Link from 'next/link';
 import { DashboardToken } from '@/contracts/types';
-import { formatPrice, formatUsd, formatVolume, formatPercentage } from '@/lib/transform';
+import { formatPrice, formatVolume, formatPercentage } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+import { VerifiedBadge } from './VerifiedBadge';
 import { Sparkline } from './Sparkline';
 
 interface TokenCardProps {
@@ -33,6 +35,7 @@ export function TokenCard({
   onToggleAlert,
   isAlertSupported,
 }: TokenCardProps) {
+  const { formatMoney } = useCurrency();
   const isPositive24h = token.change24h >= 0;
   const isPositive7d = token.change7d >= 0;
 
@@ -129,7 +132,10 @@ export function TokenCard({
           </div>
           <div className="min-w-0 flex-1">
             <div className="font-medium text-text-primary truncate">{token.name}</div>
-            <div className="text-sm text-text-muted">{token.symbol}</div>
+            <div className="flex items-center gap-1 text-sm text-text-muted">
+              {token.symbol}
+              {token.verified && <VerifiedBadge size={12} />}
+            </div>
           </div>
         </div>
 
@@ -139,7 +145,7 @@ export function TokenCard({
             {formatPrice(token.priceXch)} XCH
           </div>
           <div className="text-sm text-text-secondary tabular-nums">
-            {formatUsd(token.priceUsd)}
+            {formatMoney(token.priceUsd)}
           </div>
         </div>
 
@@ -8,7 +8,9 @@
 
 import Image from 'next/image';
 import { TokenDetail } from '@/contracts/types';
-import { formatPrice, formatUsd, formatPercentage } from '@/lib/transform';
+import { formatPrice, formatPercentage } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+import { VerifiedBadge } from './VerifiedBadge';
 
 interface TokenDetailHeaderProps {
   token: TokenDetail;
@@ -22,6 +24,7 @@ export function TokenDetailHeader({
   isWatched,
   onToggleWatchlist,
 }: TokenDetailHeaderProps) {
+  const { formatMoney } = useCurrency();
   const isPositive24h = token.change24h >= 0;
 
   return (
@@ -48,6 +51,7 @@ export function TokenDetailHeader({
               <span className="px-2 py-1 bg-background-tertiary text-text-secondary text-sm rounded">
                 {token.symbol}
               </span>
+              {token.verified && <VerifiedBadge size={20} />}
             </div>
             <div className="flex items-center gap-2 mt-1">
               {/* Watchlist button */}
@@ -81,7 +85,7 @@ export function TokenDetailHeader({
             {formatPrice(token.priceXch)} XCH
           </div>
           <div className="text-lg text-text-secondary font-mono">
-            {formatUsd(token.priceUsd)}
+            {formatMoney(token.priceUsd)}
           </div>
           <div
             className={`inline-flex items-center gap-1 mt-2 text-lg font-medium ${
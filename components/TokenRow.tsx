@@ -12,7 +12,9 @@
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
 import { DashboardToken } from '@/contracts/types';
-import { formatPrice, formatUsd, formatVolume, formatPercentage } from '@/lib/transform';
+import { formatPrice, formatVolume, formatPercentage } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+import { VerifiedBadge } from './VerifiedBadge';
 import { AlertToggle } from './AlertToggle';
 import { Sparkline } from './Sparkline';
 
@@ -46,6 +48,7 @@ export function TokenRow({
   isWatched = false,
   onToggleWatchlist,
 }: TokenRowProps) {
+  const { formatMoney } = useCurrency();
   const router = useRouter();
 
   // Generate sparkline data based on current price and 7d change
@@ -105,7 +108,10 @@ export function TokenRow({
           </div>
           <div className="min-w-0">
             <div className="font-medium text-text-primary truncate">{token.name}</div>
-            <div className="text-sm text-text-muted">{token.symbol}</div>
+            <div className="flex items-center gap-1 text-sm text-text-muted">
+              {token.symbol}
+              {token.verified && <VerifiedBadge size={12} />}
+            </div>
           </div>
         </div>
       </td>
@@ -117,11 +123,38 @@ export function TokenRow({
         ) : (
           <div className="tabular-nums">
             <div className="text-text-primary font-semibold">{formatPrice(token.priceXch)} XCH</div>
-            <div className="text-text-secondary text-sm">{formatUsd(token.priceUsd)}</div>
+            <div className="text-text-secondary text-sm">{formatMoney(token.priceUsd)}</div>
           </div>
         )}
       </td>
 
+      {/* Best Bid */}
+      <td className="px-4 py-4 text-right whitespace-nowrap tabular-nums">
+        {token.bestBid !== undefined ? (
+          <span className="text-accent-green">{formatPrice(token.bestBid)}</span>
+        ) : (
+          <span className="text-text-muted">-</span>
+        )}
+      </td>
+
+      {/* Best Ask */}
+      <td className="px-4 py-4 text-right whitespace-nowrap tabular-nums">
+        {token.bestAsk !== undefined ? (
+          <span className="text-accent-red">{formatPrice(token.bestAsk)}</span>
+        ) : (
+          <span className="text-text-muted">-</span>
+        )}
+      </td>
+
+      {/* Spread */}
+      <td className="px-4 py-4 text-right whitespace-nowrap tabular-nums">
+        {token.spreadPct !== undefined ? (
+          <span className="text-text-primary">{token.spreadPct.toFixed(2)}%</span>
+        ) : (
+          <span className="text-text-muted">-</span>
+        )}
+      </td>
+
       {/* 24h Change */}
       {token.hasMarket === false ? (
         <td className="px-4 py-4 text-right text-text-muted">-</td>
@@ -150,12 +183,22 @@ export function TokenRow({
         </div>
       </td>
 
-      {/* Liquidity */}
+      {/* Liquidity within ±2% of mid */}
       <td className="px-4 py-4 text-right whitespace-nowrap">
         <div className="tabular-nums text-text-primary">
           {formatVolume(token.liquidityXch)} XCH
         </div>
-        <div className="text-sm text-text-muted tabular-nums">{formatUsd(token.liquidityUsd)}</div>
+        <div className="text-sm text-text-muted tabular-nums">{formatMoney(token.liquidityUsd)}</div>
+      </td>
+
+      {/* Liquidity within ±5% of mid */}
+      <td className="px-4 py-4 text-right whitespace-nowrap">
+        <div className="tabular-nums text-text-primary">
+          {formatVolume(token.liquidity5pctXch)} XCH
+        </div>
+        <div className="text-sm text-text-muted tabular-nums">
+          {formatMoney(token.liquidity5pctUsd)}
+        </div>
       </td>
 
       {/* Last 7 Days Sparkline */}
@@ -6,8 +6,17 @@
  * Stats grid displaying token market data.
  */
 
-import { TokenDetail } from '@/contracts/types';
-import { formatPrice, formatUsd, formatVolume } from '@/lib/transform';
+import { TokenDetail, TokenMetricsSource } from '@/contracts/types';
+import { formatPrice, formatVolume } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
+
+/**
+ * Where change and volume came from, for tokens without market statistics
+ */
+const METRICS_SOURCE_NOTES: Partial<Record<TokenMetricsSource, string>> = {
+  reserves: 'Change and volume derived from recorded TibetSwap reserves (swaps between snapshots).',
+  trades: 'Change and volume derived from completed Dexie offers.',
+};
 
 interface TokenStatsProps {
   token: TokenDetail;
@@ -15,35 +24,60 @@ interface TokenStatsProps {
 }
 
 export function TokenStats({ token, xchPriceUsd }: TokenStatsProps) {
+  const { formatMoney } = useCurrency();
   const stats = [
     {
       label: '24h Volume',
       value: `${formatVolume(token.volume24hXch)} XCH`,
-      subValue: formatUsd(token.volume24hUsd),
+      subValue: formatMoney(token.volume24hUsd),
     },
     {
-      label: 'Liquidity',
+      label: 'Liquidity (±2%)',
       value: `${formatVolume(token.liquidity.totalXch)} XCH`,
-      subValue: formatUsd(token.liquidity.totalUsd),
+      subValue: formatMoney(token.liquidity.totalUsd),
+    },
+    {
+      label: 'Liquidity (±5%)',
+      value: `${formatVolume(token.liquidity5pctXch)} XCH`,
+      subValue: formatMoney(token.liquidity5pctUsd),
     },
     {
       label: '24h High',
       value: `${formatPrice(token.high24h)} XCH`,
-      subValue: formatUsd(token.high24h * xchPriceUsd),
+      subValue: formatMoney(token.high24h * xchPriceUsd),
     },
     {
       label: '24h Low',
       value: `${formatPrice(token.low24h)} XCH`,
-      subValue: formatUsd(token.low24h * xchPriceUsd),
+      subValue: formatMoney(token.low24h * xchPriceUsd),
     },
   ];
 
-  // Add market cap if available
-  if (token.marketCap !== undefined) {
+  // Add valuation if a supply provider knows the token
+  if (token.marketCapXch !== undefined && token.marketCapUsd !== undefined) {
     stats.push({
       label: 'Market Cap',
-      value: formatUsd(token.marketCap),
-      subValue: '',
+      value: `${formatVolume(token.marketCapXch)} XCH`,
+      subValue: formatMoney(token.marketCapUsd),
+    });
+  }
+
+  if (token.fdvXch !== undefined && token.fdvUsd !== undefined) {
+    stats.push({
+      label: 'Fully Diluted Value',
+      value: `${formatVolume(token.fdvXch)} XCH`,
+      subValue: formatMoney(token.fdvUsd),
+    });
+  }
+
+  if (token.supply) {
+    const { circulating, total } = token.supply;
+    stats.push({
+      label: 'Circulating / Total Supply',
+      value: `${circulating !== null ? formatVolume(circulating) : '-'} / ${
+        total !== null ? formatVolume(total) : '-'
+      }`,
+      subValue: `Source: ${token.supply.sources.join(', ')}`,
     });
   }
 
@@ -70,6 +104,10 @@ export function TokenStats({ token, xchPriceUsd }: TokenStatsProps) {
         ))}
       </div>
 
+      {token.metricsSource && METRICS_SOURCE_NOTES[token.metricsSource] && (
+        <p className="mt-4 text-xs text-text-muted">{METRICS_SOURCE_NOTES[token.metricsSource]}</p>
+      )}
+
       {/* Price spread info */}
       <div className="mt-4 pt-4 border-t border-border-secondary">
         <div className="text-sm text-text-muted mb-2">24h Price Range</div>
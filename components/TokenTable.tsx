@@ -23,6 +23,13 @@ interface TokenTableProps {
   onToggleWatchlist?: (tokenId: string) => void;
 }
 
+/**
+ * Explains the slippage-based liquidity columns
+ */
+const LIQUIDITY_TOOLTIP =
+  'XCH you can buy plus sell before the price moves {band}% from the mid price, ' +
+  'Dexie offers and TibetSwap pool combined';
+
 interface SortableHeaderProps {
   label: string;
   field: SortField;
@@ -31,6 +38,8 @@ interface SortableHeaderProps {
   onClick: (field: SortField) => void;
   align?: 'left' | 'right';
   className?: string;
+  /** Tooltip explaining the column */
+  title?: string;
 }
 
 function SortableHeader({
@@ -41,6 +50,7 @@ function SortableHeader({
   onClick,
   align = 'right',
   className = '',
+  title,
 }: SortableHeaderProps) {
   const isActive = currentField === field;
 
@@ -48,6 +58,7 @@ function SortableHeader({
     <th
       className={`px-4 py-3 text-${align} text-sm font-semibold text-text-secondary cursor-pointer hover:text-text-primary transition-colors select-none whitespace-nowrap ${className}`}
       onClick={() => onClick(field)}
+      title={title}
     >
       <div
         className={`inline-flex items-center gap-1 ${align === 'right' ? 'flex-row-reverse' : ''}`}
@@ -101,7 +112,7 @@ export function TokenTable({
 
   return (
     <div className="overflow-x-auto">
-      <table className="w-full min-w-[900px]">
+      <table className="w-full min-w-[1300px]">
         <thead className="bg-background-tertiary border-b border-border-primary">
           <tr>
             {/* Rank - Sticky */}
@@ -127,6 +138,27 @@ export function TokenTable({
               direction={sortConfig.direction}
               onClick={onSortChange}
             />
+            <SortableHeader
+              label="Bid"
+              field="bestBid"
+              currentField={sortConfig.field}
+              direction={sortConfig.direction}
+              onClick={onSortChange}
+            />
+            <SortableHeader
+              label="Ask"
+              field="bestAsk"
+              currentField={sortConfig.field}
+              direction={sortConfig.direction}
+              onClick={onSortChange}
+            />
+            <SortableHeader
+              label="Spread"
+              field="spreadPct"
+              currentField={sortConfig.field}
+              direction={sortConfig.direction}
+              onClick={onSortChange}
+            />
             <SortableHeader
               label="24h %"
               field="change24h"
@@ -156,11 +188,20 @@ export function TokenTable({
               onClick={onSortChange}
             />
             <SortableHeader
-              label="Liquidity"
+              label="Liq. ±2%"
               field="liquidityXch"
               currentField={sortConfig.field}
               direction={sortConfig.direction}
               onClick={onSortChange}
+              title={LIQUIDITY_TOOLTIP.replace('{band}', '2')}
+            />
+            <SortableHeader
+              label="Liq. ±5%"
+              field="liquidity5pctXch"
+              currentField={sortConfig.field}
+              direction={sortConfig.direction}
+              onClick={onSortChange}
+              title={LIQUIDITY_TOOLTIP.replace('{band}', '5')}
             />
             {/* Last 7 Days Sparkline */}
             <th className="px-4 py-3 text-right text-sm font-semibold text-text-secondary whitespace-nowrap">
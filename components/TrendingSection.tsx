@@ -11,7 +11,8 @@ import { useState } from 'react';
 import Image from 'next/image';
 import Link from 'next/link';
 import { DashboardToken } from '@/contracts/types';
-import { formatPrice, formatUsd, formatPercentage } from '@/lib/transform';
+import { formatPrice, formatPercentage } from '@/lib/transform';
+import { useCurrency } from '@/hooks/useCurrency';
 import { Sparkline } from './Sparkline';
 
 interface TrendingBannerProps {
@@ -31,6 +32,7 @@ interface TrendingCardProps {
 }
 
 function TrendingCard({ token, type }: TrendingCardProps) {
+  const { formatMoney } = useCurrency();
   const isPositive = token.change7d >= 0;
 
   // Generate mock sparkline data based on current price and 7d change
@@ -88,7 +90,7 @@ function TrendingCard({ token, type }: TrendingCardProps) {
             {formatPrice(token.priceXch)} XCH
           </div>
           <div className="text-xs text-text-secondary tabular-nums">
-            {formatUsd(token.priceUsd)}
+            {formatMoney(token.priceUsd)}
           </div>
         </div>
 
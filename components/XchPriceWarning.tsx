@@ -0,0 +1,52 @@
+'use client';
+
+/**
+ * XchPriceWarning Component
+ *
+ * Banner shown when fiat values cannot be trusted: the XCH/USD price is a
+ * cached or hard-coded fallback, or the price oracles disagree.
+ */
+
+import { XchMarketSummary } from '@/contracts/types';
+
+interface XchPriceWarningProps {
+  /** Whether the XCH/USD price is a fallback rather than a live oracle price */
+  isFallback?: boolean;
+  /** XCH market summary with the provider and oracle divergence */
+  xchMarket?: XchMarketSummary;
+}
+
+export function XchPriceWarning({ isFallback, xchMarket }: XchPriceWarningProps) {
+  let message: string | null = null;
+
+  if (isFallback) {
+    message =
+      xchMarket?.provider === 'cache'
+        ? 'XCH price oracles are unavailable - fiat values use the last known XCH price and may be out of date.'
+        : 'XCH price oracles are unavailable - fiat values use a placeholder XCH price and are not reliable.';
+  } else if (xchMarket?.isDivergent && xchMarket.divergencePct !== null) {
+    message = `XCH price oracles disagree by ${xchMarket.divergencePct.toFixed(1)}% - fiat values may be inaccurate.`;
+  }
+
+  if (!message) return null;
+
+  return (
+    <div className="bg-accent-yellow/10 border border-accent-yellow/30 rounded-lg p-4 mb-6">
+      <div className="flex items-center gap-2">
+        <svg
+          className="h-5 w-5 flex-shrink-0 text-accent-yellow"
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path
+            fillRule="evenodd"
+            d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+            clipRule="evenodd"
+          />
+        </svg>
+        <span className="text-accent-yellow font-medium">{message}</span>
+      </div>
+    </div>
+  );
+}
@@ -10,7 +10,9 @@ export { SortControls } from './SortControls';
 export { LastUpdated } from './LastUpdated';
 export { AlertToggle } from './AlertToggle';
 export { Header } from './Header';
+export { CurrencySelector } from './CurrencySelector';
 export { NotificationBanner } from './NotificationBanner';
+export { XchPriceWarning } from './XchPriceWarning';
 export { Dashboard } from './Dashboard';
 
 // Token list components
@@ -28,13 +30,19 @@ export { ViewModeSwitcher } from './ViewModeSwitcher';
 export { TokenDetailHeader } from './TokenDetailHeader';
 export { TokenStats } from './TokenStats';
 export { TradingLinks } from './TradingLinks';
+export { SwapQuote } from './SwapQuote';
+export { MarketPairs } from './MarketPairs';
+export { PriceProvenance } from './PriceProvenance';
+export { TokenAbout } from './TokenAbout';
 
 // Chart components
 export { PriceChart } from './PriceChart';
 export { ChartTimeframeSelector } from './ChartTimeframeSelector';
+export { DepthChart } from './DepthChart';
 
 // New UI components
 export { Sparkline } from './Sparkline';
+export { VerifiedBadge } from './VerifiedBadge';
 export { TrendingSection } from './TrendingSection';
 export { MobileNav } from './MobileNav';
 export {
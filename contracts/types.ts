@@ -23,6 +23,12 @@ export interface DexieToken {
   name: string;
   denom: number;
   icon: string;
+  /** Project metadata, when the token list carries it */
+  description?: string;
+  website?: string;
+  twitter?: string;
+  discord?: string;
+  telegram?: string;
 }
 
 /**
@@ -30,11 +36,22 @@ export interface DexieToken {
  */
 export interface DexieMarketsResponse {
   success: boolean;
+  /** Markets grouped by quote asset (key is 'xch', or a quote token code or ID) */
   markets: {
     xch: DexieMarket[];
+    [quote: string]: DexieMarket[];
   };
 }
 
+/**
+ * Markets of one Dexie quote group
+ */
+export interface DexieQuoteGroup {
+  /** Group key from /v1/markets ('xch', or a quote token code or ID) */
+  quote: string;
+  markets: DexieMarket[];
+}
+
 export interface DexieMarket {
   id: string;
   name: string;
@@ -90,6 +107,48 @@ export interface PriceDepth {
   change: ChangeData;
 }
 
+/**
+ * Asset leg of a Dexie offer
+ */
+export interface DexieOfferAsset {
+  id: string;
+  code: string;
+  name: string;
+  amount: number;
+}
+
+/**
+ * Raw offer from /v1/offers
+ * status: 0 = active, 1 = pending, 2/3 = cancelled, 4 = completed
+ */
+export interface DexieOffer {
+  id: string;
+  trade_id: string;
+  status: number;
+  price: number;
+  date_found: string;
+  date_completed: string | null;
+  date_pending: string | null;
+  offered: DexieOfferAsset[];
+  requested: DexieOfferAsset[];
+  known_taker?: {
+    name: string;
+    source: string;
+  };
+  fees: number;
+}
+
+/**
+ * Raw offers response from /v1/offers
+ */
+export interface DexieOffersResponse {
+  success: boolean;
+  count?: number;
+  page?: number;
+  page_size?: number;
+  offers: DexieOffer[];
+}
+
 // =============================================================================
 // Application Types (Internal - transformed for UI)
 // =============================================================================
@@ -106,6 +165,8 @@ export interface DashboardToken {
   name: string;
   /** URL to token icon */
   iconUrl: string;
+  /** Whether the token is verified (see TokenRecord.verified) */
+  verified?: boolean;
   /** Price in XCH */
   priceXch: number;
   /** Price in USD (calculated from XCH price) */
@@ -122,10 +183,14 @@ export interface DashboardToken {
   volume7dXch: number;
   /** 7-day trading volume in USD */
   volume7dUsd: number;
-  /** Liquidity in XCH (combined bid/ask depth) */
+  /** XCH tradable within ±2% of mid price across all venues (buy + sell side) */
   liquidityXch: number;
-  /** Liquidity in USD */
+  /** ±2% liquidity in USD */
   liquidityUsd: number;
+  /** XCH tradable within ±5% of mid price across all venues (buy + sell side) */
+  liquidity5pctXch: number;
+  /** ±5% liquidity in USD */
+  liquidity5pctUsd: number;
   /** 24-hour high price in XCH */
   high24h: number;
   /** 24-hour low price in XCH */
@@ -136,8 +201,26 @@ export interface DashboardToken {
   lastUpdated: string;
   /** Whether token has an active market (false = no trading data) */
   hasMarket?: boolean;
-  /** Price source: 'dexie' | 'tibetswap' | 'lastTrade' | 'none' */
-  priceSource?: 'dexie' | 'tibetswap' | 'lastTrade' | 'none';
+  /** ID of the market data source the price came from, or 'none' */
+  priceSource?: PriceSourceId;
+  /** Highest price a buyer currently pays, in XCH (undefined = no bids) */
+  bestBid?: number;
+  /** Lowest price a seller currently accepts, in XCH (undefined = no asks) */
+  bestAsk?: number;
+  /** Midpoint of best bid and best ask in XCH */
+  midPrice?: number;
+  /** Bid/ask spread as a percentage of the mid price */
+  spreadPct?: number;
+  /** Price of every source that quoted the token, reference first */
+  priceQuotes?: SourcePriceQuote[];
+  /** Policy priceXch was chosen by */
+  referencePolicy?: ReferencePricePolicy;
+  /** Spread between the highest and lowest source price, as a percentage of priceXch */
+  priceDivergencePct?: number;
+  /** Where change and volume were derived from (undefined = no source had them) */
+  metricsSource?: TokenMetricsSource;
+  /** TibetSwap pool reserves, if the token has a pair */
+  pool?: AmmPool;
 }
 
 /**
@@ -152,6 +235,728 @@ export interface DashboardData {
   fetchedAt: string;
   /** Whether data is from cache (stale) */
   isStale: boolean;
+  /** Milliseconds since the data was fetched from upstream (set when served from cache) */
+  ageMs?: number;
+  /** Labels of upstream feeds that are currently failing */
+  degradedSources?: string[];
+  /** Validation results of the last upstream payloads, keyed by feed */
+  quarantine?: Record<string, QuarantineReport>;
+  /** USD to fiat exchange rates for currency display (absent = USD only) */
+  fiatRates?: FiatRates;
+  /** XCH/USD 24h change, range and sparkline */
+  xchMarket?: XchMarketSummary;
+  /** Whether xchPriceUsd is a cached or hard-coded fallback rather than a live oracle price */
+  xchPriceIsFallback?: boolean;
+}
+
+/**
+ * Outcome of validating one upstream payload
+ */
+export interface QuarantineReport {
+  /** Records received */
+  total: number;
+  /** Records that passed unchanged */
+  valid: number;
+  /** Records kept after fixing invalid optional fields */
+  repaired: number;
+  /** Records dropped because required fields were invalid */
+  dropped: number;
+  /** ISO timestamp of the validation */
+  checkedAt: string;
+}
+
+// =============================================================================
+// Token Registry Types
+// =============================================================================
+
+/**
+ * Where a token registry record's data came from
+ */
+export type TokenRegistrySource = 'dexie' | 'tibetswap' | 'local';
+
+/**
+ * Canonical metadata of one asset, merged from every token list
+ */
+export interface TokenRecord {
+  /** Asset ID */
+  id: string;
+  /** Ticker symbol */
+  symbol: string;
+  /** Display name */
+  name: string;
+  /** Icon URL */
+  iconUrl: string;
+  /** Token mojos per whole token */
+  denom: number;
+  /** Whether the token is verified (by TibetSwap or the local override file) */
+  verified: boolean;
+  /** Other symbols the token is known by (lower precedence lists, overrides) */
+  aliases: string[];
+  /** Token lists the record was built from */
+  sources: TokenRegistrySource[];
+}
+
+/**
+ * Token records by asset ID
+ */
+export type TokenRegistry = ReadonlyMap<string, TokenRecord>;
+
+// =============================================================================
+// Token Metadata Types
+// =============================================================================
+
+/**
+ * Social networks a token can link to
+ */
+export type TokenSocialPlatform = 'twitter' | 'discord' | 'telegram' | 'github' | 'reddit';
+
+/**
+ * Where a token's metadata came from
+ */
+export type TokenMetadataSource = 'local' | 'dexie';
+
+/**
+ * Descriptive metadata of a token (see lib/token-metadata)
+ */
+export interface TokenMetadata {
+  tokenId: string;
+  description?: string;
+  /** Project website (http/https only) */
+  website?: string;
+  /** Social links by platform (http/https only) */
+  socials: Partial<Record<TokenSocialPlatform, string>>;
+  /** Free-form tags (e.g. "meme", "stablecoin") */
+  tags: string[];
+  /** Launch date as an ISO date (YYYY-MM-DD) */
+  launchDate?: string;
+  /** Sources that contributed, in precedence order */
+  sources: TokenMetadataSource[];
+}
+
+/**
+ * Token metadata API response
+ */
+export interface TokenMetadataApiResponse {
+  success: boolean;
+  data?: TokenMetadata;
+  error?: string;
+}
+
+// =============================================================================
+// Market Data Source Types
+// =============================================================================
+
+/**
+ * Identifier of a registered market data source (e.g. 'dexie', 'tibetswap',
+ * 'lastTrade'). 'none' marks tokens no source could price.
+ */
+export type PriceSourceId = string;
+
+/**
+ * Point on a depth curve: XCH fillable up to (and including) this price
+ */
+export interface DepthPoint {
+  /** Price in XCH per token */
+  price: number;
+  /** Cumulative XCH filled from the best price up to this price */
+  cumulativeXch: number;
+}
+
+/**
+ * Fillable XCH by price on both sides of an order book, best price first
+ */
+export interface DepthCurve {
+  asks: DepthPoint[];
+  bids: DepthPoint[];
+}
+
+/**
+ * Per-token quote produced by a market data source
+ * Optional fields are left undefined when the source cannot provide them.
+ */
+export interface TokenQuote {
+  /** Token asset ID */
+  tokenId: string;
+  /** Token symbol as reported by the source */
+  symbol?: string;
+  /** Token name as reported by the source */
+  name?: string;
+  /** Icon URL as reported by the source */
+  iconUrl?: string;
+  /** Price in XCH */
+  priceXch: number;
+  /** 24-hour price change percentage */
+  change24h?: number;
+  /** 7-day price change percentage */
+  change7d?: number;
+  /** 24-hour trading volume in XCH */
+  volume24hXch?: number;
+  /** 7-day trading volume in XCH */
+  volume7dXch?: number;
+  /** Order book depth curve of the venue */
+  depth?: DepthCurve;
+  /** AMM pool reserves of the venue */
+  pool?: AmmPool;
+  /** 24-hour high price in XCH */
+  high24h?: number;
+  /** 24-hour low price in XCH */
+  low24h?: number;
+  /** Best bid in XCH */
+  bestBid?: number;
+  /** Best ask in XCH */
+  bestAsk?: number;
+  /** Venue-specific pair ID */
+  pairId?: string;
+  /** ISO timestamp the quote reflects */
+  timestamp: string;
+  /** ISO timestamp the price was traded at, when older than the quote (e.g. a last trade) */
+  priceTimestamp?: string;
+  /** Where change and volume were derived from, if the quote has them */
+  metricsSource?: TokenMetricsSource;
+}
+
+/**
+ * Where a token's change and volume figures come from
+ * - market: reported by the venue (Dexie market statistics)
+ * - reserves: derived from recorded TibetSwap reserve snapshots
+ * - trades: derived from crawled Dexie completed offers
+ */
+export type TokenMetricsSource = 'market' | 'reserves' | 'trades';
+
+/**
+ * Change and volume derived from recorded activity
+ */
+export interface ActivityMetrics {
+  /** 24-hour price change percentage (null = no price 24h ago) */
+  change24h: number | null;
+  /** 7-day price change percentage (null = no price 7d ago) */
+  change7d: number | null;
+  volume24hXch: number;
+  volume7dXch: number;
+}
+
+/**
+ * Which quote fields a source can fill
+ */
+export interface SourceCapabilities {
+  price: boolean;
+  change: boolean;
+  volume: boolean;
+  liquidity: boolean;
+  highLow: boolean;
+  bidAsk: boolean;
+}
+
+/**
+ * Health of a market data source, based on its recent fetches
+ */
+export interface SourceHealth {
+  status: 'healthy' | 'degraded' | 'down' | 'unknown';
+  /** ISO timestamp of the last successful fetch */
+  lastSuccess: string | null;
+  /** Message of the last failed fetch */
+  lastError: string | null;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+}
+
+/**
+ * Shared data available to sources while normalizing
+ */
+export interface SourceContext {
+  /** Canonical token metadata (lib/token-registry) */
+  registry: TokenRegistry;
+}
+
+/**
+ * Adapter for a venue or feed that can price tokens
+ *
+ * Sources are registered in lib/sources and merged by priority:
+ * for each token, the lowest-priority-number source with a price wins.
+ */
+export interface MarketDataSource<TRaw = unknown> {
+  /** Unique identifier, used as DashboardToken.priceSource */
+  id: PriceSourceId;
+  /** Human-readable name */
+  label: string;
+  /** Merge priority - lower numbers are preferred */
+  priority: number;
+  /** Quote fields this source can provide */
+  capabilities: SourceCapabilities;
+  /** Whether the dashboard fetch fails when this source fails */
+  required?: boolean;
+  /** Fetch raw data from the upstream */
+  fetch: () => Promise<Result<TRaw>>;
+  /** Normalize raw data into per-token quotes */
+  normalize: (raw: TRaw, context: SourceContext) => TokenQuote[];
+  /** Current health of the source */
+  health: () => SourceHealth;
+}
+
+// =============================================================================
+// Reference Price Types
+// =============================================================================
+
+/**
+ * How a token's reference price (DashboardToken.priceXch) is chosen
+ * - priority: price of the most preferred source (source priority order)
+ * - mid: order book mid price, falling back to priority without a two-sided book
+ * - median: median of all source prices
+ */
+export type ReferencePricePolicy = 'priority' | 'mid' | 'median';
+
+/**
+ * Price of a token as quoted by one source
+ */
+export interface SourcePriceQuote {
+  /** Source the price came from */
+  source: PriceSourceId;
+  /** 'price' for the source's own price, 'mid' for its order book mid price */
+  kind: 'price' | 'mid';
+  /** Human-readable name (e.g. "Dexie last", "Dexie mid", "TibetSwap AMM") */
+  label: string;
+  /** Price in XCH */
+  priceXch: number;
+  /** ISO timestamp the price was observed at */
+  observedAt: string;
+  /** Deviation from the reference price in percent (signed) */
+  deviationPct: number;
+  /** Whether this quote set the reference price */
+  isReference: boolean;
+}
+
+// =============================================================================
+// Fiat Currency Types
+// =============================================================================
+
+/**
+ * Fiat currencies values can be displayed in
+ */
+export type FiatCurrency = 'USD' | 'EUR' | 'GBP';
+
+/**
+ * Exchange rates from USD to each supported fiat currency
+ */
+export interface FiatRates {
+  /** Units of each currency per 1 USD (USD is always 1) */
+  rates: Record<FiatCurrency, number>;
+  /** Provider the rates came from */
+  source: string;
+  /** ISO timestamp of when the rates were fetched */
+  fetchedAt: string;
+}
+
+// =============================================================================
+// XCH Price Types
+// =============================================================================
+
+/**
+ * Where the XCH/USD price was taken from: the median of live oracles, an
+ * expired cached median, or the hard-coded fallback
+ */
+export type XchPriceProvider = 'oracles' | 'cache' | 'fallback';
+
+/**
+ * Identifier of an XCH/USD price oracle (e.g. 'coingecko', 'dexie', 'okx')
+ */
+export type XchOracleId = string;
+
+/**
+ * Price reported by one oracle
+ */
+export interface XchOracleReading {
+  /** Oracle identifier */
+  oracle: XchOracleId;
+  /** Display label of the oracle */
+  label: string;
+  /** Price of 1 XCH in USD */
+  priceUsd: number;
+  /** 24-hour change in percent, if the oracle reports one */
+  change24h: number | null;
+  /** Deviation from the median of all readings, in percent */
+  deviationPct: number;
+  /** Whether the reading was used (false = rejected as an outlier) */
+  accepted: boolean;
+}
+
+/**
+ * XCH/USD price from the price oracles
+ */
+export interface XchUsdQuote {
+  /** Price of 1 XCH in USD (median of the accepted readings) */
+  priceUsd: number;
+  /** 24-hour change in percent (median of the oracles reporting one) */
+  change24h: number | null;
+  /** Provider of the price */
+  provider: XchPriceProvider;
+  /** Every oracle that answered, accepted or not */
+  readings: XchOracleReading[];
+  /** Largest deviation of any reading from the median, in percent (null with fewer than 2) */
+  divergencePct: number | null;
+  /** Whether the oracles disagree by more than the configured tolerance */
+  isDivergent: boolean;
+  /** ISO timestamp of when the price was fetched */
+  fetchedAt: string;
+}
+
+/**
+ * Recorded XCH/USD price
+ */
+export interface XchPriceSnapshot {
+  /** ISO timestamp of the snapshot */
+  timestamp: string;
+  /** Price of 1 XCH in USD */
+  priceUsd: number;
+  /** Provider of the price */
+  provider: XchPriceProvider;
+}
+
+/**
+ * XCH market overview included in the dashboard payload
+ */
+export interface XchMarketSummary {
+  /** Current price of 1 XCH in USD */
+  priceUsd: number;
+  /** 24-hour change in percent (null until known) */
+  change24h: number | null;
+  /** Whether the change came from the provider or from recorded history */
+  change24hSource: 'provider' | 'history' | null;
+  /** Highest recorded price in the last 24 hours */
+  high24h: number | null;
+  /** Lowest recorded price in the last 24 hours */
+  low24h: number | null;
+  /** Recorded USD prices over the last 24 hours, oldest first */
+  sparkline: number[];
+  /** Provider of the current price */
+  provider: XchPriceProvider;
+  /** Oracle readings behind the current price */
+  readings: XchOracleReading[];
+  /** Largest deviation of any reading from the median, in percent */
+  divergencePct: number | null;
+  /** Whether the oracles disagree by more than the configured tolerance */
+  isDivergent: boolean;
+}
+
+// =============================================================================
+// Upstream Health Types
+// =============================================================================
+
+/**
+ * Identifier of an upstream API (e.g. 'dexie', 'tibetswap', 'coingecko')
+ */
+export type UpstreamId = string;
+
+/**
+ * Circuit breaker state
+ * - closed: calls go through
+ * - open: calls are rejected until the cool-down ends
+ * - half-open: cool-down ended, the next call is a trial
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Health of a single upstream API
+ */
+export interface UpstreamHealth {
+  id: UpstreamId;
+  /** Human-readable name */
+  label: string;
+  status: 'healthy' | 'degraded' | 'down' | 'unknown';
+  circuit: CircuitState;
+  /** Duration of the last completed call in milliseconds */
+  latencyMs: number | null;
+  /** ISO timestamp of the last successful call */
+  lastSuccess: string | null;
+  /** ISO timestamp of the last failed call */
+  lastFailure: string | null;
+  /** Message of the last failed call */
+  lastError: string | null;
+  /** Failures since the last success */
+  consecutiveFailures: number;
+  /** Calls made (excluding calls rejected by an open circuit) */
+  totalCalls: number;
+  /** Failed calls */
+  totalFailures: number;
+  /** ISO timestamp when an open circuit allows a trial call */
+  circuitOpenUntil: string | null;
+}
+
+/**
+ * Health API response
+ */
+export interface HealthApiResponse {
+  /** 'ok' if every upstream is healthy or unused, 'down' if all are down */
+  status: 'ok' | 'degraded' | 'down';
+  upstreams: UpstreamHealth[];
+  checkedAt: string;
+}
+
+// =============================================================================
+// AMM Quote Types
+// =============================================================================
+
+/**
+ * Asset sent into a swap: XCH (buying the token) or the token (selling it)
+ */
+export type SwapInputAsset = 'xch' | 'token';
+
+/**
+ * Pool reserves in whole units (not mojos)
+ */
+export interface AmmPool {
+  /** XCH in the pool */
+  xchReserve: number;
+  /** Tokens in the pool */
+  tokenReserve: number;
+  /** Fee rate taken from the input amount (e.g. 0.007 = 0.7%) */
+  feeRate: number;
+}
+
+/**
+ * Result of quoting a swap against a constant-product pool
+ */
+export interface AmmQuote {
+  tokenId: string;
+  /** TibetSwap pair ID */
+  pairId: string;
+  inputAsset: SwapInputAsset;
+  /** Amount sent in, in units of the input asset */
+  inputAmount: number;
+  /** Amount received, in units of the other asset */
+  outputAmount: number;
+  /** Pool price before the swap, XCH per token */
+  spotPrice: number;
+  /** Realized price including fee, XCH per token */
+  effectivePrice: number;
+  /** Price movement caused by the swap itself (excluding fee), in % */
+  priceImpact: number;
+  /** Fee paid, in units of the input asset */
+  feeAmount: number;
+  /** Fee rate applied */
+  feeRate: number;
+  /** Pool price after the swap, XCH per token */
+  priceAfter: number;
+}
+
+/**
+ * Quote API response
+ */
+export interface QuoteApiResponse {
+  success: boolean;
+  data?: AmmQuote;
+  error?: string;
+}
+
+// =============================================================================
+// Order Book & Execution Types
+// =============================================================================
+
+/**
+ * A single active Dexie offer as an order book entry
+ * Dexie offers are all-or-nothing: they cannot be partially filled.
+ */
+export interface OrderBookLevel {
+  offerId: string;
+  /** Price in XCH per token */
+  price: number;
+  /** Token side of the offer */
+  amountToken: number;
+  /** XCH side of the offer */
+  amountXch: number;
+}
+
+/**
+ * Active Dexie offers for a token, split by side
+ */
+export interface OrderBook {
+  tokenId: string;
+  /** Offers selling the token for XCH, cheapest first */
+  asks: OrderBookLevel[];
+  /** Offers buying the token with XCH, highest first */
+  bids: OrderBookLevel[];
+  /** True when not every active offer could be read (page limit or failed page) */
+  truncated: boolean;
+  fetchedAt: string;
+}
+
+/**
+ * Offers aggregated at one price level, with depth accumulated from the
+ * best price outwards
+ */
+export interface DepthLevel {
+  /** Price in XCH per token */
+  price: number;
+  /** Tokens offered at this level */
+  amountToken: number;
+  /** XCH value of this level */
+  amountXch: number;
+  /** Number of offers at this level */
+  offers: number;
+  /** Tokens from the best price up to and including this level */
+  cumulativeToken: number;
+  /** XCH from the best price up to and including this level */
+  cumulativeXch: number;
+}
+
+/**
+ * Aggregated order book with cumulative depth
+ */
+export interface OrderBookDepth {
+  tokenId: string;
+  /** Bid levels, highest price first */
+  bids: DepthLevel[];
+  /** Ask levels, lowest price first */
+  asks: DepthLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  /** Midpoint of best bid and ask, null unless both exist */
+  midPrice: number | null;
+  /** TibetSwap pool price, null if the token has no pair */
+  ammPrice: number | null;
+  /** True when the book misses active offers - best prices and depth may be off */
+  truncated: boolean;
+  fetchedAt: string;
+}
+
+/**
+ * Order book API response
+ */
+export interface OrderBookApiResponse {
+  success: boolean;
+  data?: OrderBookDepth;
+  error?: string;
+}
+
+/**
+ * One venue's part of an execution plan
+ */
+export interface ExecutionLeg {
+  venue: DexPlatform;
+  /** Amount sent in on this venue, in units of the input asset */
+  inputAmount: number;
+  /** Amount received on this venue, in units of the other asset */
+  outputAmount: number;
+  /** Average price of this leg, XCH per token */
+  averagePrice: number;
+  /** Dexie offers taken by this leg */
+  offerIds?: string[];
+  /** Deep link to execute the leg */
+  url: string;
+}
+
+/**
+ * Strategy of an execution plan
+ */
+export type ExecutionStrategy = 'dexie' | 'tibetswap' | 'split';
+
+/**
+ * A way to fill a requested size
+ */
+export interface ExecutionPlan {
+  strategy: ExecutionStrategy;
+  legs: ExecutionLeg[];
+  /** Input actually used across legs */
+  inputAmount: number;
+  /** Total received across legs */
+  outputAmount: number;
+  /** Average price across legs, XCH per token */
+  averagePrice: number;
+  /** Average price versus the best top-of-book price, in % (positive = worse) */
+  slippage: number;
+  /** Input that could not be filled (order book too thin, no pool) */
+  unfilledInput: number;
+}
+
+/**
+ * Best-execution comparison for a requested swap
+ */
+export interface BestExecutionResult {
+  tokenId: string;
+  inputAsset: SwapInputAsset;
+  inputAmount: number;
+  /** Best top-of-book price across venues, XCH per token */
+  referencePrice: number;
+  /** Strategy with the best fill, null if nothing can be filled */
+  best: ExecutionStrategy | null;
+  plans: ExecutionPlan[];
+  /** True when the Dexie book misses active offers (see OrderBook.truncated) */
+  bookTruncated: boolean;
+  fetchedAt: string;
+}
+
+/**
+ * Best-execution API response
+ */
+export interface BestExecutionApiResponse {
+  success: boolean;
+  data?: BestExecutionResult;
+  error?: string;
+}
+
+// =============================================================================
+// Arbitrage Types
+// =============================================================================
+
+/**
+ * Which venue an arbitrage buys on (and sells on the other)
+ */
+export type ArbitrageDirection = 'buyTibetSwap' | 'buyDexie';
+
+/**
+ * A price gap between the Dexie top of book and a TibetSwap pool
+ */
+export interface ArbitrageOpportunity {
+  tokenId: string;
+  symbol: string;
+  name: string;
+  iconUrl: string;
+  direction: ArbitrageDirection;
+  /** Dexie best bid (buyTibetSwap) or best ask (buyDexie), XCH per token */
+  dexiePrice: number;
+  /** XCH spent on the buy leg (the requested size, or less when capped) */
+  sizeXch: number;
+  /** True when the Dexie depth could not absorb the requested size */
+  isSizeCapped: boolean;
+  /** TibetSwap pool price, XCH per token */
+  ammPrice: number;
+  /** Sell price above buy price, as a percentage of the buy price */
+  divergencePct: number;
+  /** Buy leg (XCH in, tokens out) */
+  buy: ExecutionLeg;
+  /** Sell leg (tokens in, XCH out) */
+  sell: ExecutionLeg;
+  /** XCH received on the sell leg minus XCH spent on the buy leg */
+  profitXch: number;
+  /** Profit as a percentage of the XCH spent */
+  profitPct: number;
+  /** Price impact of the TibetSwap leg in % */
+  priceImpact: number;
+  /** TibetSwap fee in XCH */
+  ammFeeXch: number;
+}
+
+/**
+ * Result of scanning every token for arbitrage
+ */
+export interface ArbitrageScan {
+  /** Opportunities above the divergence threshold, most profitable first */
+  opportunities: ArbitrageOpportunity[];
+  /** Requested XCH for the buy leg (opportunities may be capped below it) */
+  sizeXch: number;
+  /** Smallest venue divergence listed, in % */
+  minDivergencePct: number;
+  xchPriceUsd: number;
+  /** When the underlying dashboard data was fetched */
+  fetchedAt: string;
+}
+
+/**
+ * Arbitrage API response
+ */
+export interface ArbitrageApiResponse {
+  success: boolean;
+  data?: ArbitrageScan;
+  error?: string;
 }
 
 // =============================================================================
@@ -178,7 +983,11 @@ export type SortField =
   | 'volume7dXch'
   | 'volume7dUsd'
   | 'liquidityXch'
-  | 'liquidityUsd';
+  | 'liquidityUsd'
+  | 'liquidity5pctXch'
+  | 'bestBid'
+  | 'bestAsk'
+  | 'spreadPct';
 
 /**
  * Filter configuration
@@ -222,6 +1031,30 @@ export interface DashboardApiResponse {
   success: boolean;
   data?: DashboardData;
   error?: string;
+  /** Server cache statistics for the dashboard data */
+  cache?: CacheStats;
+}
+
+/**
+ * Hit/miss statistics of a server-side cache
+ */
+export interface CacheStats {
+  /** Requests served from a fresh entry */
+  hits: number;
+  /** Requests that had to wait for an upstream fetch */
+  misses: number;
+  /** Requests served from an expired entry (revalidating or upstream failing) */
+  staleHits: number;
+  /** Requests that joined an in-flight fetch instead of starting one */
+  coalesced: number;
+  /** Upstream fetches started */
+  refreshes: number;
+  /** Upstream fetches that failed */
+  failures: number;
+  /** ISO timestamp of the cached entry, null if empty */
+  cachedAt: string | null;
+  /** Message of the last failed fetch, cleared on success */
+  lastError: string | null;
 }
 
 // =============================================================================
@@ -295,6 +1128,14 @@ export type AsyncResult<T, E = Error> = Promise<Result<T, E>>;
  */
 export type ChartTimeframe = '1D' | '7D' | '1M' | '1Y' | 'ALL';
 
+/**
+ * Where a chart data point came from
+ * - snapshot: recorded dashboard snapshot (Dexie market or last trade price)
+ * - amm: recorded TibetSwap reserve snapshot
+ * - trade: backfilled from a Dexie completed offer
+ */
+export type ChartPointSource = 'snapshot' | 'amm' | 'trade';
+
 /**
  * Single data point for price charts
  */
@@ -305,6 +1146,58 @@ export interface ChartDataPoint {
   price: number;
   /** Optional volume at this timestamp */
   volume?: number;
+  /** Provenance of the point */
+  source?: ChartPointSource;
+}
+
+/**
+ * Server-side snapshot of a token's market state at a point in time
+ */
+export interface PriceSnapshot {
+  /** ISO timestamp of the snapshot */
+  timestamp: string;
+  /** Price in XCH */
+  priceXch: number;
+  /** Price in USD at snapshot time (unknown for backfilled trades) */
+  priceUsd?: number;
+  /** 24-hour trading volume in XCH (unknown for backfilled trades) */
+  volume24hXch?: number;
+  /** Liquidity in XCH (unknown for backfilled trades) */
+  liquidityXch?: number;
+  /** TibetSwap XCH reserve, in XCH (tokens with a pair) */
+  xchReserve?: number;
+  /** TibetSwap token reserve, in tokens (tokens with a pair) */
+  tokenReserve?: number;
+  /** Source the price was taken from */
+  priceSource: PriceSourceId;
+  /** Provenance of the snapshot (missing on snapshots recorded before backfill existed) */
+  origin?: ChartPointSource;
+}
+
+/**
+ * Retention tiers of the price history store
+ * (raw = 5 minute buckets, hourly and daily = downsampled closes)
+ */
+export type PriceHistoryTier = 'raw' | 'hourly' | 'daily';
+
+/**
+ * OHLCV candle built from completed trades
+ */
+export interface ChartCandle {
+  /** ISO timestamp of the start of the candle interval */
+  timestamp: string;
+  /** First trade price in XCH */
+  open: number;
+  /** Highest trade price in XCH */
+  high: number;
+  /** Lowest trade price in XCH */
+  low: number;
+  /** Last trade price in XCH */
+  close: number;
+  /** Traded volume in XCH */
+  volume: number;
+  /** Number of trades in the interval */
+  trades: number;
 }
 
 /**
@@ -317,6 +1210,14 @@ export interface ChartData {
   timeframe: ChartTimeframe;
   /** Array of price/volume data points */
   dataPoints: ChartDataPoint[];
+  /** OHLCV candles from completed trades, if any trades exist */
+  candles?: ChartCandle[];
+  /** Expected spacing between points in ms - larger spacing is a gap in history */
+  intervalMs?: number;
+  /** Candle interval in ms - buckets without a candle had no trades */
+  candleIntervalMs?: number;
+  /** Whether there are enough real points to draw a meaningful chart */
+  hasSufficientHistory?: boolean;
   /** When this data was fetched */
   fetchedAt: string;
 }
@@ -325,6 +1226,31 @@ export interface ChartData {
 // Token Detail Types
 // =============================================================================
 
+/**
+ * A trading pair of a token on a venue, priced in its quote asset
+ */
+export interface MarketPair {
+  /** Venue pair ID */
+  pairId: string;
+  venue: DexPlatform;
+  /** Base asset ID */
+  baseId: string;
+  baseSymbol: string;
+  /** Quote asset ID ('xch' for XCH) */
+  quoteId: string;
+  quoteSymbol: string;
+  /** Last price in quote units per base token */
+  price: number;
+  /** Price in XCH per base token, implied through the quote's XCH price (null if unknown) */
+  priceXch: number | null;
+  /** 24-hour volume in quote units */
+  volume24h: number;
+  /** 24-hour volume in XCH (null if the quote has no XCH price) */
+  volume24hXch: number | null;
+  /** 7-day volume in XCH (null if the quote has no XCH price) */
+  volume7dXch: number | null;
+}
+
 /**
  * Extended token information for detail view
  */
@@ -333,15 +1259,56 @@ export interface TokenDetail extends DashboardToken {
   description?: string;
   /** Token website URL if available */
   website?: string;
-  /** Liquidity information */
+  /** Liquidity information (XCH tradable within ±2% of mid) */
   liquidity: {
     /** Total liquidity in XCH */
     totalXch: number;
     /** Total liquidity in USD */
     totalUsd: number;
   };
-  /** Market capitalization in USD if available */
-  marketCap?: number;
+  /** Supply figures, if a supply provider knows the token */
+  supply?: TokenSupply;
+  /** Circulating supply × price, in XCH */
+  marketCapXch?: number;
+  /** Circulating supply × price, in USD */
+  marketCapUsd?: number;
+  /** Total supply × price (fully diluted value), in XCH */
+  fdvXch?: number;
+  /** Total supply × price (fully diluted value), in USD */
+  fdvUsd?: number;
+  /** Every market the token trades in, XCH and non-XCH quotes */
+  pairs?: MarketPair[];
+}
+
+/**
+ * Supply figures of a token, in whole tokens (not mojos)
+ */
+export interface TokenSupply {
+  tokenId: string;
+  /** Tokens in circulation (total minus locked/treasury holdings) */
+  circulating: number | null;
+  /** All tokens ever minted minus burned */
+  total: number | null;
+  /** IDs of the providers the figures came from */
+  sources: string[];
+  updatedAt: string;
+}
+
+/**
+ * Pluggable source of token supply figures
+ */
+export interface SupplyProvider {
+  /** Unique provider ID (e.g. 'local', 'chiaRpc') */
+  id: string;
+  /** Human-readable name */
+  label: string;
+  /**
+   * Look up a token's supply. Either figure may be null when the provider
+   * does not know it; data null means the token is unknown to the provider.
+   */
+  getSupply: (
+    tokenId: string
+  ) => Promise<Result<Pick<TokenSupply, 'circulating' | 'total'> | null>>;
 }
 
 // =============================================================================
@@ -399,6 +1366,16 @@ export interface AdvancedFilters {
     min: number;
     max: number;
   };
+  /** Filter by bid/ask spread percentage range */
+  spreadRange?: {
+    min: number;
+    max: number;
+  };
+  /** Filter by ±2% liquidity range (in XCH) */
+  liquidityRange?: {
+    min: number;
+    max: number;
+  };
   /** Only show tokens in watchlist */
   onlyWatchlist?: boolean;
 }
@@ -437,6 +1414,24 @@ export type ViewMode = 'table' | 'card' | 'compact';
 // Hook Return Types (Extended)
 // =============================================================================
 
+/**
+ * Return type for useCurrency hook
+ */
+export interface UseCurrencyResult {
+  /** Currency amounts are shown in (USD until a rate for the selection is known) */
+  currency: FiatCurrency;
+  /** Currency chosen by the user */
+  selectedCurrency: FiatCurrency;
+  /** Whether exchange rates have been received */
+  hasRates: boolean;
+  /** Select the display currency */
+  setCurrency: (currency: FiatCurrency) => void;
+  /** Convert a USD amount into the display currency */
+  convert: (amountUsd: number) => number;
+  /** Format a USD amount in the display currency */
+  formatMoney: (amountUsd: number) => string;
+}
+
 /**
  * Return type for useWatchlist hook
  */
@@ -467,6 +1462,10 @@ export interface UseAdvancedFiltersResult {
   setVolumeRange: (min: number, max: number) => void;
   /** Set change range filter */
   setChangeRange: (min: number, max: number) => void;
+  /** Set spread range filter (both bounds undefined clears it) */
+  setSpreadRange: (min?: number, max?: number) => void;
+  /** Set liquidity range filter */
+  setLiquidityRange: (min: number, max: number) => void;
   /** Set watchlist filter */
   setOnlyWatchlist: (enabled: boolean) => void;
   /** Clear all filters */
@@ -14,4 +14,5 @@ export { useSort } from './useSort';
 export { useWatchlist } from './useWatchlist';
 export { useAdvancedFilters } from './useAdvancedFilters';
 export { usePagination, PAGE_SIZE_OPTIONS, calculatePagination, getPageRange } from './usePagination';
-export { useChartData, useChartDataWithFetch } from './useChartData';
+export { useChartData } from './useChartData';
+export { useCurrency } from './useCurrency';
@@ -22,6 +22,8 @@ const DEFAULT_FILTERS: AdvancedFilters = {
   priceRange: undefined,
   volumeRange: undefined,
   changeRange: undefined,
+  spreadRange: undefined,
+  liquidityRange: undefined,
   onlyWatchlist: false,
 };
 
@@ -57,6 +59,25 @@ export function useAdvancedFilters(): UseAdvancedFiltersResult {
     }));
   }, []);
 
+  // Set spread range filter (no bounds clears it, a missing bound is open)
+  const setSpreadRange = useCallback((min?: number, max?: number): void => {
+    setFilters((prev) => ({
+      ...prev,
+      spreadRange:
+        min === undefined && max === undefined
+          ? undefined
+          : { min: min ?? 0, max: max ?? Infinity },
+    }));
+  }, []);
+
+  // Set liquidity range filter
+  const setLiquidityRange = useCallback((min: number, max: number): void => {
+    setFilters((prev) => ({
+      ...prev,
+      liquidityRange: min === 0 && max === 0 ? undefined : { min, max },
+    }));
+  }, []);
+
   // Set watchlist-only filter
   const setOnlyWatchlist = useCallback((enabled: boolean): void => {
     setFilters((prev) => ({
@@ -104,6 +125,27 @@ export function useAdvancedFilters(): UseAdvancedFiltersResult {
           }
         }
 
+        // Spread range filter (tokens without a two-sided book never match)
+        if (filters.spreadRange) {
+          if (
+            token.spreadPct === undefined ||
+            token.spreadPct < filters.spreadRange.min ||
+            token.spreadPct > filters.spreadRange.max
+          ) {
+            return false;
+          }
+        }
+
+        // Liquidity range filter (XCH tradable within ±2% of mid)
+        if (filters.liquidityRange) {
+          if (
+            token.liquidityXch < filters.liquidityRange.min ||
+            token.liquidityXch > filters.liquidityRange.max
+          ) {
+            return false;
+          }
+        }
+
         // Watchlist filter
         if (filters.onlyWatchlist) {
           if (!watchlist.includes(token.id)) {
@@ -123,6 +165,8 @@ export function useAdvancedFilters(): UseAdvancedFiltersResult {
       filters.priceRange !== undefined ||
       filters.volumeRange !== undefined ||
       filters.changeRange !== undefined ||
+      filters.spreadRange !== undefined ||
+      filters.liquidityRange !== undefined ||
       filters.onlyWatchlist === true
     );
   }, [filters]);
@@ -132,6 +176,8 @@ export function useAdvancedFilters(): UseAdvancedFiltersResult {
     setPriceRange,
     setVolumeRange,
     setChangeRange,
+    setSpreadRange,
+    setLiquidityRange,
     setOnlyWatchlist,
     clearFilters,
     applyFilters,
@@ -0,0 +1,54 @@
+'use client';
+
+/**
+ * useCurrency Hook
+ *
+ * Display currency shared by every component: the selected fiat currency,
+ * a setter, and formatters that convert USD amounts into it.
+ *
+ * @module hooks/useCurrency
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { UseCurrencyResult } from '@/contracts/types';
+import {
+  convertFromUsd,
+  getCurrencyState,
+  getEffectiveCurrency,
+  getServerCurrencyState,
+  setDisplayCurrency,
+  subscribeCurrency,
+} from '@/lib/currency';
+import { formatFiat } from '@/lib/transform';
+
+/**
+ * Hook for reading and changing the display currency
+ *
+ * @returns UseCurrencyResult with the currency and formatters
+ */
+export function useCurrency(): UseCurrencyResult {
+  const state = useSyncExternalStore(
+    subscribeCurrency,
+    getCurrencyState,
+    getServerCurrencyState
+  );
+  const currency = getEffectiveCurrency(state);
+
+  // Convert a USD amount into the display currency
+  const convert = useCallback((amountUsd: number) => convertFromUsd(amountUsd, state), [state]);
+
+  // Format a USD amount in the display currency
+  const formatMoney = useCallback(
+    (amountUsd: number) => formatFiat(convertFromUsd(amountUsd, state), currency),
+    [state, currency]
+  );
+
+  return {
+    currency,
+    selectedCurrency: state.currency,
+    hasRates: state.rates !== null,
+    setCurrency: setDisplayCurrency,
+    convert,
+    formatMoney,
+  };
+}
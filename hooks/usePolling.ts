@@ -63,7 +63,8 @@ export function usePolling({
 
       prevDataRef.current = newData;
       setData(newData);
-      setLastUpdated(new Date());
+      // Cached responses can be older than this request
+      setLastUpdated(new Date(newData.fetchedAt));
     } catch (err) {
       setError(err instanceof Error ? err : new Error('Unknown error'));
     } finally {
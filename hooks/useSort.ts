@@ -26,8 +26,8 @@ export function useSort(
       const { field, direction } = sortConfig;
       const multiplier = direction === 'asc' ? 1 : -1;
 
-      let aValue: string | number;
-      let bValue: string | number;
+      let aValue: string | number | undefined;
+      let bValue: string | number | undefined;
 
       switch (field) {
         case 'name':
@@ -78,10 +78,32 @@ export function useSort(
           aValue = a.liquidityUsd;
           bValue = b.liquidityUsd;
           break;
+        case 'liquidity5pctXch':
+          aValue = a.liquidity5pctXch;
+          bValue = b.liquidity5pctXch;
+          break;
+        case 'bestBid':
+          aValue = a.bestBid;
+          bValue = b.bestBid;
+          break;
+        case 'bestAsk':
+          aValue = a.bestAsk;
+          bValue = b.bestAsk;
+          break;
+        case 'spreadPct':
+          aValue = a.spreadPct;
+          bValue = b.spreadPct;
+          break;
         default:
           return 0;
       }
 
+      // Tokens without a value (e.g. no order book) always sort last
+      if (aValue === undefined || bValue === undefined) {
+        if (aValue === bValue) return 0;
+        return aValue === undefined ? 1 : -1;
+      }
+
       if (aValue < bValue) return -1 * multiplier;
       if (aValue > bValue) return 1 * multiplier;
       return 0;
@@ -0,0 +1,196 @@
+/**
+ * AMM Quote Engine
+ *
+ * Quotes swaps against TibetSwap's constant-product pools (x * y = k).
+ * The fee is taken from the input amount before it enters the curve,
+ * matching TibetSwap's 0.7% liquidity provider fee.
+ *
+ * @module lib/amm-quote
+ */
+
+import { AmmPool, AmmQuote, Result, SwapInputAsset } from '@/contracts/types';
+import { TibetSwapPair, fetchTibetSwapPairs } from './tibetswap-api';
+import { fetchTokenRegistry, getTokenDenom } from './token-registry';
+
+/**
+ * TibetSwap fee taken from every swap input
+ */
+export const TIBETSWAP_FEE_RATE = 0.007;
+
+/**
+ * Mojos per XCH
+ */
+const MOJOS_PER_XCH = 1e12;
+
+/**
+ * Curve result of a swap, before it is attached to a pair
+ */
+export interface SwapResult {
+  outputAmount: number;
+  spotPrice: number;
+  effectivePrice: number;
+  priceImpact: number;
+  feeAmount: number;
+  priceAfter: number;
+}
+
+/**
+ * Convert a TibetSwap pair into a pool in whole units
+ *
+ * @param pair - TibetSwap pair (reserves in mojos)
+ * @param tokenDenom - Token mojos per token (from the token registry)
+ */
+export function getPoolFromPair(pair: TibetSwapPair, tokenDenom: number): AmmPool {
+  return {
+    xchReserve: pair.xch_reserve / MOJOS_PER_XCH,
+    tokenReserve: pair.token_reserve / tokenDenom,
+    feeRate: TIBETSWAP_FEE_RATE,
+  };
+}
+
+/**
+ * Get the pool price in XCH per token
+ */
+export function getSpotPrice(pool: AmmPool): number {
+  return pool.tokenReserve > 0 ? pool.xchReserve / pool.tokenReserve : 0;
+}
+
+/**
+ * Quote an exact-input swap
+ *
+ * @param pool - Pool reserves
+ * @param inputAsset - 'xch' to buy the token, 'token' to sell it
+ * @param inputAmount - Amount sent in, in units of the input asset
+ * @returns Swap result, or null if the pool is empty or the amount invalid
+ */
+export function quoteExactInput(
+  pool: AmmPool,
+  inputAsset: SwapInputAsset,
+  inputAmount: number
+): SwapResult | null {
+  if (!(inputAmount > 0) || pool.xchReserve <= 0 || pool.tokenReserve <= 0) {
+    return null;
+  }
+
+  const reserveIn = inputAsset === 'xch' ? pool.xchReserve : pool.tokenReserve;
+  const reserveOut = inputAsset === 'xch' ? pool.tokenReserve : pool.xchReserve;
+
+  const feeAmount = inputAmount * pool.feeRate;
+  const inputAfterFee = inputAmount - feeAmount;
+  const outputAmount = (reserveOut * inputAfterFee) / (reserveIn + inputAfterFee);
+
+  const spotPrice = getSpotPrice(pool);
+  const xchAfter =
+    inputAsset === 'xch' ? pool.xchReserve + inputAmount : pool.xchReserve - outputAmount;
+  const tokenAfter =
+    inputAsset === 'xch' ? pool.tokenReserve - outputAmount : pool.tokenReserve + inputAmount;
+
+  // XCH per token, with and without the fee
+  const effectivePrice =
+    inputAsset === 'xch' ? inputAmount / outputAmount : outputAmount / inputAmount;
+  const priceExFee =
+    inputAsset === 'xch' ? inputAfterFee / outputAmount : outputAmount / inputAfterFee;
+
+  return {
+    outputAmount,
+    spotPrice,
+    effectivePrice,
+    priceImpact: (Math.abs(priceExFee - spotPrice) / spotPrice) * 100,
+    feeAmount,
+    priceAfter: tokenAfter > 0 ? xchAfter / tokenAfter : 0,
+  };
+}
+
+/**
+ * Quote an exact-output swap (how much must be sent to receive an amount)
+ *
+ * @param pool - Pool reserves
+ * @param inputAsset - 'xch' to buy the token, 'token' to sell it
+ * @param outputAmount - Amount to receive, in units of the other asset
+ * @returns Required input amount, or null if the pool cannot provide it
+ */
+export function getRequiredInput(
+  pool: AmmPool,
+  inputAsset: SwapInputAsset,
+  outputAmount: number
+): number | null {
+  const reserveIn = inputAsset === 'xch' ? pool.xchReserve : pool.tokenReserve;
+  const reserveOut = inputAsset === 'xch' ? pool.tokenReserve : pool.xchReserve;
+
+  if (!(outputAmount > 0) || outputAmount >= reserveOut || reserveIn <= 0) {
+    return null;
+  }
+
+  const inputAfterFee = (reserveIn * outputAmount) / (reserveOut - outputAmount);
+  return inputAfterFee / (1 - pool.feeRate);
+}
+
+/**
+ * Find a token's TibetSwap pair and build its pool
+ *
+ * Reserves are converted with the token's registry denomination.
+ *
+ * @param tokenId - Token asset ID
+ * @returns Pair and pool, or an error if the token has no pair
+ */
+export async function fetchPoolForToken(
+  tokenId: string
+): Promise<Result<{ pair: TibetSwapPair; pool: AmmPool }>> {
+  const [pairsResult, registryResult] = await Promise.all([
+    fetchTibetSwapPairs(),
+    fetchTokenRegistry(),
+  ]);
+
+  if (!pairsResult.success) {
+    return pairsResult;
+  }
+
+  const pair = pairsResult.data.find((p) => p.asset_id === tokenId);
+  if (!pair) {
+    return { success: false, error: new Error('No TibetSwap pair for this token') };
+  }
+
+  if (!registryResult.success) {
+    return registryResult;
+  }
+
+  const denom = getTokenDenom(registryResult.data, tokenId);
+  return { success: true, data: { pair, pool: getPoolFromPair(pair, denom) } };
+}
+
+/**
+ * Quote a swap on a token's TibetSwap pool
+ *
+ * @param tokenId - Token asset ID
+ * @param inputAsset - 'xch' to buy the token, 'token' to sell it
+ * @param inputAmount - Amount sent in, in units of the input asset
+ * @returns Quote, or an error if there is no pool or the amount cannot be swapped
+ */
+export async function quoteSwap(
+  tokenId: string,
+  inputAsset: SwapInputAsset,
+  inputAmount: number
+): Promise<Result<AmmQuote>> {
+  const poolResult = await fetchPoolForToken(tokenId);
+  if (!poolResult.success) {
+    return poolResult;
+  }
+
+  const { pair, pool } = poolResult.data;
+  const result = quoteExactInput(pool, inputAsset, inputAmount);
+  if (!result) {
+    return { success: false, error: new Error('Pool cannot quote this amount') };
+  }
+
+  return {
+    success: true,
+    data: {
+      tokenId,
+      pairId: pair.pair_id,
+      inputAsset,
+      inputAmount,
+      feeRate: pool.feeRate,
+      ...result,
+    },
+  };
+}
@@ -0,0 +1,281 @@
+/**
+ * Arbitrage Scanner
+ *
+ * Finds tokens whose Dexie top of book and TibetSwap pool price are far
+ * enough apart to trade across them: buy on TibetSwap and sell into the
+ * Dexie bids, or buy the Dexie asks and sell into the pool.
+ *
+ * Profit is estimated for a chosen XCH size. The TibetSwap leg is quoted on
+ * the pool curve (fee and price impact included); the Dexie leg walks the
+ * market depth ladder from the best bid/ask (fillCurve). When the ladder
+ * cannot absorb the size, the size is capped at its depth and the
+ * opportunity is flagged isSizeCapped. The smallest divergence listed is
+ * set with ARBITRAGE_MIN_DIVERGENCE_PCT (default 2).
+ *
+ * @module lib/arbitrage
+ */
+
+import {
+  AmmPool,
+  ArbitrageOpportunity,
+  ArbitrageScan,
+  DashboardToken,
+  DepthCurve,
+  DepthPoint,
+  Result,
+} from '@/contracts/types';
+import { getPoolFromPair, getRequiredInput, getSpotPrice, quoteExactInput } from './amm-quote';
+import { fetchDashboardData } from './data-fetcher';
+import { fetchMarkets } from './dexie-api';
+import { getMarketDepthCurve } from './sources/dexie';
+import { getDexieSwapLink, getTibetSwapLink } from './dex-links';
+import { fetchTibetSwapPairs } from './tibetswap-api';
+import { fetchTokenRegistry, getTokenDenom } from './token-registry';
+
+/**
+ * XCH spent on the buy leg when no size is requested
+ */
+export const DEFAULT_ARBITRAGE_SIZE_XCH = 10;
+
+/**
+ * Smallest divergence (%) listed when no threshold is requested
+ */
+export const DEFAULT_MIN_DIVERGENCE_PCT =
+  Number(process.env.ARBITRAGE_MIN_DIVERGENCE_PCT) || 2;
+
+/**
+ * Amounts traded on one side of a depth curve
+ */
+interface CurveFill {
+  /** XCH side of the fill */
+  xch: number;
+  tokens: number;
+}
+
+/**
+ * Walk one side of a depth curve, best price first, until `limit` of the
+ * given asset is traded
+ *
+ * Each step between two points trades its XCH at the point's marginal
+ * price; the last step is filled partially. Stops short of `limit` when
+ * the curve runs out.
+ */
+function fillCurve(points: DepthPoint[], limit: number, limitAsset: 'xch' | 'token'): CurveFill {
+  let xch = 0;
+  let tokens = 0;
+  let previousXch = 0;
+
+  for (const point of points) {
+    const stepXch = point.cumulativeXch - previousXch;
+    const stepTokens = stepXch / point.price;
+    previousXch = point.cumulativeXch;
+
+    const remaining = limitAsset === 'xch' ? limit - xch : limit - tokens;
+    const stepAmount = limitAsset === 'xch' ? stepXch : stepTokens;
+    if (stepAmount >= remaining) {
+      const share = remaining / stepAmount;
+      return { xch: xch + stepXch * share, tokens: tokens + stepTokens * share };
+    }
+
+    xch += stepXch;
+    tokens += stepTokens;
+  }
+
+  return { xch, tokens };
+}
+
+/**
+ * Buy on TibetSwap with XCH, sell the tokens into the Dexie bids
+ *
+ * The size is capped so the tokens bought do not exceed what the bids absorb.
+ */
+function buyTibetSwap(
+  token: DashboardToken,
+  pool: AmmPool,
+  bids: DepthPoint[],
+  sizeXch: number
+): ArbitrageOpportunity | null {
+  const bestBid = bids[0].price;
+  const bidTokens = fillCurve(bids, Infinity, 'token').tokens;
+
+  let spentXch = sizeXch;
+  let swap = quoteExactInput(pool, 'xch', spentXch);
+  if (!swap) return null;
+
+  if (swap.outputAmount > bidTokens) {
+    const cappedXch = getRequiredInput(pool, 'xch', bidTokens);
+    swap = cappedXch ? quoteExactInput(pool, 'xch', cappedXch) : null;
+    if (!cappedXch || !swap) return null;
+    spentXch = cappedXch;
+  }
+
+  const sold = fillCurve(bids, swap.outputAmount, 'token');
+
+  return {
+    tokenId: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    iconUrl: token.iconUrl,
+    direction: 'buyTibetSwap',
+    dexiePrice: bestBid,
+    sizeXch: spentXch,
+    isSizeCapped: spentXch < sizeXch,
+    ammPrice: swap.spotPrice,
+    divergencePct: ((bestBid - swap.spotPrice) / swap.spotPrice) * 100,
+    buy: {
+      venue: 'tibetswap',
+      inputAmount: spentXch,
+      outputAmount: swap.outputAmount,
+      averagePrice: swap.effectivePrice,
+      url: getTibetSwapLink(token, 'buy').url,
+    },
+    sell: {
+      venue: 'dexie',
+      inputAmount: sold.tokens,
+      outputAmount: sold.xch,
+      averagePrice: sold.xch / sold.tokens,
+      url: getDexieSwapLink(token).url,
+    },
+    profitXch: sold.xch - spentXch,
+    profitPct: ((sold.xch - spentXch) / spentXch) * 100,
+    priceImpact: swap.priceImpact,
+    ammFeeXch: swap.feeAmount,
+  };
+}
+
+/**
+ * Buy the Dexie asks with XCH, sell the tokens into TibetSwap
+ *
+ * The size is capped at the XCH the asks can take.
+ */
+function buyDexie(
+  token: DashboardToken,
+  pool: AmmPool,
+  asks: DepthPoint[],
+  sizeXch: number
+): ArbitrageOpportunity | null {
+  const bestAsk = asks[0].price;
+  const bought = fillCurve(asks, sizeXch, 'xch');
+  const swap = quoteExactInput(pool, 'token', bought.tokens);
+  if (!swap || !(bought.xch > 0)) return null;
+
+  return {
+    tokenId: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    iconUrl: token.iconUrl,
+    direction: 'buyDexie',
+    dexiePrice: bestAsk,
+    sizeXch: bought.xch,
+    isSizeCapped: bought.xch < sizeXch,
+    ammPrice: swap.spotPrice,
+    divergencePct: ((swap.spotPrice - bestAsk) / bestAsk) * 100,
+    buy: {
+      venue: 'dexie',
+      inputAmount: bought.xch,
+      outputAmount: bought.tokens,
+      averagePrice: bought.xch / bought.tokens,
+      url: getDexieSwapLink(token).url,
+    },
+    sell: {
+      venue: 'tibetswap',
+      inputAmount: bought.tokens,
+      outputAmount: swap.outputAmount,
+      averagePrice: swap.effectivePrice,
+      url: getTibetSwapLink(token, 'sell').url,
+    },
+    profitXch: swap.outputAmount - bought.xch,
+    profitPct: ((swap.outputAmount - bought.xch) / bought.xch) * 100,
+    priceImpact: swap.priceImpact,
+    // Fee is taken in tokens on a sell - value it at the pool price
+    ammFeeXch: swap.feeAmount * swap.spotPrice,
+  };
+}
+
+/**
+ * Find the arbitrage between a token's Dexie book and its TibetSwap pool
+ *
+ * @param token - Token to scan
+ * @param pool - Token's TibetSwap pool
+ * @param depth - Token's Dexie depth curve (marginal prices, best first)
+ * @param sizeXch - XCH to spend on the buy leg
+ * @returns The direction the venue prices point to, or null if they do not cross
+ */
+export function findArbitrage(
+  token: DashboardToken,
+  pool: AmmPool,
+  depth: DepthCurve,
+  sizeXch: number
+): ArbitrageOpportunity | null {
+  const spotPrice = getSpotPrice(pool);
+  if (spotPrice <= 0) return null;
+
+  const candidates: ArbitrageOpportunity[] = [];
+
+  if (depth.bids.length > 0 && depth.bids[0].price > spotPrice) {
+    const opportunity = buyTibetSwap(token, pool, depth.bids, sizeXch);
+    if (opportunity) candidates.push(opportunity);
+  }
+  if (depth.asks.length > 0 && depth.asks[0].price < spotPrice) {
+    const opportunity = buyDexie(token, pool, depth.asks, sizeXch);
+    if (opportunity) candidates.push(opportunity);
+  }
+
+  // Both only apply to a crossed book - take the more profitable one
+  return candidates.sort((a, b) => b.profitXch - a.profitXch)[0] ?? null;
+}
+
+/**
+ * Scan every token with a Dexie book and a TibetSwap pool
+ *
+ * @param sizeXch - XCH spent on the buy leg
+ * @param minDivergencePct - Smallest venue divergence to list, in %
+ * @returns Result containing opportunities, most profitable first
+ */
+export async function scanArbitrage(
+  sizeXch = DEFAULT_ARBITRAGE_SIZE_XCH,
+  minDivergencePct = DEFAULT_MIN_DIVERGENCE_PCT
+): Promise<Result<ArbitrageScan>> {
+  const [dashboardResult, pairsResult, registryResult, marketsResult] = await Promise.all([
+    fetchDashboardData(),
+    fetchTibetSwapPairs(),
+    fetchTokenRegistry(),
+    fetchMarkets(),
+  ]);
+
+  if (!dashboardResult.success) return dashboardResult;
+  if (!pairsResult.success) return pairsResult;
+  if (!registryResult.success) return registryResult;
+  if (!marketsResult.success) return marketsResult;
+
+  const pairsByToken = new Map(pairsResult.data.map((pair) => [pair.asset_id, pair]));
+  const xchMarkets = marketsResult.data.find((group) => group.quote === 'xch')?.markets ?? [];
+  const marketsByToken = new Map(xchMarkets.map((market) => [market.id, market]));
+  const opportunities: ArbitrageOpportunity[] = [];
+
+  for (const token of dashboardResult.data.tokens) {
+    const pair = pairsByToken.get(token.id);
+    const market = marketsByToken.get(token.id);
+    if (!pair || !market) continue;
+
+    const pool = getPoolFromPair(pair, getTokenDenom(registryResult.data, token.id));
+    const opportunity = findArbitrage(token, pool, getMarketDepthCurve(market), sizeXch);
+
+    if (opportunity && opportunity.divergencePct >= minDivergencePct) {
+      opportunities.push(opportunity);
+    }
+  }
+
+  opportunities.sort((a, b) => b.profitXch - a.profitXch);
+
+  return {
+    success: true,
+    data: {
+      opportunities,
+      sizeXch,
+      minDivergencePct,
+      xchPriceUsd: dashboardResult.data.xchPriceUsd,
+      fetchedAt: dashboardResult.data.fetchedAt,
+    },
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Candle Aggregation Service
+ *
+ * Builds OHLCV candles from Dexie completed offers. Trades are crawled per
+ * token and cached in memory; candles are derived from the cached trades
+ * at an interval matching the requested chart timeframe.
+ *
+ * @module lib/candles
+ */
+
+import { ChartCandle, ChartTimeframe } from '@/contracts/types';
+import { fetchCompletedTrades, TokenTrade } from './dexie-offers';
+import { isAssetId } from './validators';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Candle interval and lookback for each timeframe
+ * (lookback null = all available history)
+ */
+const CANDLE_CONFIG: Record<ChartTimeframe, { intervalMs: number; lookbackMs: number | null }> = {
+  '1D': { intervalMs: 15 * MINUTE, lookbackMs: DAY },
+  '7D': { intervalMs: HOUR, lookbackMs: 7 * DAY },
+  '1M': { intervalMs: 4 * HOUR, lookbackMs: 30 * DAY },
+  '1Y': { intervalMs: DAY, lookbackMs: 365 * DAY },
+  ALL: { intervalMs: 7 * DAY, lookbackMs: null },
+};
+
+/**
+ * How long crawled trades are reused before crawling again
+ */
+const TRADE_CACHE_TTL = 5 * MINUTE;
+
+/**
+ * Most tokens whose trades are kept in memory (least recently crawled evicted first)
+ */
+const MAX_CACHED_TOKENS = 200;
+
+/**
+ * Cached trades for a token, valid back to `since`
+ */
+interface CachedTrades {
+  trades: TokenTrade[];
+  since: Date | null;
+  fetchedAt: number;
+}
+
+const tradeCache = new Map<string, CachedTrades>();
+
+/**
+ * Check whether a cache entry covers the requested cutoff
+ */
+function coversCutoff(entry: CachedTrades, since: Date | null): boolean {
+  if (entry.since === null) return true;
+  if (since === null) return false;
+  return entry.since <= since;
+}
+
+/**
+ * Cache a token's trades, evicting the oldest entries beyond the size limit
+ */
+function cacheTrades(tokenId: string, entry: CachedTrades): void {
+  // Re-insert so Map order stays oldest-crawl first
+  tradeCache.delete(tokenId);
+  tradeCache.set(tokenId, entry);
+
+  while (tradeCache.size > MAX_CACHED_TOKENS) {
+    const oldest = tradeCache.keys().next().value;
+    if (oldest === undefined) break;
+    tradeCache.delete(oldest);
+  }
+}
+
+/**
+ * Get completed trades for a token, crawling only when the cache is
+ * stale or does not reach back far enough
+ *
+ * @param tokenId - Token asset ID
+ * @param since - Oldest trade time needed (null = all history)
+ * @returns Trades in chronological order, newer than `since` (empty for an invalid asset ID)
+ * @throws Error when the crawl fails (nothing is cached)
+ */
+export async function getTrades(tokenId: string, since: Date | null): Promise<TokenTrade[]> {
+  if (!isAssetId(tokenId)) return [];
+
+  const cached = tradeCache.get(tokenId);
+  const isFresh = cached && Date.now() - cached.fetchedAt < TRADE_CACHE_TTL;
+
+  let entry = cached;
+  if (!entry || !isFresh || !coversCutoff(entry, since)) {
+    const trades = await fetchCompletedTrades(tokenId, since, since ? 10 : 25);
+    entry = { trades, since, fetchedAt: Date.now() };
+    cacheTrades(tokenId, entry);
+  }
+
+  if (!since) return entry.trades;
+  return entry.trades.filter((trade) => new Date(trade.timestamp) >= since);
+}
+
+/**
+ * Bucket trades into OHLCV candles
+ *
+ * @param trades - Trades in chronological order
+ * @param intervalMs - Candle interval in milliseconds
+ * @returns Candles for every interval that contains at least one trade
+ */
+export function buildCandles(trades: TokenTrade[], intervalMs: number): ChartCandle[] {
+  const candles: ChartCandle[] = [];
+  let current: ChartCandle | null = null;
+  let currentBucket = -1;
+
+  for (const trade of trades) {
+    const bucket = Math.floor(new Date(trade.timestamp).getTime() / intervalMs);
+
+    if (!current || bucket !== currentBucket) {
+      current = {
+        timestamp: new Date(bucket * intervalMs).toISOString(),
+        open: trade.priceXch,
+        high: trade.priceXch,
+        low: trade.priceXch,
+        close: trade.priceXch,
+        volume: 0,
+        trades: 0,
+      };
+      currentBucket = bucket;
+      candles.push(current);
+    }
+
+    current.high = Math.max(current.high, trade.priceXch);
+    current.low = Math.min(current.low, trade.priceXch);
+    current.close = trade.priceXch;
+    current.volume += trade.amountXch;
+    current.trades += 1;
+  }
+
+  return candles;
+}
+
+/**
+ * Get the candle interval of a timeframe, in ms
+ */
+export function getCandleInterval(timeframe: ChartTimeframe): number {
+  return CANDLE_CONFIG[timeframe].intervalMs;
+}
+
+/**
+ * Get OHLCV candles for a token and timeframe
+ *
+ * @param tokenId - Token asset ID
+ * @param timeframe - Chart timeframe, selects interval and lookback
+ * @returns Candles in chronological order (empty if the token never traded)
+ */
+export async function getCandles(
+  tokenId: string,
+  timeframe: ChartTimeframe
+): Promise<ChartCandle[]> {
+  const { intervalMs, lookbackMs } = CANDLE_CONFIG[timeframe];
+  const since = lookbackMs === null ? null : new Date(Date.now() - lookbackMs);
+
+  const trades = await getTrades(tokenId, since);
+  return buildCandles(trades, intervalMs);
+}
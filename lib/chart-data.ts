@@ -2,10 +2,9 @@
  * Chart Data Module
  *
  * Handles fetching and processing chart data for token price history.
- * Since Dexie API doesn't provide OHLC endpoint, we:
- * 1. Store price snapshots during polling in localStorage
- * 2. Build history incrementally over time
- * 3. For immediate display, use last price + high/low from market data
+ * History is recorded server-side on every dashboard fetch
+ * (see lib/price-history.ts) and served by /api/charts/[tokenId].
+ * Points are never synthesized: thin history is reported as such.
  *
  * @module lib/chart-data
  */
@@ -14,104 +13,16 @@ import {
   ChartData,
   ChartDataPoint,
   ChartTimeframe,
-  DashboardToken,
   Result,
 } from '@/contracts/types';
 
-const STORAGE_KEY_PREFIX = 'xch_chart_';
-const MAX_POINTS_PER_TOKEN = 1000;
-
-/**
- * Storage structure for historical price data
- */
-interface StoredChartHistory {
-  tokenId: string;
-  dataPoints: ChartDataPoint[];
-  lastUpdated: string;
-}
-
-/**
- * Get localStorage key for a token
- */
-function getStorageKey(tokenId: string): string {
-  return `${STORAGE_KEY_PREFIX}${tokenId}`;
-}
-
-/**
- * Load stored chart history from localStorage
- */
-function loadStoredHistory(tokenId: string): StoredChartHistory | null {
-  if (typeof window === 'undefined') return null;
-
-  try {
-    const stored = localStorage.getItem(getStorageKey(tokenId));
-    if (!stored) return null;
-    return JSON.parse(stored) as StoredChartHistory;
-  } catch {
-    return null;
-  }
-}
-
-/**
- * Save chart history to localStorage
- */
-function saveHistory(history: StoredChartHistory): void {
-  if (typeof window === 'undefined') return;
-
-  try {
-    // Trim to max points to prevent localStorage overflow
-    if (history.dataPoints.length > MAX_POINTS_PER_TOKEN) {
-      history.dataPoints = history.dataPoints.slice(-MAX_POINTS_PER_TOKEN);
-    }
-    localStorage.setItem(getStorageKey(history.tokenId), JSON.stringify(history));
-  } catch (error) {
-    console.warn('Failed to save chart history:', error);
-  }
-}
-
-/**
- * Add a new price point to stored history
- * Called during polling updates
- */
-export function addPricePoint(token: DashboardToken): void {
-  const history = loadStoredHistory(token.id) || {
-    tokenId: token.id,
-    dataPoints: [],
-    lastUpdated: new Date().toISOString(),
-  };
-
-  // Only add if price changed or 5+ minutes since last point
-  const lastPoint = history.dataPoints[history.dataPoints.length - 1];
-  const now = new Date();
-  const lastTime = lastPoint ? new Date(lastPoint.timestamp) : new Date(0);
-  const timeDiff = now.getTime() - lastTime.getTime();
-  const priceChanged = !lastPoint || lastPoint.price !== token.priceXch;
-
-  if (priceChanged || timeDiff >= 5 * 60 * 1000) {
-    history.dataPoints.push({
-      timestamp: now.toISOString(),
-      price: token.priceXch,
-      volume: token.volume24hXch,
-    });
-    history.lastUpdated = now.toISOString();
-    saveHistory(history);
-  }
-}
-
 /**
- * Batch add price points for multiple tokens
+ * Filter timestamped points by timeframe
  */
-export function addPricePoints(tokens: DashboardToken[]): void {
-  tokens.forEach(addPricePoint);
-}
-
-/**
- * Filter data points by timeframe
- */
-function filterByTimeframe(
-  dataPoints: ChartDataPoint[],
+export function filterByTimeframe<T extends { timestamp: string }>(
+  dataPoints: T[],
   timeframe: ChartTimeframe
-): ChartDataPoint[] {
+): T[] {
   const now = new Date();
   let cutoff: Date;
 
@@ -136,130 +47,32 @@ function filterByTimeframe(
   return dataPoints.filter((point) => new Date(point.timestamp) >= cutoff);
 }
 
-/**
- * Generate synthetic data points for display when history is limited
- * Uses high/low from current market data to create reasonable bounds
- */
-function generateSyntheticPoints(
-  token: DashboardToken,
-  timeframe: ChartTimeframe,
-  existingPoints: ChartDataPoint[]
-): ChartDataPoint[] {
-  const now = new Date();
-  const points: ChartDataPoint[] = [...existingPoints];
-
-  // If we have enough real data, return as-is
-  if (points.length >= 10) {
-    return points;
-  }
-
-  // Generate some synthetic historical points based on current price and 24h range
-  const priceRange = token.high24h - token.low24h;
-  const avgPrice = (token.high24h + token.low24h) / 2;
-
-  let numPoints: number;
-  let intervalMs: number;
-
-  switch (timeframe) {
-    case '1D':
-      numPoints = 24;
-      intervalMs = 60 * 60 * 1000; // 1 hour
-      break;
-    case '7D':
-      numPoints = 28;
-      intervalMs = 6 * 60 * 60 * 1000; // 6 hours
-      break;
-    case '1M':
-      numPoints = 30;
-      intervalMs = 24 * 60 * 60 * 1000; // 1 day
-      break;
-    case '1Y':
-      numPoints = 52;
-      intervalMs = 7 * 24 * 60 * 60 * 1000; // 1 week
-      break;
-    case 'ALL':
-    default:
-      numPoints = 100;
-      intervalMs = 7 * 24 * 60 * 60 * 1000; // 1 week
-      break;
-  }
-
-  // Only generate synthetic points if we have very few real ones
-  if (points.length < 5) {
-    // Generate points walking backward from current price
-    let currentPrice = token.priceXch;
-
-    for (let i = 0; i < numPoints - points.length; i++) {
-      const timestamp = new Date(now.getTime() - (i + 1) * intervalMs);
-
-      // Random walk with bias toward average price
-      const randomFactor = (Math.random() - 0.5) * priceRange * 0.3;
-      const biasFactor = (avgPrice - currentPrice) * 0.1;
-      currentPrice = Math.max(0.000001, currentPrice + randomFactor + biasFactor);
-
-      points.unshift({
-        timestamp: timestamp.toISOString(),
-        price: currentPrice,
-      });
-    }
-  }
-
-  // Always ensure current price is the last point
-  if (points.length === 0 || points[points.length - 1].price !== token.priceXch) {
-    points.push({
-      timestamp: now.toISOString(),
-      price: token.priceXch,
-      volume: token.volume24hXch,
-    });
-  }
-
-  return points.sort(
-    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-  );
-}
-
 /**
  * Fetch chart data for a specific token
  *
+ * Returns only recorded and trade-derived points; when history is thin the
+ * result has `hasSufficientHistory: false` instead of invented points.
+ *
  * @param tokenId - The token ID to fetch chart data for
  * @param timeframe - The timeframe to fetch
- * @param currentToken - Current token data for fallback/synthetic generation
  * @returns Chart data result
  */
 export async function fetchChartData(
   tokenId: string,
-  timeframe: ChartTimeframe,
-  currentToken?: DashboardToken
+  timeframe: ChartTimeframe
 ): Promise<Result<ChartData>> {
   try {
-    // Load stored history
-    const history = loadStoredHistory(tokenId);
-    let dataPoints = history?.dataPoints || [];
-
-    // Filter by timeframe
-    dataPoints = filterByTimeframe(dataPoints, timeframe);
-
-    // If we have current token data, generate synthetic points if needed
-    if (currentToken) {
-      dataPoints = generateSyntheticPoints(currentToken, timeframe, dataPoints);
-    }
+    const response = await fetch(`/api/charts/${tokenId}?timeframe=${timeframe}`);
+    const result = await response.json();
 
-    // If still no data points, return error
-    if (dataPoints.length === 0) {
+    if (!result.success || !result.data) {
       return {
         success: false,
-        error: new Error('No chart data available for this token'),
+        error: new Error(result.error || 'Failed to fetch chart data'),
       };
     }
 
-    const chartData: ChartData = {
-      tokenId,
-      timeframe,
-      dataPoints,
-      fetchedAt: new Date().toISOString(),
-    };
-
-    return { success: true, data: chartData };
+    return { success: true, data: result.data as ChartData };
   } catch (error) {
     return {
       success: false,
@@ -269,48 +82,36 @@ export async function fetchChartData(
 }
 
 /**
- * Clear stored chart data for a token
- */
-export function clearChartData(tokenId: string): void {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(getStorageKey(tokenId));
-}
-
-/**
- * Clear all stored chart data
- */
-export function clearAllChartData(): void {
-  if (typeof window === 'undefined') return;
-
-  const keysToRemove: string[] = [];
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key?.startsWith(STORAGE_KEY_PREFIX)) {
-      keysToRemove.push(key);
-    }
-  }
-  keysToRemove.forEach((key) => localStorage.removeItem(key));
-}
-
-/**
- * Get storage usage for chart data
+ * Split points into line segments wherever the spacing exceeds
+ * `gapFactor` times the expected interval, so missing history
+ * shows as a gap instead of an interpolated line
+ *
+ * @param dataPoints - Points in chronological order
+ * @param intervalMs - Expected spacing between points
+ * @param gapFactor - Multiple of the interval treated as a gap
+ * @returns Array of contiguous segments
  */
-export function getChartStorageInfo(): { tokenCount: number; totalSize: number } {
-  if (typeof window === 'undefined') return { tokenCount: 0, totalSize: 0 };
-
-  let tokenCount = 0;
-  let totalSize = 0;
-
-  for (let i = 0; i < localStorage.length; i++) {
-    const key = localStorage.key(i);
-    if (key?.startsWith(STORAGE_KEY_PREFIX)) {
-      tokenCount++;
-      const value = localStorage.getItem(key);
-      if (value) {
-        totalSize += value.length * 2; // UTF-16 chars = 2 bytes each
-      }
+export function splitAtGaps(
+  dataPoints: ChartDataPoint[],
+  intervalMs: number,
+  gapFactor = 3
+): ChartDataPoint[][] {
+  const segments: ChartDataPoint[][] = [];
+  let current: ChartDataPoint[] = [];
+
+  for (const point of dataPoints) {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      new Date(point.timestamp).getTime() - new Date(previous.timestamp).getTime() >
+        intervalMs * gapFactor
+    ) {
+      segments.push(current);
+      current = [];
     }
+    current.push(point);
   }
 
-  return { tokenCount, totalSize };
+  if (current.length > 0) segments.push(current);
+  return segments;
 }
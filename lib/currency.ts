@@ -0,0 +1,122 @@
+/**
+ * Currency Module
+ *
+ * Client-side display currency: the selected fiat currency (persisted in
+ * localStorage) and the latest USD exchange rates from the dashboard
+ * payload. Held in a small external store so every component using
+ * useCurrency re-renders when the selection or rates change.
+ *
+ * @module lib/currency
+ */
+
+import { FiatCurrency, FiatRates } from '@/contracts/types';
+
+const STORAGE_KEY = 'xch_dashboard_currency';
+
+/**
+ * Currencies offered in the selector
+ */
+export const SUPPORTED_CURRENCIES: FiatCurrency[] = ['USD', 'EUR', 'GBP'];
+
+/**
+ * Snapshot of the display currency state
+ */
+export interface CurrencyState {
+  /** Currency chosen by the user */
+  currency: FiatCurrency;
+  /** Latest rates, or null before any were received */
+  rates: FiatRates | null;
+}
+
+const SERVER_STATE: CurrencyState = { currency: 'USD', rates: null };
+
+let state: CurrencyState = SERVER_STATE;
+let loaded = false;
+const listeners = new Set<() => void>();
+
+function isFiatCurrency(value: unknown): value is FiatCurrency {
+  return SUPPORTED_CURRENCIES.includes(value as FiatCurrency);
+}
+
+function emit(next: CurrencyState): void {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Load the stored currency on first use in the browser
+ */
+function ensureLoaded(): void {
+  if (loaded || typeof window === 'undefined') return;
+  loaded = true;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isFiatCurrency(stored)) state = { ...state, currency: stored };
+  } catch {
+    // Storage unavailable - keep USD
+  }
+}
+
+/**
+ * Subscribe to currency changes (useSyncExternalStore contract)
+ */
+export function subscribeCurrency(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Current state in the browser
+ */
+export function getCurrencyState(): CurrencyState {
+  ensureLoaded();
+  return state;
+}
+
+/**
+ * State used while server rendering and hydrating (always USD)
+ */
+export function getServerCurrencyState(): CurrencyState {
+  return SERVER_STATE;
+}
+
+/**
+ * Select the display currency and persist the choice
+ */
+export function setDisplayCurrency(currency: FiatCurrency): void {
+  ensureLoaded();
+  if (state.currency === currency) return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, currency);
+  } catch (error) {
+    console.warn('Failed to save currency:', error);
+  }
+  emit({ ...state, currency });
+}
+
+/**
+ * Publish rates received from the server
+ */
+export function setFiatRates(rates: FiatRates | undefined): void {
+  ensureLoaded();
+  if (!rates || rates.fetchedAt === state.rates?.fetchedAt) return;
+  emit({ ...state, rates });
+}
+
+/**
+ * Currency amounts are actually shown in: the selection, or USD while no
+ * rate for it is known
+ */
+export function getEffectiveCurrency({ currency, rates }: CurrencyState): FiatCurrency {
+  return currency === 'USD' || rates?.rates[currency] ? currency : 'USD';
+}
+
+/**
+ * Convert a USD amount into the effective display currency
+ */
+export function convertFromUsd(amountUsd: number, currencyState: CurrencyState): number {
+  const currency = getEffectiveCurrency(currencyState);
+  return currency === 'USD' ? amountUsd : amountUsd * (currencyState.rates?.rates[currency] ?? 1);
+}
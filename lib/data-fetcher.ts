@@ -3,75 +3,92 @@
  *
  * Aggregates all data fetching into a single entry point.
  * Used by both server components and API routes.
- * Merges data from Dexie orderbook, TibetSwap AMM, and last trade prices.
+ * Merges data from every registered market data source (lib/sources).
  */
 
-import { DashboardData, Result } from '@/contracts/types';
-import { fetchAllDexieData } from './dexie-api';
-import { fetchTibetSwapPairs } from './tibetswap-api';
-import { fetchLastTradePrices } from './last-trade-prices';
-import { fetchXchUsdPrice } from './xch-price';
-import { mergeTokensAndMarkets } from './transform';
+import { CacheStats, DashboardData, Result } from '@/contracts/types';
+import { fetchTokenRegistry } from './token-registry';
+import { fetchXchUsdQuote } from './xch-price';
+import { fetchFiatRates } from './fiat-rates';
+import { mergeTokenQuotes } from './transform';
+import { fetchAllSources, normalizeAllSources } from './sources';
+import { getXchMarketSummary, recordDashboardSnapshot } from './price-history';
+import { createServerCache } from './server-cache';
+import { getDegradedUpstreams } from './upstream-health';
+import { getQuarantineReports } from './validators';
 
 /**
- * Fetch all dashboard data in parallel
+ * How long dashboard data is served from cache before revalidating
+ */
+const CACHE_TTL_MS = 25 * 1000;
+
+/**
+ * Oldest cached data served while a background refresh runs
+ */
+const CACHE_MAX_STALE_MS = 10 * 60 * 1000;
+
+/**
+ * Fetch all dashboard data from upstream in parallel
  *
- * This is the main entry point for fetching data.
- * It handles all API calls and data transformation.
- * Fetches from Dexie, TibetSwap, and price oracles.
+ * Fetches the token registry, every registered market data source, the XCH
+ * price oracle and fiat rates, then transforms and merges the results and
+ * summarizes the XCH price's last 24 hours from recorded history.
  *
  * @returns Result containing DashboardData or error
  */
-export async function fetchDashboardData(): Promise<Result<DashboardData>> {
+async function fetchDashboardDataFromUpstream(): Promise<Result<DashboardData>> {
   try {
     // Fetch all data in parallel
-    const [dexieData, tibetSwapResult, lastTradePricesResult, xchPriceResult] = await Promise.all([
-      fetchAllDexieData(),
-      fetchTibetSwapPairs(),
-      fetchLastTradePrices(),
-      fetchXchUsdPrice(),
+    const [registryResult, sourceResults, xchQuoteResult, fiatRatesResult] = await Promise.all([
+      fetchTokenRegistry(),
+      fetchAllSources(),
+      fetchXchUsdQuote(),
+      fetchFiatRates(),
     ]);
 
     // Check for critical failures
-    if (!dexieData.tokens.success) {
+    if (!registryResult.success) {
       return {
         success: false,
-        error: dexieData.tokens.error,
+        error: registryResult.error,
       };
     }
 
-    if (!dexieData.markets.success) {
-      return {
-        success: false,
-        error: dexieData.markets.error,
-      };
+    // Optional sources are skipped when they fail, required ones abort the fetch
+    for (const { source, result } of sourceResults) {
+      if (!result.success && source.required) {
+        return {
+          success: false,
+          error: result.error,
+        };
+      }
     }
 
     // XCH price always succeeds (has fallback)
-    const xchPriceUsd = xchPriceResult.success ? xchPriceResult.data : 25;
-
-    // TibetSwap is optional - use empty array if failed
-    const tibetSwapPairs = tibetSwapResult.success ? tibetSwapResult.data : [];
+    const xchPriceUsd = xchQuoteResult.success ? xchQuoteResult.data.priceUsd : 25;
+    const xchMarket = xchQuoteResult.success
+      ? await getXchMarketSummary(xchQuoteResult.data)
+      : undefined;
 
-    // Last trade prices are optional - use empty map if failed
-    const lastTradePrices = lastTradePricesResult.success ? lastTradePricesResult.data : new Map();
-
-    // Transform and merge data from all sources
-    const tokens = mergeTokensAndMarkets(
-      dexieData.tokens.data,
-      dexieData.markets.data,
-      xchPriceUsd,
-      tibetSwapPairs,
-      lastTradePrices
-    );
+    // Transform and merge quotes from all sources
+    const sourceQuotes = normalizeAllSources(sourceResults, { registry: registryResult.data });
+    const tokens = mergeTokenQuotes(registryResult.data, sourceQuotes, xchPriceUsd);
 
     const dashboardData: DashboardData = {
       tokens,
       xchPriceUsd,
       fetchedAt: new Date().toISOString(),
       isStale: false,
+      quarantine: getQuarantineReports(),
+      // Without rates the client shows USD only
+      fiatRates: fiatRatesResult.success ? fiatRatesResult.data : undefined,
+      xchMarket,
+      xchPriceIsFallback: !xchQuoteResult.success || xchQuoteResult.data.provider !== 'oracles',
     };
 
+    // Persist price history in the background - never delays the response
+    void recordDashboardSnapshot(dashboardData);
+
     return { success: true, data: dashboardData };
   } catch (error) {
     return {
@@ -84,11 +101,67 @@ export async function fetchDashboardData(): Promise<Result<DashboardData>> {
   }
 }
 
+// Shared by every request so concurrent polls trigger a single upstream fetch
+const dashboardCache = createServerCache(fetchDashboardDataFromUpstream, {
+  ttlMs: CACHE_TTL_MS,
+  maxStaleMs: CACHE_MAX_STALE_MS,
+});
+
+/**
+ * Fetch dashboard data through the shared server cache
+ *
+ * This is the main entry point for fetching data.
+ * Used by both server components and API routes. Serves cached data
+ * while it is fresh, revalidates expired data in the background, and
+ * keeps serving the last good data (isStale: true) when upstream fails.
+ *
+ * @returns Result containing DashboardData or error (only when nothing is cached)
+ */
+export async function fetchDashboardData(): Promise<Result<DashboardData>> {
+  const result = await dashboardCache.get();
+
+  if (!result.success) {
+    return result;
+  }
+
+  const { value, ageMs, isStale } = result.data;
+
+  return {
+    success: true,
+    data: { ...value, isStale, ageMs, degradedSources: getDegradedUpstreams() },
+  };
+}
+
+/**
+ * Check that a token is in the registry or on the dashboard
+ *
+ * Routes call this before reading history or paging Dexie, so arbitrary
+ * path segments cannot create history files or spend the Dexie rate budget.
+ */
+export async function isKnownToken(tokenId: string): Promise<boolean> {
+  const registryResult = await fetchTokenRegistry();
+  if (registryResult.success && registryResult.data.has(tokenId)) return true;
+
+  const dashboardResult = await fetchDashboardData();
+  return (
+    dashboardResult.success && dashboardResult.data.tokens.some((token) => token.id === tokenId)
+  );
+}
+
+/**
+ * Get hit/miss statistics of the dashboard data cache
+ */
+export function getDashboardCacheStats(): CacheStats {
+  return dashboardCache.stats();
+}
+
 /**
  * Fetch dashboard data with fallback to cached/empty state
  *
  * This version never throws and always returns data.
  * Useful for server components where we want to render something.
+ * Returns the last good snapshot when upstream fails; an empty token
+ * list only when nothing was ever fetched successfully.
  */
 export async function fetchDashboardDataSafe(): Promise<DashboardData> {
   const result = await fetchDashboardData();
@@ -97,13 +170,15 @@ export async function fetchDashboardDataSafe(): Promise<DashboardData> {
     return result.data;
   }
 
-  // Return empty state on failure
+  // Nothing cached yet - return empty state
   console.error('Failed to fetch dashboard data:', result.error);
 
   return {
     tokens: [],
     xchPriceUsd: 25, // Fallback price
+    xchPriceIsFallback: true,
     fetchedAt: new Date().toISOString(),
     isStale: true,
+    degradedSources: getDegradedUpstreams(),
   };
 }
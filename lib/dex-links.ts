@@ -18,13 +18,18 @@ const DEXIE_BASE_URL = 'https://dexie.space';
  */
 const TIBETSWAP_BASE_URL = 'https://tibetswap.io';
 
+/**
+ * Token fields needed to build swap links
+ */
+type LinkToken = Pick<DashboardToken, 'id' | 'symbol'>;
+
 /**
  * Generate Dexie swap link for a token
  *
  * @param token - The token to generate link for
  * @returns DexTradeLink for Dexie swap
  */
-export function getDexieSwapLink(token: DashboardToken): DexTradeLink {
+export function getDexieSwapLink(token: LinkToken): DexTradeLink {
   // Dexie uses token symbol for trading pairs
   const url = `${DEXIE_BASE_URL}/offers/${token.symbol}/XCH`;
 
@@ -35,6 +40,20 @@ export function getDexieSwapLink(token: DashboardToken): DexTradeLink {
   };
 }
 
+/**
+ * Generate a link to a single Dexie offer
+ *
+ * @param offerId - Dexie offer ID
+ * @returns DexTradeLink for taking the offer on Dexie
+ */
+export function getDexieOfferLink(offerId: string): DexTradeLink {
+  return {
+    platform: 'dexie',
+    url: `${DEXIE_BASE_URL}/offers/${offerId}`,
+    type: 'swap',
+  };
+}
+
 /**
  * Generate Dexie liquidity link for a token
  *
@@ -55,11 +74,18 @@ export function getDexieLiquidityLink(token: DashboardToken): DexTradeLink {
  * Generate TibetSwap swap link for a token
  *
  * @param token - The token to generate link for
+ * @param direction - 'buy' swaps XCH for the token, 'sell' the reverse
  * @returns DexTradeLink for TibetSwap swap
  */
-export function getTibetSwapLink(token: DashboardToken): DexTradeLink {
+export function getTibetSwapLink(
+  token: LinkToken,
+  direction: 'buy' | 'sell' = 'buy'
+): DexTradeLink {
   // TibetSwap uses asset IDs for trading
-  const url = `${TIBETSWAP_BASE_URL}/swap?from=xch&to=${token.id}`;
+  const url =
+    direction === 'buy'
+      ? `${TIBETSWAP_BASE_URL}/swap?from=xch&to=${token.id}`
+      : `${TIBETSWAP_BASE_URL}/swap?from=${token.id}&to=xch`;
 
   return {
     platform: 'tibetswap',
@@ -2,57 +2,35 @@
  * Dexie API Client
  *
  * Handles all communication with the Dexie DEX API.
- * Implements retry logic and error handling.
+ * Requests go through the shared upstream client (lib/http-client).
  */
 
 import {
   DexieTokenResponse,
   DexieMarketsResponse,
   DexieToken,
-  DexieMarket,
+  DexieQuoteGroup,
   Result,
 } from '@/contracts/types';
+import { withUpstream } from './upstream-health';
+import { upstreamRequest } from './http-client';
+import { validateRecords, validateDexieToken, validateDexieMarket } from './validators';
 
 const DEXIE_BASE_URL = 'https://api.dexie.space/v1';
-const DEFAULT_TIMEOUT = 10000; // 10 seconds
-const MAX_RETRIES = 2;
-
 /**
- * Fetch with timeout and retry logic
+ * Request a Dexie endpoint through the shared upstream client
+ * (timeouts, retries and rate limiting are handled there)
+ *
+ * @throws Error on a non-OK response
  */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit = {},
-  retries = MAX_RETRIES
-): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), DEFAULT_TIMEOUT);
+async function requestDexie(url: string, options: RequestInit = {}): Promise<Response> {
+  const response = await upstreamRequest(url, options);
 
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-
-    if (retries > 0 && error instanceof Error) {
-      // Exponential backoff
-      const delay = (MAX_RETRIES - retries + 1) * 1000;
-      await new Promise((resolve) => setTimeout(resolve, delay));
-      return fetchWithRetry(url, options, retries - 1);
-    }
-
-    throw error;
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
   }
+
+  return response;
 }
 
 /**
@@ -62,12 +40,13 @@ async function fetchWithRetry(
  */
 export async function fetchTokens(): Promise<Result<DexieToken[]>> {
   try {
-    const response = await fetchWithRetry(`${DEXIE_BASE_URL}/tokens`, {
-      next: { revalidate: 30 }, // ISR: revalidate every 30 seconds
+    const data = await withUpstream('dexie', async (): Promise<DexieTokenResponse> => {
+      const response = await requestDexie(`${DEXIE_BASE_URL}/tokens`, {
+        next: { revalidate: 30 }, // ISR: revalidate every 30 seconds
+      });
+      return response.json();
     });
 
-    const data: DexieTokenResponse = await response.json();
-
     if (!data.success || !Array.isArray(data.tokens)) {
       return {
         success: false,
@@ -75,12 +54,10 @@ export async function fetchTokens(): Promise<Result<DexieToken[]>> {
       };
     }
 
-    // Filter out tokens without essential data
-    const validTokens = data.tokens.filter(
-      (token) => token.id && token.code && token.name
-    );
+    // Drop tokens without essential data, repair the rest
+    const { records } = validateRecords('dexie-tokens', data.tokens, validateDexieToken);
 
-    return { success: true, data: validTokens };
+    return { success: true, data: records };
   } catch (error) {
     return {
       success: false,
@@ -89,18 +66,36 @@ export async function fetchTokens(): Promise<Result<DexieToken[]>> {
   }
 }
 
+/**
+ * In-flight markets request, shared by concurrent callers (several market
+ * data sources read the same response)
+ */
+let marketsInFlight: Promise<Result<DexieQuoteGroup[]>> | null = null;
+
 /**
  * Fetch all market data from Dexie API
  *
- * @returns Result containing array of markets or error
+ * Every quote group is returned: XCH first, then stablecoin and CAT quotes.
+ *
+ * @returns Result containing the markets of each quote group or error
  */
-export async function fetchMarkets(): Promise<Result<DexieMarket[]>> {
-  try {
-    const response = await fetchWithRetry(`${DEXIE_BASE_URL}/markets`, {
-      next: { revalidate: 30 }, // ISR: revalidate every 30 seconds
+export function fetchMarkets(): Promise<Result<DexieQuoteGroup[]>> {
+  if (!marketsInFlight) {
+    marketsInFlight = fetchMarketGroups().finally(() => {
+      marketsInFlight = null;
     });
+  }
+  return marketsInFlight;
+}
 
-    const data: DexieMarketsResponse = await response.json();
+async function fetchMarketGroups(): Promise<Result<DexieQuoteGroup[]>> {
+  try {
+    const data = await withUpstream('dexie', async (): Promise<DexieMarketsResponse> => {
+      const response = await requestDexie(`${DEXIE_BASE_URL}/markets`, {
+        next: { revalidate: 30 }, // ISR: revalidate every 30 seconds
+      });
+      return response.json();
+    });
 
     if (!data.success || !data.markets?.xch || !Array.isArray(data.markets.xch)) {
       return {
@@ -109,12 +104,20 @@ export async function fetchMarkets(): Promise<Result<DexieMarket[]>> {
       };
     }
 
-    // Filter out markets without essential price data
-    const validMarkets = data.markets.xch.filter(
-      (market) => market.id && market.prices?.last?.price !== undefined
-    );
+    const groups: DexieQuoteGroup[] = [];
+    const quotes = ['xch', ...Object.keys(data.markets).filter((quote) => quote !== 'xch')];
+
+    for (const quote of quotes) {
+      const markets: unknown = data.markets[quote];
+      if (!Array.isArray(markets)) continue;
+
+      // Drop markets without usable price data, repair the rest
+      const feed = quote === 'xch' ? 'dexie-markets' : `dexie-markets:${quote}`;
+      const { records } = validateRecords(feed, markets, validateDexieMarket);
+      groups.push({ quote, markets: records });
+    }
 
-    return { success: true, data: validMarkets };
+    return { success: true, data: groups };
   } catch (error) {
     return {
       success: false,
@@ -130,7 +133,7 @@ export async function fetchMarkets(): Promise<Result<DexieMarket[]>> {
  */
 export async function fetchAllDexieData(): Promise<{
   tokens: Result<DexieToken[]>;
-  markets: Result<DexieMarket[]>;
+  markets: Result<DexieQuoteGroup[]>;
 }> {
   const [tokens, markets] = await Promise.all([fetchTokens(), fetchMarkets()]);
 
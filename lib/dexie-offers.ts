@@ -0,0 +1,281 @@
+/**
+ * Dexie Offers Client
+ *
+ * Fetches offers for a single token from the Dexie /v1/offers endpoint
+ * and converts completed offers into trades (price + size).
+ *
+ * @module lib/dexie-offers
+ */
+
+import { DexieOffer, DexieOffersResponse } from '@/contracts/types';
+import { ClientRequestError, isClientErrorStatus, withUpstream } from './upstream-health';
+import { upstreamRequest } from './http-client';
+import { isAssetId } from './validators';
+
+const DEXIE_API = 'https://api.dexie.space/v1';
+
+/**
+ * Maximum page size accepted by the offers endpoint
+ */
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * A completed trade between a token and XCH
+ */
+export interface TokenTrade {
+  /** Offer ID */
+  offerId: string;
+  /** ISO timestamp when the offer was taken */
+  timestamp: string;
+  /** Price in XCH per token */
+  priceXch: number;
+  /** XCH side of the trade */
+  amountXch: number;
+  /** Token side of the trade */
+  amountToken: number;
+}
+
+/**
+ * Request a single page of offers in one direction
+ *
+ * @throws ClientRequestError for rejected input, Error for upstream failures
+ */
+async function requestOffersPage(
+  offered: string,
+  requested: string,
+  status: number,
+  pageSize: number,
+  page: number
+): Promise<DexieOffer[]> {
+  const data = await withUpstream('dexie-offers', async (): Promise<DexieOffersResponse> => {
+    const response = await upstreamRequest(
+      `${DEXIE_API}/offers?offered=${encodeURIComponent(offered)}&requested=${encodeURIComponent(requested)}&status=${status}&page_size=${pageSize}&page=${page}`,
+      { next: { revalidate: 30 } }
+    );
+
+    if (isClientErrorStatus(response.status)) {
+      throw new ClientRequestError(`Dexie offers API error: ${response.status}`, response.status);
+    }
+    if (!response.ok) {
+      throw new Error(`Dexie offers API error: ${response.status}`);
+    }
+
+    return response.json();
+  });
+
+  return data.offers || [];
+}
+
+/**
+ * Fetch a single page of offers in one direction (empty on failure)
+ */
+async function fetchOffersPage(
+  offered: string,
+  requested: string,
+  status: number,
+  pageSize: number,
+  page = 1
+): Promise<DexieOffer[]> {
+  try {
+    return await requestOffersPage(offered, requested, status, pageSize, page);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Fetch offers for a token in both directions (token offered and token requested)
+ *
+ * @param tokenId - Token asset ID
+ * @param status - Offer status (0 = active, 4 = completed)
+ * @param pageSize - Page size per direction
+ * @returns Offers from both directions, unsorted (empty for an invalid asset ID)
+ */
+export async function fetchOffers(
+  tokenId: string,
+  status: number,
+  pageSize: number
+): Promise<DexieOffer[]> {
+  if (!isAssetId(tokenId)) return [];
+
+  const [offered, requested] = await Promise.all([
+    fetchOffersPage(tokenId, 'xch', status, pageSize),
+    fetchOffersPage('xch', tokenId, status, pageSize),
+  ]);
+
+  return [...offered, ...requested];
+}
+
+/**
+ * Offers of a token read page by page
+ */
+export interface PagedOffers {
+  offers: DexieOffer[];
+  /** True when a direction hit the page limit or a page failed */
+  truncated: boolean;
+}
+
+/**
+ * Fetch every offer of a token in both directions
+ *
+ * The offers endpoint is not sorted by price, so a book needs all pages:
+ * each direction is paged until a short page, up to `maxPages`.
+ *
+ * @param tokenId - Token asset ID
+ * @param status - Offer status (0 = active, 4 = completed)
+ * @param maxPages - Page limit per direction
+ * @returns Offers from both directions, unsorted, and whether any are missing
+ */
+export async function fetchAllOffers(
+  tokenId: string,
+  status: number,
+  maxPages: number
+): Promise<PagedOffers> {
+  if (!isAssetId(tokenId)) return { offers: [], truncated: false };
+
+  const pageDirection = async (offered: string, requested: string): Promise<PagedOffers> => {
+    const offers: DexieOffer[] = [];
+
+    for (let page = 1; page <= maxPages; page++) {
+      let pageOffers: DexieOffer[];
+      try {
+        pageOffers = await requestOffersPage(offered, requested, status, MAX_PAGE_SIZE, page);
+      } catch (error) {
+        console.warn(`Dexie offers page ${page} failed:`, error);
+        return { offers, truncated: true };
+      }
+
+      offers.push(...pageOffers);
+      if (pageOffers.length < MAX_PAGE_SIZE) return { offers, truncated: false };
+    }
+
+    return { offers, truncated: true };
+  };
+
+  const [offered, requested] = await Promise.all([
+    pageDirection(tokenId, 'xch'),
+    pageDirection('xch', tokenId),
+  ]);
+
+  return {
+    offers: [...offered.offers, ...requested.offers],
+    truncated: offered.truncated || requested.truncated,
+  };
+}
+
+/**
+ * Fetch one page of completed offers across all tokens, newest first
+ *
+ * Unlike the per-token helpers this throws on failure, so crawlers can
+ * stop without advancing their cursor. It has its own circuit breaker, so
+ * per-token requests for bad IDs cannot stall the crawler and a failing
+ * crawl cannot block token pages.
+ *
+ * @param page - Page number (1-based)
+ * @param pageSize - Offers per page
+ * @returns Completed offers on the page
+ */
+export async function fetchCompletedOffersPage(
+  page: number,
+  pageSize = MAX_PAGE_SIZE
+): Promise<DexieOffer[]> {
+  const data = await withUpstream('dexie-crawler', async (): Promise<DexieOffersResponse> => {
+    const response = await upstreamRequest(
+      `${DEXIE_API}/offers?status=4&page_size=${pageSize}&page=${page}`,
+      { cache: 'no-store' }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Dexie offers API error: ${response.status}`);
+    }
+
+    return response.json();
+  });
+
+  return data.offers || [];
+}
+
+/**
+ * Convert a completed offer into a trade for the given token
+ *
+ * @returns Trade, or null if the offer is not a completed token/XCH trade
+ */
+export function offerToTrade(offer: DexieOffer, tokenId: string): TokenTrade | null {
+  if (!offer.date_completed) return null;
+
+  const legs = [...offer.offered, ...offer.requested];
+  const tokenLeg = legs.find((asset) => asset.id === tokenId);
+  const xchLeg = legs.find((asset) => asset.id === 'xch');
+
+  if (!tokenLeg || !xchLeg || tokenLeg.amount <= 0 || xchLeg.amount <= 0) {
+    return null;
+  }
+
+  return {
+    offerId: offer.id,
+    timestamp: offer.date_completed,
+    priceXch: xchLeg.amount / tokenLeg.amount,
+    amountXch: xchLeg.amount,
+    amountToken: tokenLeg.amount,
+  };
+}
+
+/**
+ * Crawl completed trades for a token back to a cutoff date
+ *
+ * Pages through both offer directions until the oldest offer on a page
+ * is older than `since` or `maxPages` pages have been read. A failed page
+ * fails the whole crawl, so callers never mistake a partial crawl for the
+ * token's full trade history.
+ *
+ * @param tokenId - Token asset ID
+ * @param since - Oldest trade time to include (null = as far as maxPages allows)
+ * @param maxPages - Page limit per direction
+ * @returns Trades in chronological order (empty for an invalid asset ID)
+ * @throws Error when a page cannot be read
+ */
+export async function fetchCompletedTrades(
+  tokenId: string,
+  since: Date | null,
+  maxPages = 10
+): Promise<TokenTrade[]> {
+  if (!isAssetId(tokenId)) return [];
+
+  const crawlDirection = async (offered: string, requested: string): Promise<DexieOffer[]> => {
+    const offers: DexieOffer[] = [];
+
+    for (let page = 1; page <= maxPages; page++) {
+      const pageOffers = await requestOffersPage(offered, requested, 4, MAX_PAGE_SIZE, page);
+      offers.push(...pageOffers);
+
+      const oldest = pageOffers[pageOffers.length - 1]?.date_completed;
+      const reachedCutoff = since && oldest && new Date(oldest) < since;
+      if (pageOffers.length < MAX_PAGE_SIZE || reachedCutoff) break;
+    }
+
+    return offers;
+  };
+
+  const [offered, requested] = await Promise.all([
+    crawlDirection(tokenId, 'xch'),
+    crawlDirection('xch', tokenId),
+  ]);
+
+  const seen = new Set<string>();
+  const trades: TokenTrade[] = [];
+
+  for (const offer of [...offered, ...requested]) {
+    if (seen.has(offer.id)) continue;
+    seen.add(offer.id);
+
+    const trade = offerToTrade(offer, tokenId);
+    if (!trade) continue;
+    if (since && new Date(trade.timestamp) < since) continue;
+
+    trades.push(trade);
+  }
+
+  return trades.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Disk Store
+ *
+ * Minimal embedded JSON document store for server-side persistence.
+ * Documents are grouped into collections (one directory each) under the
+ * data directory, which defaults to `.store/` and can be moved with the
+ * XCH_DATA_DIR environment variable.
+ *
+ * Writes go to a temp file and are renamed into place, so a crash mid-write
+ * never leaves a truncated document behind.
+ *
+ * @module lib/disk-store
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+const DATA_DIR = process.env.XCH_DATA_DIR || path.join(process.cwd(), '.store');
+
+/**
+ * Get the root directory used for persisted data
+ */
+export function getDataDir(): string {
+  return DATA_DIR;
+}
+
+/**
+ * Build a filesystem-safe path for a document
+ */
+function getDocumentPath(collection: string, key: string): string {
+  const safeKey = key.replace(/[^a-zA-Z0-9_.-]/g, '_');
+  return path.join(DATA_DIR, collection, `${safeKey}.json`);
+}
+
+/**
+ * Read a document from a collection
+ *
+ * @param collection - Collection (directory) name
+ * @param key - Document key
+ * @returns Parsed document, or null if missing or unreadable
+ */
+export async function readDocument<T>(collection: string, key: string): Promise<T | null> {
+  try {
+    const contents = await fs.readFile(getDocumentPath(collection, key), 'utf8');
+    return JSON.parse(contents) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a document to a collection atomically
+ *
+ * @param collection - Collection (directory) name
+ * @param key - Document key
+ * @param value - JSON-serializable document
+ */
+export async function writeDocument<T>(collection: string, key: string, value: T): Promise<void> {
+  const filePath = getDocumentPath(collection, key);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * List document keys in a collection
+ *
+ * @param collection - Collection (directory) name
+ * @returns Array of document keys (empty if the collection does not exist)
+ */
+export async function listDocuments(collection: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(path.join(DATA_DIR, collection));
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length));
+  } catch {
+    return [];
+  }
+}
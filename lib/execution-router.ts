@@ -0,0 +1,277 @@
+/**
+ * Best-Execution Router
+ *
+ * Compares filling a swap on the Dexie order book, on the TibetSwap pool,
+ * and split across both. Dexie offers are all-or-nothing, so the book is
+ * walked offer by offer (cheapest first) and offers larger than the
+ * remaining size are skipped. For the split route every prefix of the
+ * book is tried with the remainder sent to the AMM, and the prefix with
+ * the largest total output wins.
+ *
+ * @module lib/execution-router
+ */
+
+import {
+  AmmPool,
+  BestExecutionResult,
+  DashboardToken,
+  ExecutionLeg,
+  ExecutionPlan,
+  ExecutionStrategy,
+  OrderBook,
+  OrderBookLevel,
+  Result,
+  SwapInputAsset,
+} from '@/contracts/types';
+import { fetchPoolForToken, getSpotPrice, quoteExactInput } from './amm-quote';
+import { fetchOrderBook } from './orderbook';
+import { fetchDashboardData } from './data-fetcher';
+import { getDexieOfferLink, getDexieSwapLink, getTibetSwapLink } from './dex-links';
+
+/**
+ * Tolerance for floating point comparisons of amounts
+ */
+const EPSILON = 1e-9;
+
+type LinkToken = Pick<DashboardToken, 'id' | 'symbol'>;
+
+/**
+ * Offers taken from the book for a given input budget
+ */
+interface BookFill {
+  inputUsed: number;
+  output: number;
+  offerIds: string[];
+}
+
+/**
+ * Walk order book levels (best first), taking every whole offer that fits
+ *
+ * @param levels - Asks when buying with XCH, bids when selling the token
+ * @param inputAsset - Asset being sent in
+ * @param budget - Input available
+ */
+function fillFromBook(
+  levels: OrderBookLevel[],
+  inputAsset: SwapInputAsset,
+  budget: number
+): BookFill {
+  const fill: BookFill = { inputUsed: 0, output: 0, offerIds: [] };
+
+  for (const level of levels) {
+    const cost = inputAsset === 'xch' ? level.amountXch : level.amountToken;
+    if (fill.inputUsed + cost > budget + EPSILON) continue;
+
+    fill.inputUsed += cost;
+    fill.output += inputAsset === 'xch' ? level.amountToken : level.amountXch;
+    fill.offerIds.push(level.offerId);
+  }
+
+  return fill;
+}
+
+/**
+ * Average price in XCH per token for an input/output pair
+ */
+function getAveragePrice(inputAsset: SwapInputAsset, input: number, output: number): number {
+  if (input <= 0 || output <= 0) return 0;
+  return inputAsset === 'xch' ? input / output : output / input;
+}
+
+/**
+ * Build the Dexie leg of a plan
+ */
+function createDexieLeg(fill: BookFill, inputAsset: SwapInputAsset, token: LinkToken): ExecutionLeg {
+  return {
+    venue: 'dexie',
+    inputAmount: fill.inputUsed,
+    outputAmount: fill.output,
+    averagePrice: getAveragePrice(inputAsset, fill.inputUsed, fill.output),
+    offerIds: fill.offerIds,
+    url:
+      fill.offerIds.length === 1
+        ? getDexieOfferLink(fill.offerIds[0]).url
+        : getDexieSwapLink(token).url,
+  };
+}
+
+/**
+ * Build the TibetSwap leg of a plan
+ *
+ * @returns Leg, or null if the pool cannot take the amount
+ */
+function createAmmLeg(
+  pool: AmmPool,
+  inputAsset: SwapInputAsset,
+  amount: number,
+  token: LinkToken
+): ExecutionLeg | null {
+  const quote = quoteExactInput(pool, inputAsset, amount);
+  if (!quote) return null;
+
+  return {
+    venue: 'tibetswap',
+    inputAmount: amount,
+    outputAmount: quote.outputAmount,
+    averagePrice: quote.effectivePrice,
+    url: getTibetSwapLink(token, inputAsset === 'xch' ? 'buy' : 'sell').url,
+  };
+}
+
+/**
+ * Combine legs into a plan
+ */
+function createPlan(
+  strategy: ExecutionStrategy,
+  legs: ExecutionLeg[],
+  inputAsset: SwapInputAsset,
+  requested: number,
+  referencePrice: number
+): ExecutionPlan {
+  const inputAmount = legs.reduce((sum, leg) => sum + leg.inputAmount, 0);
+  const outputAmount = legs.reduce((sum, leg) => sum + leg.outputAmount, 0);
+  const averagePrice = getAveragePrice(inputAsset, inputAmount, outputAmount);
+
+  let slippage = 0;
+  if (referencePrice > 0 && averagePrice > 0) {
+    const diff = inputAsset === 'xch' ? averagePrice - referencePrice : referencePrice - averagePrice;
+    slippage = (diff / referencePrice) * 100;
+  }
+
+  return {
+    strategy,
+    legs,
+    inputAmount,
+    outputAmount,
+    averagePrice,
+    slippage,
+    unfilledInput: Math.max(0, requested - inputAmount),
+  };
+}
+
+/**
+ * Compare execution strategies for a swap
+ *
+ * @param book - Token order book
+ * @param pool - TibetSwap pool, or null if the token has no pair
+ * @param inputAsset - 'xch' to buy the token, 'token' to sell it
+ * @param amount - Amount sent in, in units of the input asset
+ * @param token - Token ID and symbol, for deep links
+ * @returns Plans for every viable strategy and the best one
+ */
+export function compareExecution(
+  book: OrderBook,
+  pool: AmmPool | null,
+  inputAsset: SwapInputAsset,
+  amount: number,
+  token: LinkToken
+): BestExecutionResult {
+  const levels = inputAsset === 'xch' ? book.asks : book.bids;
+
+  // Best top-of-book price across venues
+  const topOfBook = levels[0]?.price ?? 0;
+  const spot = pool ? getSpotPrice(pool) : 0;
+  const candidates = [topOfBook, spot].filter((price) => price > 0);
+  const referencePrice =
+    candidates.length === 0
+      ? 0
+      : inputAsset === 'xch'
+        ? Math.min(...candidates)
+        : Math.max(...candidates);
+
+  const plans: ExecutionPlan[] = [];
+
+  // Dexie only
+  const bookFill = fillFromBook(levels, inputAsset, amount);
+  if (bookFill.inputUsed > 0) {
+    plans.push(
+      createPlan('dexie', [createDexieLeg(bookFill, inputAsset, token)], inputAsset, amount, referencePrice)
+    );
+  }
+
+  // TibetSwap only
+  const ammLeg = pool ? createAmmLeg(pool, inputAsset, amount, token) : null;
+  if (ammLeg) {
+    plans.push(createPlan('tibetswap', [ammLeg], inputAsset, amount, referencePrice));
+  }
+
+  // Split: best book prefix + remainder on the AMM
+  if (pool && levels.length > 0) {
+    let bestSplit: ExecutionPlan | null = null;
+
+    for (let k = 1; k <= levels.length; k++) {
+      const fill = fillFromBook(levels.slice(0, k), inputAsset, amount);
+      const remainder = amount - fill.inputUsed;
+      if (fill.inputUsed <= 0 || remainder <= EPSILON) continue;
+
+      const remainderLeg = createAmmLeg(pool, inputAsset, remainder, token);
+      if (!remainderLeg) continue;
+
+      const plan = createPlan(
+        'split',
+        [createDexieLeg(fill, inputAsset, token), remainderLeg],
+        inputAsset,
+        amount,
+        referencePrice
+      );
+      if (!bestSplit || plan.outputAmount > bestSplit.outputAmount) bestSplit = plan;
+    }
+
+    if (bestSplit) plans.push(bestSplit);
+  }
+
+  // Prefer plans that fill the whole size, then the largest output
+  const ranked = [...plans].sort((a, b) => {
+    const aFilled = a.unfilledInput <= EPSILON;
+    const bFilled = b.unfilledInput <= EPSILON;
+    if (aFilled !== bFilled) return aFilled ? -1 : 1;
+    return b.outputAmount - a.outputAmount;
+  });
+
+  return {
+    tokenId: book.tokenId,
+    inputAsset,
+    inputAmount: amount,
+    referencePrice,
+    best: ranked[0]?.strategy ?? null,
+    plans,
+    bookTruncated: book.truncated,
+    fetchedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Fetch the order book and pool for a token and compare execution
+ *
+ * @param tokenId - Token asset ID
+ * @param inputAsset - 'xch' to buy the token, 'token' to sell it
+ * @param amount - Amount sent in, in units of the input asset
+ * @returns Comparison, or an error if the token is unknown
+ */
+export async function findBestExecution(
+  tokenId: string,
+  inputAsset: SwapInputAsset,
+  amount: number
+): Promise<Result<BestExecutionResult>> {
+  // Resolve the token first - paging the Dexie book for an unknown ID is wasted work
+  const dashboardResult = await fetchDashboardData();
+  const dashboardToken = dashboardResult.success
+    ? dashboardResult.data.tokens.find((t) => t.id === tokenId)
+    : undefined;
+
+  if (!dashboardToken) {
+    return { success: false, error: new Error('Unknown token') };
+  }
+
+  const [book, poolResult] = await Promise.all([
+    fetchOrderBook(tokenId),
+    fetchPoolForToken(tokenId),
+  ]);
+
+  const pool = poolResult.success ? poolResult.data.pool : null;
+
+  return {
+    success: true,
+    data: compareExecution(book, pool, inputAsset, amount, dashboardToken),
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Fiat Rates Provider
+ *
+ * Fetches USD exchange rates for the fiat currencies prices can be shown
+ * in (EUR, GBP), from the ECB reference rates published by Frankfurter.
+ * XCH prices are still fetched in USD (lib/xch-price) and converted with
+ * these rates.
+ *
+ * @module lib/fiat-rates
+ */
+
+import { FiatCurrency, FiatRates, Result } from '@/contracts/types';
+import { withUpstream } from './upstream-health';
+import { upstreamRequest } from './http-client';
+
+const RATES_URL = 'https://api.frankfurter.app/latest?from=USD&to=EUR,GBP';
+
+// ECB reference rates are published once per working day
+const CACHE_TTL = 60 * 60 * 1000; // 1 hour cache
+
+let cachedRates: FiatRates | null = null;
+let cachedAt = 0;
+
+interface FrankfurterResponse {
+  base?: string;
+  rates?: Partial<Record<FiatCurrency, number>>;
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Fetch USD to EUR/GBP rates
+ *
+ * Serves the cached rates for an hour, and keeps serving them (however
+ * old) when the provider fails.
+ *
+ * @returns Result containing rates or error (only when nothing is cached)
+ */
+export async function fetchFiatRates(): Promise<Result<FiatRates>> {
+  if (cachedRates && Date.now() - cachedAt < CACHE_TTL) {
+    return { success: true, data: cachedRates };
+  }
+
+  try {
+    const data = await withUpstream('fiat-rates', async (): Promise<FrankfurterResponse> => {
+      const response = await upstreamRequest(RATES_URL, {
+        next: { revalidate: 3600 },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Fiat rates API error: ${response.status}`);
+      }
+
+      return response.json();
+    });
+
+    const eur = data.rates?.EUR;
+    const gbp = data.rates?.GBP;
+    if (data.base !== 'USD' || !isRate(eur) || !isRate(gbp)) {
+      throw new Error('Invalid response structure from fiat rates API');
+    }
+
+    cachedRates = {
+      rates: { USD: 1, EUR: eur, GBP: gbp },
+      source: 'ECB (frankfurter.app)',
+      fetchedAt: new Date().toISOString(),
+    };
+    cachedAt = Date.now();
+
+    return { success: true, data: cachedRates };
+  } catch (error) {
+    if (cachedRates) {
+      console.warn('Using expired cached fiat rates');
+      return { success: true, data: cachedRates };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Unknown error fetching fiat rates'),
+    };
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Upstream HTTP Client
+ *
+ * Shared client for every upstream API request. Per host it applies:
+ *
+ * - a request timeout
+ * - a concurrency limit (extra requests wait in a FIFO queue)
+ * - token-bucket rate limiting
+ * - retries with jittered exponential backoff on network errors,
+ *   timeouts and 5xx responses
+ * - 429/503 handling that honours the Retry-After header
+ *
+ * The timeout covers reading the body, which is buffered before the
+ * response is returned.
+ *
+ * Requests go through upstreamFetch, so fixture record/replay still applies.
+ *
+ * @module lib/http-client
+ */
+
+import { upstreamFetch } from './upstream-fetch';
+
+/**
+ * Limits applied to one upstream host
+ */
+interface HostConfig {
+  /** Abort a single attempt after this long */
+  timeoutMs: number;
+  /** Maximum requests in flight at once */
+  maxConcurrent: number;
+  /** Sustained requests per second */
+  ratePerSecond: number;
+  /** Requests that may be sent back to back before rate limiting kicks in */
+  burst: number;
+}
+
+/**
+ * Per-request overrides
+ */
+export interface UpstreamRequestOptions {
+  /** Retries after the first attempt (default 2) */
+  retries?: number;
+  /** Overrides the host timeout */
+  timeoutMs?: number;
+}
+
+const DEFAULT_HOST_CONFIG: HostConfig = {
+  timeoutMs: 10000,
+  maxConcurrent: 4,
+  ratePerSecond: 5,
+  burst: 10,
+};
+
+const HOST_CONFIG: Record<string, HostConfig> = {
+  'api.dexie.space': { timeoutMs: 10000, maxConcurrent: 6, ratePerSecond: 5, burst: 20 },
+  'api.v2.tibetswap.io': { timeoutMs: 8000, maxConcurrent: 2, ratePerSecond: 2, burst: 5 },
+  // Free CoinGecko tier allows roughly 30 requests per minute
+  'api.coingecko.com': { timeoutMs: 5000, maxConcurrent: 1, ratePerSecond: 0.5, burst: 3 },
+  'api.frankfurter.app': { timeoutMs: 5000, maxConcurrent: 1, ratePerSecond: 1, burst: 2 },
+  'www.okx.com': { timeoutMs: 5000, maxConcurrent: 1, ratePerSecond: 1, burst: 3 },
+};
+
+const DEFAULT_RETRIES = 2;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+/**
+ * Longest Retry-After we are willing to wait inside a request
+ */
+const MAX_RETRY_AFTER_MS = 15000;
+
+/**
+ * Runtime limiter state of one host
+ */
+interface HostState {
+  config: HostConfig;
+  active: number;
+  queue: (() => void)[];
+  tokens: number;
+  lastRefill: number;
+  /** Requests are held until this time after a 429 */
+  blockedUntil: number;
+}
+
+const hosts = new Map<string, HostState>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Get (or create) limiter state for a host
+ */
+function getHostState(host: string): HostState {
+  let state = hosts.get(host);
+  if (!state) {
+    const config = HOST_CONFIG[host] ?? DEFAULT_HOST_CONFIG;
+    state = {
+      config,
+      active: 0,
+      queue: [],
+      tokens: config.burst,
+      lastRefill: Date.now(),
+      blockedUntil: 0,
+    };
+    hosts.set(host, state);
+  }
+  return state;
+}
+
+/**
+ * Wait for a concurrency slot
+ */
+async function acquireSlot(state: HostState): Promise<void> {
+  if (state.active < state.config.maxConcurrent) {
+    state.active += 1;
+    return;
+  }
+  // The releasing request hands its slot over directly
+  await new Promise<void>((resolve) => state.queue.push(resolve));
+}
+
+/**
+ * Release a concurrency slot to the next queued request
+ */
+function releaseSlot(state: HostState): void {
+  const next = state.queue.shift();
+  if (next) {
+    next();
+  } else {
+    state.active -= 1;
+  }
+}
+
+/**
+ * Wait until the host's token bucket (and any 429 block) allows a request
+ */
+async function acquireToken(state: HostState): Promise<void> {
+  for (;;) {
+    const now = Date.now();
+    if (now < state.blockedUntil) {
+      await sleep(state.blockedUntil - now);
+      continue;
+    }
+
+    const elapsed = (now - state.lastRefill) / 1000;
+    state.tokens = Math.min(state.config.burst, state.tokens + elapsed * state.config.ratePerSecond);
+    state.lastRefill = now;
+
+    if (state.tokens >= 1) {
+      state.tokens -= 1;
+      return;
+    }
+
+    await sleep(((1 - state.tokens) / state.config.ratePerSecond) * 1000);
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+
+  return null;
+}
+
+/**
+ * Full-jitter exponential backoff delay for a retry attempt
+ */
+function getBackoffDelay(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+/**
+ * Statuses that must not carry a body when a response is rebuilt
+ */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Check whether a response is an upstream failure or rate limit
+ * (retried, and never parsed by callers)
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Run a single attempt with the host timeout
+ *
+ * The timeout covers the body as well as the headers: the body is read
+ * before the timer is cleared and the caller gets a buffered response, so
+ * a stalled body cannot hang `response.json()`. Bodies of retryable
+ * responses are discarded unread to free the connection.
+ */
+async function attemptRequest(url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await upstreamFetch(url, { ...init, signal: controller.signal });
+
+    let body: ArrayBuffer | null = null;
+    if (isRetryableStatus(response.status)) {
+      await response.body?.cancel();
+    } else if (!NULL_BODY_STATUSES.has(response.status)) {
+      body = await response.arrayBuffer();
+    }
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request to ${new URL(url).hostname} timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Request an upstream URL with the host's timeout, limits and retry policy
+ *
+ * Resolves with the final response, which may be non-OK (callers check
+ * `response.ok` as with fetch). The body is already buffered, so reading
+ * it never waits on the upstream; 429 and 5xx responses have no body.
+ * Rejects when every attempt failed with a network error or timeout.
+ *
+ * @param url - Absolute upstream URL
+ * @param init - Fetch options (including Next.js `next` cache options)
+ * @param options - Retry and timeout overrides
+ * @returns Upstream response
+ */
+export async function upstreamRequest(
+  url: string,
+  init: RequestInit = {},
+  options: UpstreamRequestOptions = {}
+): Promise<Response> {
+  const state = getHostState(new URL(url).hostname);
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const timeoutMs = options.timeoutMs ?? state.config.timeoutMs;
+
+  for (let attempt = 0; ; attempt++) {
+    const isLastAttempt = attempt >= retries;
+
+    // Fail fast instead of hanging a render behind a long Retry-After
+    if (state.blockedUntil - Date.now() > MAX_RETRY_AFTER_MS) {
+      throw new Error(
+        `${new URL(url).hostname} is rate limited until ${new Date(state.blockedUntil).toISOString()}`
+      );
+    }
+
+    await acquireSlot(state);
+    let response: Response;
+    try {
+      await acquireToken(state);
+      response = await attemptRequest(url, init, timeoutMs);
+    } catch (error) {
+      if (isLastAttempt) throw error;
+      await sleep(getBackoffDelay(attempt));
+      continue;
+    } finally {
+      releaseSlot(state);
+    }
+
+    // Retryable responses arrive with their body already cancelled
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      const delay = retryAfter ?? getBackoffDelay(attempt);
+
+      // Hold every request to this host, not just this one
+      state.blockedUntil = Math.max(state.blockedUntil, Date.now() + delay);
+
+      if (isLastAttempt || delay > MAX_RETRY_AFTER_MS) return response;
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.status >= 500 && !isLastAttempt) {
+      await sleep(getBackoffDelay(attempt));
+      continue;
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Liquidity Model
+ *
+ * Measures liquidity as the XCH that can be traded within a price band
+ * around the mid price (e.g. ±2%), summed over the buy and sell side and
+ * across venues. Unlike reserve or order-size totals, this is comparable
+ * between tokens: it is what a trader can actually fill before the price
+ * moves by the band.
+ *
+ * Order book venues supply a depth curve (cumulative XCH by price), AMM
+ * venues their pool reserves. AMM depth is measured on the curve before
+ * fees.
+ *
+ * @module lib/liquidity
+ */
+
+import { AmmPool, DepthCurve, DepthPoint, OrderBookLevel, TokenQuote } from '@/contracts/types';
+import { getSpotPrice } from './amm-quote';
+
+/**
+ * Price bands liquidity is reported for (0.02 = ±2%)
+ */
+export const LIQUIDITY_BANDS = { narrow: 0.02, wide: 0.05 } as const;
+
+/**
+ * Build a depth curve from order book levels (best price first)
+ */
+export function depthCurveFromLevels(
+  asks: OrderBookLevel[],
+  bids: OrderBookLevel[]
+): DepthCurve {
+  const toPoints = (levels: OrderBookLevel[]): DepthPoint[] => {
+    let cumulativeXch = 0;
+    return levels.map((level) => {
+      cumulativeXch += level.amountXch;
+      return { price: level.price, cumulativeXch };
+    });
+  };
+
+  return { asks: toPoints(asks), bids: toPoints(bids) };
+}
+
+/**
+ * XCH fillable on an order book within the band around mid
+ *
+ * Points carry marginal prices, best first: each side counts the depth up
+ * to the last point before the first one outside the band.
+ *
+ * @param curve - Depth curve of the venue
+ * @param midPrice - Reference mid price in XCH
+ * @param band - Band as a fraction (0.02 = ±2%)
+ * @returns Buy-side plus sell-side XCH
+ */
+export function curveDepthWithin(curve: DepthCurve, midPrice: number, band: number): number {
+  const maxAsk = midPrice * (1 + band);
+  const minBid = midPrice * (1 - band);
+
+  let askXch = 0;
+  for (const point of curve.asks) {
+    if (point.price > maxAsk) break;
+    askXch = point.cumulativeXch;
+  }
+
+  let bidXch = 0;
+  for (const point of curve.bids) {
+    if (point.price < minBid) break;
+    bidXch = point.cumulativeXch;
+  }
+
+  return askXch + bidXch;
+}
+
+/**
+ * XCH tradable on a constant-product pool within the band around mid
+ *
+ * Buying moves the price by (1 + Δx/x)², so the pool absorbs
+ * x·(√(target/spot) − 1) XCH before reaching the upper bound; selling
+ * releases x·(1 − √(target/spot)) XCH before reaching the lower bound.
+ * A side whose bound is already crossed by the pool price contributes 0.
+ *
+ * @param pool - Pool reserves
+ * @param midPrice - Reference mid price in XCH
+ * @param band - Band as a fraction (0.02 = ±2%)
+ * @returns Buy-side plus sell-side XCH
+ */
+export function poolDepthWithin(pool: AmmPool, midPrice: number, band: number): number {
+  const spot = getSpotPrice(pool);
+  if (!(spot > 0) || !(midPrice > 0)) return 0;
+
+  const upper = midPrice * (1 + band);
+  const lower = midPrice * (1 - band);
+
+  const buyXch = spot < upper ? pool.xchReserve * (Math.sqrt(upper / spot) - 1) : 0;
+  const sellXch = spot > lower ? pool.xchReserve * (1 - Math.sqrt(lower / spot)) : 0;
+
+  return buyXch + sellXch;
+}
+
+/**
+ * Combined XCH tradable within the band across every venue quoting a token
+ *
+ * The order book counts once (the most preferred quote with a depth
+ * curve, since several sources can describe the same Dexie book); every
+ * AMM pool is added.
+ *
+ * @param quotes - All quotes for the token, most preferred first
+ * @param midPrice - Reference mid price in XCH
+ * @param band - Band as a fraction (0.02 = ±2%)
+ */
+export function calculateBandLiquidity(
+  quotes: TokenQuote[],
+  midPrice: number,
+  band: number
+): number {
+  if (!(midPrice > 0)) return 0;
+
+  let total = 0;
+
+  const book = quotes.find((quote) => quote.depth)?.depth;
+  if (book) total += curveDepthWithin(book, midPrice, band);
+
+  for (const quote of quotes) {
+    if (quote.pool) total += poolDepthWithin(quote.pool, midPrice, band);
+  }
+
+  return total;
+}
@@ -0,0 +1,155 @@
+/**
+ * Market Pairs
+ *
+ * Flattens every Dexie quote group (XCH, stablecoins, CATs) into trading
+ * pairs, and prices each pair in XCH through its quote asset: a token
+ * quoted in another CAT is worth `price × quote's XCH price`.
+ *
+ * Quote groups are keyed by the quote token's code or asset ID, resolved
+ * through the token registry (symbols and aliases); a group whose quote
+ * cannot be matched to a known token is kept with an unknown XCH price.
+ *
+ * @module lib/market-pairs
+ */
+
+import { DexieMarket, DexieQuoteGroup, MarketPair, Result, TokenRegistry } from '@/contracts/types';
+import { fetchMarkets } from './dexie-api';
+import { fetchTokenRegistry, findToken } from './token-registry';
+import { safeNumber } from './transform';
+
+/**
+ * Resolve a quote group key to an asset
+ *
+ * @returns Quote asset ID and symbol, or null if the key matches no token
+ */
+function resolveQuote(
+  quote: string,
+  registry: TokenRegistry
+): { id: string; symbol: string } | null {
+  if (quote.toLowerCase() === 'xch') return { id: 'xch', symbol: 'XCH' };
+
+  const token = findToken(registry, quote);
+  return token ? { id: token.id, symbol: token.symbol } : null;
+}
+
+/**
+ * Volume of a market in its quote asset
+ */
+function getQuoteVolume(
+  market: DexieMarket,
+  groupKey: string,
+  quoteId: string,
+  period: 'daily' | 'weekly'
+): number {
+  const volume = market.volume?.[groupKey] ?? market.volume?.[quoteId];
+  return safeNumber(volume?.[period]);
+}
+
+/**
+ * Volume of a market in XCH: reported XCH volume when present, otherwise
+ * the quote volume converted at the quote's XCH price
+ */
+function getXchVolume(
+  market: DexieMarket,
+  quoteVolume: number,
+  quotePriceXch: number | null,
+  period: 'daily' | 'weekly'
+): number | null {
+  const reported = safeNumber(market.volume?.xch?.[period]);
+  if (reported > 0) return reported;
+  return quotePriceXch !== null ? quoteVolume * quotePriceXch : null;
+}
+
+/**
+ * Build trading pairs from all quote groups
+ *
+ * @param groups - Markets per quote group (XCH group included)
+ * @param registry - Token registry, used to resolve quote assets and symbols
+ * @returns One pair per market with a positive last price
+ */
+export function buildMarketPairs(
+  groups: DexieQuoteGroup[],
+  registry: TokenRegistry
+): MarketPair[] {
+  // XCH price of every token with an XCH market, used to value other quotes
+  const xchPrices = new Map<string, number>([['xch', 1]]);
+  for (const group of groups) {
+    if (group.quote !== 'xch') continue;
+    for (const market of group.markets) {
+      const price = safeNumber(market.prices?.last?.price);
+      if (price > 0) xchPrices.set(market.id, price);
+    }
+  }
+
+  const pairs: MarketPair[] = [];
+
+  for (const group of groups) {
+    const quote = resolveQuote(group.quote, registry);
+    const quoteId = quote?.id ?? group.quote;
+    const quotePriceXch = quote ? xchPrices.get(quote.id) ?? null : null;
+
+    for (const market of group.markets) {
+      const price = safeNumber(market.prices?.last?.price);
+      if (price <= 0) continue;
+
+      const volume24h = getQuoteVolume(market, group.quote, quoteId, 'daily');
+      const volume7d = getQuoteVolume(market, group.quote, quoteId, 'weekly');
+
+      pairs.push({
+        pairId: market.pair_id || `${market.id}:${quoteId}`,
+        venue: 'dexie',
+        baseId: market.id,
+        baseSymbol: registry.get(market.id)?.symbol || market.code || 'UNKNOWN',
+        quoteId,
+        quoteSymbol: quote?.symbol ?? group.quote.toUpperCase(),
+        price,
+        priceXch: quotePriceXch !== null ? price * quotePriceXch : null,
+        volume24h,
+        volume24hXch: getXchVolume(market, volume24h, quotePriceXch, 'daily'),
+        volume7dXch: getXchVolume(market, volume7d, quotePriceXch, 'weekly'),
+      });
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Fetch every pair a token trades in, as base or as quote
+ *
+ * Pairs where the token is the quote are inverted so the token is always
+ * the base; the most traded pairs come first.
+ *
+ * @param tokenId - Token asset ID
+ * @returns Result containing the token's pairs or error
+ */
+export async function fetchTokenPairs(tokenId: string): Promise<Result<MarketPair[]>> {
+  const [groupsResult, registryResult] = await Promise.all([fetchMarkets(), fetchTokenRegistry()]);
+
+  if (!groupsResult.success) return groupsResult;
+  const registry: TokenRegistry = registryResult.success ? registryResult.data : new Map();
+
+  const pairs: MarketPair[] = [];
+
+  for (const pair of buildMarketPairs(groupsResult.data, registry)) {
+    if (pair.baseId === tokenId) {
+      pairs.push(pair);
+    } else if (pair.quoteId === tokenId) {
+      // Token is the quote: 1 base = price tokens, so 1 token = 1/price base
+      pairs.push({
+        ...pair,
+        baseId: pair.quoteId,
+        baseSymbol: pair.quoteSymbol,
+        quoteId: pair.baseId,
+        quoteSymbol: pair.baseSymbol,
+        price: 1 / pair.price,
+        priceXch: pair.priceXch !== null ? pair.priceXch / pair.price : null,
+        volume24h: pair.volume24h / pair.price,
+      });
+    }
+  }
+
+  pairs.sort((a, b) => safeNumber(b.volume24hXch) - safeNumber(a.volume24hXch));
+
+  return { success: true, data: pairs };
+}
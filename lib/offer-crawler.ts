@@ -0,0 +1,388 @@
+/**
+ * Completed Offer Crawler
+ *
+ * Incrementally pages through every completed Dexie offer and maintains a
+ * persistent per-token index of the most recent trade. Each run:
+ *
+ * 1. Head crawl - reads new offers from page 1 until it reaches offers
+ *    already seen (the `newestSeen` cursor). When more offers arrived than
+ *    one run reads, the `headCursor` keeps the rest of the gap, and later
+ *    runs resume there until the gap is closed.
+ * 2. Backfill crawl - reads a few older pages from the `backfillPage`
+ *    cursor, until the end of the offer history is reached.
+ *
+ * Alongside the last trade, the trades of the last 7 days (plus the newest
+ * one before that, as the base price of the 7d change) are kept per token,
+ * to derive change and volume for tokens without market statistics.
+ *
+ * The index and the cursors are stored with lib/disk-store, so coverage
+ * keeps growing across restarts.
+ *
+ * @module lib/offer-crawler
+ */
+
+import { ActivityMetrics, DexieOffer } from '@/contracts/types';
+import { readDocument, writeDocument } from './disk-store';
+import { fetchCompletedOffersPage } from './dexie-offers';
+import type { LastTradePrice } from './last-trade-prices';
+
+const COLLECTION = 'last-trades';
+const INDEX_KEY = 'index';
+
+const PAGE_SIZE = 100;
+
+/**
+ * Minimum time between two crawl runs
+ */
+const CRAWL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Page limit of the head crawl per run
+ */
+const HEAD_MAX_PAGES = 10;
+
+/**
+ * Older pages read per run until the history is fully crawled
+ */
+const BACKFILL_PAGES_PER_RUN = 5;
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * How long completed trades are kept for change and volume
+ */
+const ACTIVITY_WINDOW_MS = 7 * DAY;
+
+/**
+ * Last trade of a token, with the offer it came from
+ */
+export interface LastTradeEntry extends LastTradePrice {
+  offerId: string;
+}
+
+/**
+ * A completed trade kept for change and volume
+ */
+interface RecentTrade {
+  offerId: string;
+  priceXch: number;
+  /** XCH side of the trade */
+  amountXch: number;
+  date: string;
+}
+
+/**
+ * Head pages a run did not reach, resumed by later runs
+ */
+interface HeadCursor {
+  /** Next page to read, numbered as when the cursor was saved */
+  page: number;
+  /** Older end of the gap: read until offers completed at or before this date */
+  until: string;
+}
+
+/**
+ * Persisted crawler state
+ */
+interface LastTradeIndex {
+  trades: Record<string, LastTradeEntry>;
+  /** Recent trades per token, oldest first (missing in indexes persisted before it existed) */
+  recent?: Record<string, RecentTrade[]>;
+  /** date_completed of the newest offer crawled */
+  newestSeen: string | null;
+  /** Next older page to crawl, null once the full history was read */
+  backfillPage: number | null;
+  /** Unread new offers left by a head crawl that hit HEAD_MAX_PAGES */
+  headCursor?: HeadCursor | null;
+  lastCrawledAt: string | null;
+}
+
+let index: LastTradeIndex | null = null;
+let crawlInFlight: Promise<void> | null = null;
+
+/**
+ * Load the index from memory or disk
+ */
+async function loadIndex(): Promise<LastTradeIndex> {
+  if (index) return index;
+
+  const stored = await readDocument<LastTradeIndex>(COLLECTION, INDEX_KEY);
+  index = stored?.trades
+    ? { ...stored, recent: stored.recent ?? {} }
+    : { trades: {}, recent: {}, newestSeen: null, backfillPage: 2, lastCrawledAt: null };
+  return index;
+}
+
+/**
+ * Extract the token side of a completed token/XCH offer
+ *
+ * @returns Last trade entry and token ID, or null if not a token/XCH trade
+ */
+function offerToEntry(
+  offer: DexieOffer
+): { tokenId: string; entry: LastTradeEntry; amountXch: number } | null {
+  if (!offer.date_completed) return null;
+
+  const legs = [...offer.offered, ...offer.requested];
+  const xchLeg = legs.find((asset) => asset.id === 'xch');
+  const tokenLegs = legs.filter((asset) => asset.id !== 'xch');
+
+  // Multi-asset offers have no single token price
+  if (!xchLeg || tokenLegs.length !== 1) return null;
+
+  const tokenLeg = tokenLegs[0];
+  if (!(tokenLeg.amount > 0) || !(xchLeg.amount > 0)) return null;
+
+  return {
+    tokenId: tokenLeg.id,
+    amountXch: xchLeg.amount,
+    entry: {
+      offerId: offer.id,
+      priceXch: xchLeg.amount / tokenLeg.amount,
+      date: offer.date_completed,
+      tokenSymbol: tokenLeg.code || '',
+    },
+  };
+}
+
+function toTime(date: string): number {
+  return new Date(date).getTime();
+}
+
+/**
+ * Add a trade to a token's recent trades
+ *
+ * Keeps every trade inside ACTIVITY_WINDOW_MS and the newest one before it.
+ *
+ * @returns Trades oldest first, without duplicates
+ */
+function addRecentTrade(trades: RecentTrade[], trade: RecentTrade, now: number): RecentTrade[] {
+  const byOffer = new Map(trades.map((existing) => [existing.offerId, existing]));
+  byOffer.set(trade.offerId, trade);
+
+  const sorted = Array.from(byOffer.values()).sort((a, b) => toTime(a.date) - toTime(b.date));
+  const cutoff = now - ACTIVITY_WINDOW_MS;
+  const firstInWindow = sorted.findIndex((existing) => toTime(existing.date) >= cutoff);
+
+  if (firstInWindow === -1) return sorted.slice(-1);
+  return sorted.slice(Math.max(0, firstInWindow - 1));
+}
+
+/**
+ * Merge offers into the index, keeping the newest trade and the recent
+ * trades per token
+ *
+ * @returns Oldest date_completed on the page (null if none)
+ */
+function indexOffers(state: LastTradeIndex, offers: DexieOffer[]): string | null {
+  let oldest: string | null = null;
+  const now = Date.now();
+  if (!state.recent) state.recent = {};
+  const recent = state.recent;
+
+  for (const offer of offers) {
+    if (offer.date_completed && (!oldest || offer.date_completed < oldest)) {
+      oldest = offer.date_completed;
+    }
+
+    const trade = offerToEntry(offer);
+    if (!trade) continue;
+
+    const existing = state.trades[trade.tokenId];
+    if (!existing || existing.date < trade.entry.date) {
+      state.trades[trade.tokenId] = trade.entry;
+    }
+
+    recent[trade.tokenId] = addRecentTrade(
+      recent[trade.tokenId] ?? [],
+      {
+        offerId: trade.entry.offerId,
+        priceXch: trade.entry.priceXch,
+        amountXch: trade.amountXch,
+        date: trade.entry.date,
+      },
+      now
+    );
+
+    if (!state.newestSeen || trade.entry.date > state.newestSeen) {
+      state.newestSeen = trade.entry.date;
+    }
+  }
+
+  return oldest;
+}
+
+/**
+ * Count the offers on a page completed after a date
+ */
+function countNewer(offers: DexieOffer[], date: string | null): number {
+  if (!date) return offers.length;
+  return offers.filter((offer) => offer.date_completed && offer.date_completed > date).length;
+}
+
+/**
+ * Continue a head crawl that stopped before reaching the offers it had seen
+ *
+ * @param state - Crawler state; its cursor is advanced after every page
+ * @param cursor - Saved cursor
+ * @param newOffers - Offers that arrived since the cursor was saved
+ */
+async function resumeHeadCursor(
+  state: LastTradeIndex,
+  cursor: HeadCursor,
+  newOffers: number
+): Promise<void> {
+  // New offers push the gap back; re-read one page in case more arrive meanwhile
+  let page = Math.max(1, cursor.page + Math.floor(newOffers / PAGE_SIZE) - 1);
+
+  for (let i = 0; i < HEAD_MAX_PAGES; i++, page++) {
+    const offers = await fetchCompletedOffersPage(page, PAGE_SIZE);
+    const oldest = indexOffers(state, offers);
+
+    if (offers.length < PAGE_SIZE || (oldest && oldest <= cursor.until)) {
+      state.headCursor = null;
+      return;
+    }
+    state.headCursor = { page: page + 1, until: cursor.until };
+  }
+}
+
+/**
+ * Run one crawl: new offers first, then a slice of older history
+ */
+async function runCrawl(): Promise<void> {
+  const state = await loadIndex();
+  const previousNewest = state.newestSeen;
+
+  try {
+    // Head: stop once a page reaches offers we already indexed (page 1 is
+    // always read, so backfill starts at page 2)
+    let newOffers = 0;
+    let reachedSeen = false;
+
+    for (let page = 1; page <= HEAD_MAX_PAGES; page++) {
+      const offers = await fetchCompletedOffersPage(page, PAGE_SIZE);
+      const oldest = indexOffers(state, offers);
+      newOffers += countNewer(offers, previousNewest);
+
+      if (offers.length < PAGE_SIZE || (previousNewest && oldest && oldest <= previousNewest)) {
+        reachedSeen = true;
+        break;
+      }
+    }
+
+    if (!reachedSeen && previousNewest) {
+      // The gap down to the offers seen before (or to an older open gap) is
+      // read by the next runs
+      state.headCursor = {
+        page: HEAD_MAX_PAGES + 1,
+        until: state.headCursor?.until ?? previousNewest,
+      };
+    } else if (state.headCursor) {
+      await resumeHeadCursor(state, state.headCursor, newOffers);
+    }
+
+    // Backfill: page numbers shift as new offers arrive, but re-reading an
+    // offer is harmless since only newer trades replace index entries
+    for (let i = 0; i < BACKFILL_PAGES_PER_RUN && state.backfillPage !== null; i++) {
+      const offers = await fetchCompletedOffersPage(state.backfillPage, PAGE_SIZE);
+      indexOffers(state, offers);
+
+      state.backfillPage = offers.length < PAGE_SIZE ? null : state.backfillPage + 1;
+    }
+  } catch (error) {
+    // Keep what was indexed so far; cursors only advanced past pages that succeeded
+    console.warn('Completed offer crawl stopped early:', error);
+  }
+
+  state.lastCrawledAt = new Date().toISOString();
+
+  try {
+    await writeDocument(COLLECTION, INDEX_KEY, state);
+  } catch (error) {
+    console.warn('Failed to persist last trade index:', error);
+  }
+}
+
+/**
+ * Start a crawl if one is due, coalescing with any crawl in progress
+ *
+ * The in-flight promise is set before anything is awaited, so concurrent
+ * callers can never start two crawls over the same index.
+ *
+ * @returns Promise that settles when the current crawl finishes
+ */
+export function crawlCompletedOffers(): Promise<void> {
+  if (crawlInFlight) return crawlInFlight;
+
+  crawlInFlight = (async () => {
+    const state = await loadIndex();
+    const lastCrawl = state.lastCrawledAt ? new Date(state.lastCrawledAt).getTime() : 0;
+    if (Date.now() - lastCrawl < CRAWL_INTERVAL_MS) return;
+
+    await runCrawl();
+  })().finally(() => {
+    crawlInFlight = null;
+  });
+  return crawlInFlight;
+}
+
+/**
+ * Derive change and volume from a token's recent trades
+ *
+ * The price at a point in time is the last trade at or before it; changes
+ * compare the latest trade with the price 24h and 7d ago. Volume sums the
+ * XCH side of the trades in each window.
+ *
+ * @param trades - Recent trades, oldest first
+ * @returns Metrics, or null without trades
+ */
+function getTradeActivity(trades: RecentTrade[] | undefined, now: number): ActivityMetrics | null {
+  if (!trades || trades.length === 0) return null;
+
+  const current = trades[trades.length - 1].priceXch;
+  const changeSince = (time: number): number | null => {
+    const base = trades.filter((trade) => toTime(trade.date) <= time).pop();
+    return base ? ((current - base.priceXch) / base.priceXch) * 100 : null;
+  };
+  const volumeSince = (time: number): number =>
+    trades
+      .filter((trade) => toTime(trade.date) > time)
+      .reduce((sum, trade) => sum + trade.amountXch, 0);
+
+  return {
+    change24h: changeSince(now - DAY),
+    change7d: changeSince(now - 7 * DAY),
+    volume24hXch: volumeSince(now - DAY),
+    volume7dXch: volumeSince(now - 7 * DAY),
+  };
+}
+
+/**
+ * Get the last trade of every token seen by the crawler, with change and
+ * volume from its recent trades
+ *
+ * Triggers a background crawl when one is due. Only waits for the crawl
+ * when the index is still empty (first run without persisted state).
+ *
+ * @returns Map of token ID to last trade
+ */
+export async function getLastTrades(): Promise<Map<string, LastTradeEntry>> {
+  const state = await loadIndex();
+  const crawl = crawlCompletedOffers();
+
+  if (Object.keys(state.trades).length === 0) {
+    await crawl;
+  } else {
+    void crawl;
+  }
+
+  const now = Date.now();
+  return new Map(
+    Object.entries(state.trades).map(([tokenId, trade]) => [
+      tokenId,
+      { ...trade, activity: getTradeActivity(state.recent?.[tokenId], now) ?? undefined },
+    ])
+  );
+}
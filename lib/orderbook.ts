@@ -0,0 +1,222 @@
+/**
+ * Order Book
+ *
+ * Builds a token's order book from active Dexie offers. Only plain
+ * token/XCH offers are included; multi-asset offers have no single price.
+ * Offers can be aggregated into price levels with cumulative depth.
+ *
+ * @module lib/orderbook
+ */
+
+import {
+  DepthLevel,
+  DexieOffer,
+  OrderBook,
+  OrderBookDepth,
+  OrderBookLevel,
+} from '@/contracts/types';
+import { fetchAllOffers } from './dexie-offers';
+import { fetchPoolForToken, getSpotPrice } from './amm-quote';
+
+/**
+ * Pages of active offers read per side (100 offers each)
+ */
+const MAX_BOOK_PAGES = 10;
+
+/**
+ * Significant digits prices are rounded to when grouping offers into levels
+ */
+const LEVEL_SIGNIFICANT_DIGITS = 4;
+
+/**
+ * Most recently fetched order book per token, shared with the
+ * active-offers market data source
+ */
+const recentBooks = new Map<string, OrderBook>();
+
+/**
+ * Convert an active offer into an order book entry
+ *
+ * @returns Side and level, or null if the offer is not a token/XCH offer
+ */
+function offerToLevel(
+  offer: DexieOffer,
+  tokenId: string
+): { side: 'ask' | 'bid'; level: OrderBookLevel } | null {
+  if (offer.offered.length !== 1 || offer.requested.length !== 1) return null;
+
+  const [offered] = offer.offered;
+  const [requested] = offer.requested;
+
+  let side: 'ask' | 'bid';
+  let tokenAmount: number;
+  let xchAmount: number;
+
+  if (offered.id === tokenId && requested.id === 'xch') {
+    side = 'ask';
+    tokenAmount = offered.amount;
+    xchAmount = requested.amount;
+  } else if (offered.id === 'xch' && requested.id === tokenId) {
+    side = 'bid';
+    tokenAmount = requested.amount;
+    xchAmount = offered.amount;
+  } else {
+    return null;
+  }
+
+  if (!(tokenAmount > 0) || !(xchAmount > 0)) return null;
+
+  return {
+    side,
+    level: {
+      offerId: offer.id,
+      price: xchAmount / tokenAmount,
+      amountToken: tokenAmount,
+      amountXch: xchAmount,
+    },
+  };
+}
+
+/**
+ * Build an order book from offers
+ *
+ * @param offers - Active offers for the token (both directions)
+ * @param tokenId - Token asset ID
+ * @param truncated - Whether some active offers could not be read
+ * @returns Order book with asks ascending and bids descending by price
+ */
+export function buildOrderBook(
+  offers: DexieOffer[],
+  tokenId: string,
+  truncated = false
+): OrderBook {
+  const asks: OrderBookLevel[] = [];
+  const bids: OrderBookLevel[] = [];
+  const seen = new Set<string>();
+
+  for (const offer of offers) {
+    if (seen.has(offer.id)) continue;
+    seen.add(offer.id);
+
+    const entry = offerToLevel(offer, tokenId);
+    if (!entry) continue;
+
+    if (entry.side === 'ask') asks.push(entry.level);
+    else bids.push(entry.level);
+  }
+
+  asks.sort((a, b) => a.price - b.price);
+  bids.sort((a, b) => b.price - a.price);
+
+  return { tokenId, asks, bids, truncated, fetchedAt: new Date().toISOString() };
+}
+
+/**
+ * Fetch a token's order book from active Dexie offers
+ *
+ * @param tokenId - Token asset ID
+ * @returns Order book (empty sides if no offers or the request failed)
+ */
+export async function fetchOrderBook(tokenId: string): Promise<OrderBook> {
+  const { offers, truncated } = await fetchAllOffers(tokenId, 0, MAX_BOOK_PAGES);
+  const book = buildOrderBook(offers, tokenId, truncated);
+
+  if (book.asks.length > 0 || book.bids.length > 0) {
+    recentBooks.set(tokenId, book);
+  }
+
+  return book;
+}
+
+/**
+ * Order books fetched within the given window (e.g. by token pages
+ * and best-execution requests)
+ *
+ * @param maxAgeMs - Oldest book returned
+ */
+export function getRecentOrderBooks(maxAgeMs: number): OrderBook[] {
+  const cutoff = Date.now() - maxAgeMs;
+  const books: OrderBook[] = [];
+
+  for (const [tokenId, book] of recentBooks) {
+    if (new Date(book.fetchedAt).getTime() >= cutoff) {
+      books.push(book);
+    } else {
+      recentBooks.delete(tokenId);
+    }
+  }
+
+  return books;
+}
+
+/**
+ * Group offers (already sorted best first) into price levels with
+ * cumulative depth
+ *
+ * @param levels - Offers of one side, best price first
+ * @param significantDigits - Price precision of a level
+ * @returns Aggregated levels, best price first
+ */
+export function aggregateLevels(
+  levels: OrderBookLevel[],
+  significantDigits = LEVEL_SIGNIFICANT_DIGITS
+): DepthLevel[] {
+  const aggregated: DepthLevel[] = [];
+  let cumulativeToken = 0;
+  let cumulativeXch = 0;
+
+  for (const level of levels) {
+    const price = Number(level.price.toPrecision(significantDigits));
+    cumulativeToken += level.amountToken;
+    cumulativeXch += level.amountXch;
+
+    const last = aggregated[aggregated.length - 1];
+    if (last && last.price === price) {
+      last.amountToken += level.amountToken;
+      last.amountXch += level.amountXch;
+      last.offers += 1;
+      last.cumulativeToken = cumulativeToken;
+      last.cumulativeXch = cumulativeXch;
+    } else {
+      aggregated.push({
+        price,
+        amountToken: level.amountToken,
+        amountXch: level.amountXch,
+        offers: 1,
+        cumulativeToken,
+        cumulativeXch,
+      });
+    }
+  }
+
+  return aggregated;
+}
+
+/**
+ * Fetch a token's aggregated order book and TibetSwap price
+ *
+ * @param tokenId - Token asset ID
+ * @returns Depth on both sides with best prices and the AMM price
+ */
+export async function fetchOrderBookDepth(tokenId: string): Promise<OrderBookDepth> {
+  const [book, poolResult] = await Promise.all([
+    fetchOrderBook(tokenId),
+    fetchPoolForToken(tokenId),
+  ]);
+
+  const bestBid = book.bids[0]?.price ?? null;
+  const bestAsk = book.asks[0]?.price ?? null;
+  const ammPrice = poolResult.success ? getSpotPrice(poolResult.data.pool) : null;
+
+  return {
+    tokenId,
+    bids: aggregateLevels(book.bids),
+    asks: aggregateLevels(book.asks),
+    bestBid,
+    bestAsk,
+    midPrice: bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null,
+    ammPrice: ammPrice && ammPrice > 0 ? ammPrice : null,
+    truncated: book.truncated,
+    fetchedAt: book.fetchedAt,
+  };
+}
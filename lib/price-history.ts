@@ -0,0 +1,635 @@
+/**
+ * Price History Store
+ *
+ * Server-side recorder that persists a snapshot of every token after each
+ * dashboard fetch. Snapshots are kept in three retention tiers so history
+ * can be served for every chart timeframe without unbounded growth:
+ *
+ * - raw:    one point per 5 minutes, kept for 2 days
+ * - hourly: last point of each hour, kept for 35 days
+ * - daily:  last point of each day, kept forever
+ *
+ * Tokens with little recorded history are backfilled from Dexie completed
+ * offers. Backfilled points only fill buckets that have no recorded
+ * snapshot, and carry `origin: 'trade'` so charts can tell them apart.
+ *
+ * The XCH/USD price is recorded alongside, in the same tiers, and is the
+ * basis of the 24h change and sparkline when the price provider reports
+ * no change of its own.
+ *
+ * Snapshots of tokens with a TibetSwap pair carry the pool reserves, from
+ * which the change and swap volume of TibetSwap-only tokens are derived.
+ *
+ * @module lib/price-history
+ */
+
+import {
+  ActivityMetrics,
+  ChartTimeframe,
+  DashboardData,
+  PriceHistoryTier,
+  PriceSnapshot,
+  XchMarketSummary,
+  XchPriceSnapshot,
+  XchUsdQuote,
+} from '@/contracts/types';
+import { readDocument, writeDocument } from './disk-store';
+import { filterByTimeframe } from './chart-data';
+import { getTrades } from './candles';
+
+const COLLECTION = 'price-history';
+const XCH_COLLECTION = 'xch-price-history';
+const XCH_KEY = 'xch';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Minimum time between two recorded dashboard snapshots
+ */
+const RECORD_INTERVAL_MS = 5 * MINUTE;
+
+/**
+ * How far back completed offers are used to backfill history
+ */
+const BACKFILL_LOOKBACK_MS = 365 * DAY;
+
+/**
+ * How far a recorded price may be from exactly 24h ago and still be used
+ * as the base of the 24h change
+ */
+const CHANGE_BASE_TOLERANCE_MS = HOUR;
+
+/**
+ * How far a recorded price may be from exactly 7d ago and still be used as
+ * the base of the 7d change (hourly tier)
+ */
+const CHANGE_7D_BASE_TOLERANCE_MS = 3 * HOUR;
+
+/**
+ * Minimum time between two backfills of the same token
+ */
+const BACKFILL_REFRESH_MS = 6 * HOUR;
+
+/**
+ * Bucket size and retention for each tier
+ */
+const TIER_CONFIG: Record<PriceHistoryTier, { bucketMs: number; retentionMs: number }> = {
+  raw: { bucketMs: 5 * MINUTE, retentionMs: 2 * DAY },
+  hourly: { bucketMs: HOUR, retentionMs: 35 * DAY },
+  daily: { bucketMs: DAY, retentionMs: Infinity },
+};
+
+/**
+ * Tier used to serve each chart timeframe
+ */
+const TIMEFRAME_TIER: Record<ChartTimeframe, PriceHistoryTier> = {
+  '1D': 'raw',
+  '7D': 'hourly',
+  '1M': 'hourly',
+  '1Y': 'daily',
+  ALL: 'daily',
+};
+
+/**
+ * Persisted structure for a single token
+ */
+interface StoredPriceHistory {
+  tokenId: string;
+  tiers: Record<PriceHistoryTier, PriceSnapshot[]>;
+  lastUpdated: string;
+  /** When completed offers were last merged in */
+  backfilledAt?: string;
+}
+
+/**
+ * What a token's AMM activity is measured against: the pool prices 24h and
+ * 7d ago and the swap volume since
+ */
+interface AmmBaseline {
+  basePrice24h: number | null;
+  basePrice7d: number | null;
+  volume24hXch: number;
+  volume7dXch: number;
+}
+
+/**
+ * Persisted structure for the XCH/USD price
+ */
+interface StoredXchPriceHistory {
+  tiers: Record<PriceHistoryTier, XchPriceSnapshot[]>;
+  lastUpdated: string;
+}
+
+// Loaded histories, kept in memory to avoid re-reading files on every request
+const historyCache = new Map<string, StoredPriceHistory>();
+let xchHistoryCache: StoredXchPriceHistory | null = null;
+
+// Serializes writes so overlapping recordings never interleave
+let writeQueue: Promise<void> = Promise.resolve();
+let lastRecordedAt = 0;
+
+// AMM baselines per token (null: no pool price recorded), derived from the
+// histories as of the last recording and dropped when the next one lands
+const ammBaselines = new Map<string, AmmBaseline | null>();
+
+// Last backfill attempt per token, including ones that found no trades
+const backfillAttempts = new Map<string, number>();
+const backfillsInFlight = new Set<string>();
+
+/**
+ * Queue a write behind any pending ones
+ *
+ * The queue runs the next write whether the previous one resolved or
+ * rejected; the caller still sees its own write's failure.
+ */
+function enqueueWrite(task: () => Promise<void>): Promise<void> {
+  const run = writeQueue.then(task, task);
+  writeQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Get the bucket index of a snapshot within a tier
+ */
+function getBucket(snapshot: { timestamp: string }, tier: PriceHistoryTier): number {
+  return Math.floor(new Date(snapshot.timestamp).getTime() / TIER_CONFIG[tier].bucketMs);
+}
+
+/**
+ * Create an empty history document
+ */
+function createEmptyHistory(tokenId: string): StoredPriceHistory {
+  return {
+    tokenId,
+    tiers: { raw: [], hourly: [], daily: [] },
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load a token's history from memory or disk
+ *
+ * Only stored histories are kept in memory; a token without one gets a
+ * fresh empty history that is cached once something is written to it.
+ */
+async function loadHistory(tokenId: string): Promise<StoredPriceHistory> {
+  const cached = historyCache.get(tokenId);
+  if (cached) return cached;
+
+  const stored = await readDocument<StoredPriceHistory>(COLLECTION, tokenId);
+  if (!stored?.tiers) return createEmptyHistory(tokenId);
+
+  historyCache.set(tokenId, stored);
+  return stored;
+}
+
+/**
+ * Persist a token's history and keep it in memory
+ */
+async function saveHistory(history: StoredPriceHistory): Promise<void> {
+  await writeDocument(COLLECTION, history.tokenId, history);
+  historyCache.set(history.tokenId, history);
+}
+
+/**
+ * Load the XCH/USD history from memory or disk
+ */
+async function loadXchHistory(): Promise<StoredXchPriceHistory> {
+  if (xchHistoryCache) return xchHistoryCache;
+
+  const stored = await readDocument<StoredXchPriceHistory>(XCH_COLLECTION, XCH_KEY);
+  xchHistoryCache = stored?.tiers
+    ? stored
+    : { tiers: { raw: [], hourly: [], daily: [] }, lastUpdated: new Date().toISOString() };
+  return xchHistoryCache;
+}
+
+/**
+ * Append a snapshot to a tier, replacing the last point if it falls in the
+ * same bucket, and drop points that are past the tier's retention
+ */
+function appendToTier<T extends { timestamp: string }>(
+  points: T[],
+  snapshot: T,
+  tier: PriceHistoryTier
+): T[] {
+  const last = points[points.length - 1];
+  if (last && getBucket(last, tier) === getBucket(snapshot, tier)) {
+    points[points.length - 1] = snapshot;
+  } else {
+    points.push(snapshot);
+  }
+
+  return applyRetention(points, tier, new Date(snapshot.timestamp).getTime());
+}
+
+/**
+ * Drop points that are past a tier's retention
+ */
+function applyRetention<T extends { timestamp: string }>(
+  points: T[],
+  tier: PriceHistoryTier,
+  now: number
+): T[] {
+  const { retentionMs } = TIER_CONFIG[tier];
+  if (retentionMs === Infinity) return points;
+
+  const cutoff = now - retentionMs;
+  return points.filter((point) => new Date(point.timestamp).getTime() >= cutoff);
+}
+
+/**
+ * Merge backfilled points into a tier without overriding recorded buckets
+ * (the last seed in a bucket wins, matching how recordings close a bucket)
+ */
+function mergeIntoTier(
+  points: PriceSnapshot[],
+  seeds: PriceSnapshot[],
+  tier: PriceHistoryTier
+): PriceSnapshot[] {
+  const recorded = new Set(
+    points.filter((point) => point.origin !== 'trade').map((point) => getBucket(point, tier))
+  );
+  const merged = new Map<number, PriceSnapshot>();
+
+  for (const point of points) {
+    merged.set(getBucket(point, tier), point);
+  }
+  for (const seed of seeds) {
+    const bucket = getBucket(seed, tier);
+    if (!recorded.has(bucket)) merged.set(bucket, seed);
+  }
+
+  const sorted = Array.from(merged.values()).sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  return applyRetention(sorted, tier, Date.now());
+}
+
+/**
+ * Record a snapshot of every priced token and of the XCH/USD price in the
+ * dashboard payload
+ *
+ * Throttled to one recording per RECORD_INTERVAL_MS. The XCH price is only
+ * recorded when it came from a live provider (not a cached or fallback
+ * value). Never throws:
+ * persistence problems are logged so they cannot break data fetching.
+ *
+ * @param data - Dashboard payload to record
+ */
+export function recordDashboardSnapshot(data: DashboardData): Promise<void> {
+  const now = Date.now();
+  if (now - lastRecordedAt < RECORD_INTERVAL_MS) {
+    return writeQueue;
+  }
+  lastRecordedAt = now;
+
+  return enqueueWrite(async () => {
+    try {
+      for (const token of data.tokens) {
+        if (token.priceXch <= 0 || !token.priceSource || token.priceSource === 'none') {
+          continue;
+        }
+
+        const snapshot: PriceSnapshot = {
+          timestamp: data.fetchedAt,
+          priceXch: token.priceXch,
+          priceUsd: token.priceUsd,
+          volume24hXch: token.volume24hXch,
+          liquidityXch: token.liquidityXch,
+          xchReserve: token.pool?.xchReserve,
+          tokenReserve: token.pool?.tokenReserve,
+          priceSource: token.priceSource,
+          origin: token.priceSource === 'tibetswap' ? 'amm' : 'snapshot',
+        };
+
+        const history = await loadHistory(token.id);
+        for (const tier of Object.keys(TIER_CONFIG) as PriceHistoryTier[]) {
+          history.tiers[tier] = appendToTier(history.tiers[tier], snapshot, tier);
+        }
+        history.lastUpdated = data.fetchedAt;
+
+        await saveHistory(history);
+      }
+
+      const xch = data.xchMarket;
+      if (xch && xch.provider === 'oracles') {
+        const snapshot: XchPriceSnapshot = {
+          timestamp: data.fetchedAt,
+          priceUsd: xch.priceUsd,
+          provider: xch.provider,
+        };
+
+        const history = await loadXchHistory();
+        for (const tier of Object.keys(TIER_CONFIG) as PriceHistoryTier[]) {
+          history.tiers[tier] = appendToTier(history.tiers[tier], snapshot, tier);
+        }
+        history.lastUpdated = data.fetchedAt;
+
+        await writeDocument(XCH_COLLECTION, XCH_KEY, history);
+      }
+    } catch (error) {
+      console.warn('Failed to record price history:', error);
+    } finally {
+      ammBaselines.clear();
+    }
+  });
+}
+
+/**
+ * Backfill a token's history from Dexie completed offers
+ *
+ * Runs at most once per BACKFILL_REFRESH_MS per token, and never twice at
+ * the same time. Trade points never replace recorded snapshots; they only
+ * fill buckets nothing was recorded in. A token without trades or recorded
+ * history is not persisted. The attempt only counts once the crawl has
+ * succeeded, so a failed crawl is retried on the next call. Never throws:
+ * failures are logged, so callers can run it in the background.
+ *
+ * Only call this for known tokens - every call may crawl a year of trades.
+ *
+ * @param tokenId - Token to backfill
+ */
+export async function backfillPriceHistory(tokenId: string): Promise<void> {
+  const lastAttempt = backfillAttempts.get(tokenId) ?? 0;
+  if (backfillsInFlight.has(tokenId) || Date.now() - lastAttempt < BACKFILL_REFRESH_MS) {
+    return;
+  }
+  backfillsInFlight.add(tokenId);
+
+  try {
+    const current = await loadHistory(tokenId);
+    if (
+      current.backfilledAt &&
+      Date.now() - new Date(current.backfilledAt).getTime() < BACKFILL_REFRESH_MS
+    ) {
+      backfillAttempts.set(tokenId, new Date(current.backfilledAt).getTime());
+      return;
+    }
+
+    // Throws on a failed page - the attempt is then not recorded
+    const trades = await getTrades(tokenId, new Date(Date.now() - BACKFILL_LOOKBACK_MS));
+    const seeds: PriceSnapshot[] = trades.map((trade) => ({
+      timestamp: trade.timestamp,
+      priceXch: trade.priceXch,
+      priceSource: 'lastTrade',
+      origin: 'trade',
+    }));
+    backfillAttempts.set(tokenId, Date.now());
+
+    await enqueueWrite(async () => {
+      try {
+        // Reload inside the queue so recordings made during the crawl are kept
+        const history = await loadHistory(tokenId);
+        for (const tier of Object.keys(TIER_CONFIG) as PriceHistoryTier[]) {
+          history.tiers[tier] = mergeIntoTier(history.tiers[tier], seeds, tier);
+        }
+
+        const isEmpty = Object.values(history.tiers).every((points) => points.length === 0);
+        if (isEmpty) return;
+
+        history.backfilledAt = new Date().toISOString();
+        await saveHistory(history);
+      } catch (error) {
+        console.warn('Failed to backfill price history:', error);
+      }
+    });
+  } catch (error) {
+    console.warn('Price history backfill failed:', error);
+  } finally {
+    backfillsInFlight.delete(tokenId);
+  }
+}
+
+/**
+ * Get the expected spacing between history points for a timeframe
+ *
+ * @param timeframe - Chart timeframe
+ * @returns Bucket size of the tier serving that timeframe, in ms
+ */
+export function getHistoryInterval(timeframe: ChartTimeframe): number {
+  return TIER_CONFIG[TIMEFRAME_TIER[timeframe]].bucketMs;
+}
+
+/**
+ * Get recorded price history for a token
+ *
+ * @param tokenId - Token to read history for
+ * @param timeframe - Chart timeframe, selects tier and cutoff
+ * @returns Snapshots in chronological order
+ */
+export async function getPriceHistory(
+  tokenId: string,
+  timeframe: ChartTimeframe
+): Promise<PriceSnapshot[]> {
+  const history = await loadHistory(tokenId);
+  const points = history.tiers[TIMEFRAME_TIER[timeframe]] ?? [];
+
+  return filterByTimeframe(points, timeframe);
+}
+
+/**
+ * Get recorded XCH/USD price history
+ *
+ * @param timeframe - Chart timeframe, selects tier and cutoff
+ * @returns Snapshots in chronological order
+ */
+export async function getXchPriceHistory(timeframe: ChartTimeframe): Promise<XchPriceSnapshot[]> {
+  const history = await loadXchHistory();
+  const points = history.tiers[TIMEFRAME_TIER[timeframe]] ?? [];
+
+  return filterByTimeframe(points, timeframe);
+}
+
+/**
+ * Find the point recorded closest to a time, within a tolerance
+ *
+ * @returns The closest point, or null if none is within the tolerance
+ */
+function findClosestPoint<T extends { timestamp: string }>(
+  points: T[],
+  target: number,
+  toleranceMs: number
+): T | null {
+  let closest: T | null = null;
+  let closestDistance = Infinity;
+
+  for (const point of points) {
+    const distance = Math.abs(new Date(point.timestamp).getTime() - target);
+    if (distance <= toleranceMs && distance < closestDistance) {
+      closest = point;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Summarize the last 24 hours of the XCH/USD price
+ *
+ * The provider's 24h change is used when it reports one; otherwise the
+ * change is measured against the price recorded closest to 24h ago (null
+ * until at least a day of history exists). The sparkline holds the last
+ * recorded price of each hour, ending with the current price.
+ *
+ * @param quote - Current XCH/USD quote
+ * @returns Summary for the dashboard payload
+ */
+export async function getXchMarketSummary(quote: XchUsdQuote): Promise<XchMarketSummary> {
+  const now = Date.now();
+  const history = await loadXchHistory();
+  const recent = history.tiers.raw.filter(
+    (point) => new Date(point.timestamp).getTime() >= now - DAY - CHANGE_BASE_TOLERANCE_MS
+  );
+
+  const base = findClosestPoint(recent, now - DAY, CHANGE_BASE_TOLERANCE_MS);
+
+  const historyChange =
+    base && base.priceUsd > 0 ? ((quote.priceUsd - base.priceUsd) / base.priceUsd) * 100 : null;
+  const change24h = quote.change24h ?? historyChange;
+
+  const window = recent.filter((point) => new Date(point.timestamp).getTime() >= now - DAY);
+  const prices = [...window.map((point) => point.priceUsd), quote.priceUsd];
+
+  // Last recorded price of each hour in the window
+  const hourly = new Map<number, number>();
+  for (const point of window) {
+    hourly.set(Math.floor(new Date(point.timestamp).getTime() / HOUR), point.priceUsd);
+  }
+
+  let change24hSource: XchMarketSummary['change24hSource'] = null;
+  if (quote.change24h !== null) change24hSource = 'provider';
+  else if (historyChange !== null) change24hSource = 'history';
+
+  return {
+    priceUsd: quote.priceUsd,
+    change24h,
+    change24hSource,
+    high24h: window.length > 0 ? Math.max(...prices) : null,
+    low24h: window.length > 0 ? Math.min(...prices) : null,
+    sparkline: [...Array.from(hourly.values()), quote.priceUsd],
+    provider: quote.provider,
+    readings: quote.readings,
+    divergencePct: quote.divergencePct,
+    isDivergent: quote.isDivergent,
+  };
+}
+
+/**
+ * TibetSwap pool price of a snapshot
+ *
+ * Snapshots recorded before reserves were stored fall back to their price
+ * when it was the AMM price.
+ */
+function getAmmPrice(point: PriceSnapshot): number | null {
+  if (point.xchReserve && point.tokenReserve) return point.xchReserve / point.tokenReserve;
+  return point.origin === 'amm' ? point.priceXch : null;
+}
+
+/**
+ * Sum the XCH side of swaps between consecutive reserve snapshots
+ *
+ * Swaps move the two reserves in opposite directions; liquidity being added
+ * or removed moves them together and is not counted. Swaps that cancel out
+ * between two snapshots are missed, so this is a lower bound.
+ *
+ * @param points - Snapshots in chronological order
+ * @param from - Only intervals ending after this time are counted (ms)
+ * @param to - Only intervals ending at or before this time are counted (ms)
+ */
+function sumSwapVolume(points: PriceSnapshot[], from: number, to: number): number {
+  let volume = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    const time = new Date(current.timestamp).getTime();
+    if (time <= from || time > to) continue;
+
+    if (
+      previous.xchReserve === undefined ||
+      previous.tokenReserve === undefined ||
+      current.xchReserve === undefined ||
+      current.tokenReserve === undefined
+    ) {
+      continue;
+    }
+
+    const xchDelta = current.xchReserve - previous.xchReserve;
+    const tokenDelta = current.tokenReserve - previous.tokenReserve;
+    if (xchDelta * tokenDelta < 0) volume += Math.abs(xchDelta);
+  }
+
+  return volume;
+}
+
+/**
+ * Derive a token's AMM baseline from its recorded TibetSwap reserve snapshots
+ *
+ * Change bases are the pool prices recorded closest to 24h (raw tier) and
+ * 7d (hourly tier) ago. Volume is summed from the raw tier where it reaches
+ * back, and from the coarser hourly tier before that.
+ *
+ * @returns The baseline, or null if no pool price was ever recorded for the token
+ */
+async function deriveAmmBaseline(tokenId: string): Promise<AmmBaseline | null> {
+  const history = await loadHistory(tokenId);
+  const raw = history.tiers.raw.filter((point) => getAmmPrice(point) !== null);
+  const hourly = history.tiers.hourly.filter((point) => getAmmPrice(point) !== null);
+  if (raw.length === 0 && hourly.length === 0) return null;
+
+  const now = Date.now();
+  const base24h = findClosestPoint(raw, now - DAY, CHANGE_BASE_TOLERANCE_MS);
+  const base7d = findClosestPoint(hourly, now - 7 * DAY, CHANGE_7D_BASE_TOLERANCE_MS);
+
+  // Raw snapshots cover the most recent part of the window at full resolution
+  const rawStart = raw.length > 0 ? new Date(raw[0].timestamp).getTime() : now;
+
+  return {
+    basePrice24h: base24h ? getAmmPrice(base24h) : null,
+    basePrice7d: base7d ? getAmmPrice(base7d) : null,
+    volume24hXch:
+      sumSwapVolume(raw, now - DAY, now) +
+      sumSwapVolume(hourly, now - DAY, Math.min(rawStart, now)),
+    volume7dXch:
+      sumSwapVolume(raw, now - 7 * DAY, now) +
+      sumSwapVolume(hourly, now - 7 * DAY, Math.min(rawStart, now)),
+  };
+}
+
+/**
+ * Derive a token's 24h/7d change and swap volume from its recorded
+ * TibetSwap reserve snapshots
+ *
+ * The history-derived baseline is reused until the next snapshot is
+ * recorded; only the change against the current pool price is computed
+ * per call.
+ *
+ * @param tokenId - Token with a TibetSwap pair
+ * @param currentPriceXch - Current pool price
+ * @returns Metrics, or null if no pool price was ever recorded for the token
+ */
+export async function getAmmActivity(
+  tokenId: string,
+  currentPriceXch: number
+): Promise<ActivityMetrics | null> {
+  let baseline = ammBaselines.get(tokenId);
+  if (baseline === undefined) {
+    baseline = await deriveAmmBaseline(tokenId);
+    ammBaselines.set(tokenId, baseline);
+  }
+  if (!baseline) return null;
+
+  const changeFrom = (basePrice: number | null): number | null =>
+    basePrice && currentPriceXch > 0 ? ((currentPriceXch - basePrice) / basePrice) * 100 : null;
+
+  return {
+    change24h: changeFrom(baseline.basePrice24h),
+    change7d: changeFrom(baseline.basePrice7d),
+    volume24hXch: baseline.volume24hXch,
+    volume7dXch: baseline.volume7dXch,
+  };
+}
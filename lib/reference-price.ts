@@ -0,0 +1,178 @@
+/**
+ * Reference Price Reconciliation
+ *
+ * Collects the price every source quoted for a token (plus the order book
+ * mid price) and picks the token's reference price according to the policy
+ * set with REFERENCE_PRICE_POLICY:
+ *
+ * - priority (default): the most preferred source's price
+ * - mid: the order book mid price, or priority without a two-sided book
+ * - median: the median of all source prices
+ *
+ * Every quote keeps its observation time and deviation from the reference,
+ * so the token page can show where a price came from and how far the venues
+ * disagree.
+ *
+ * @module lib/reference-price
+ */
+
+import {
+  PriceSourceId,
+  ReferencePricePolicy,
+  SourcePriceQuote,
+  TokenQuote,
+} from '@/contracts/types';
+
+const POLICIES: ReferencePricePolicy[] = ['priority', 'mid', 'median'];
+
+/**
+ * Quote of one source for a token
+ */
+export interface SourceQuoteEntry {
+  sourceId: PriceSourceId;
+  /** Source label (MarketDataSource.label) */
+  label: string;
+  quote: TokenQuote;
+}
+
+/**
+ * Order book mid price of a token and the source whose book it came from
+ */
+export interface MidPriceEntry {
+  sourceId: PriceSourceId;
+  /** Source label (MarketDataSource.label) */
+  label: string;
+  priceXch: number;
+  observedAt: string;
+}
+
+/**
+ * Reconciled prices of a token
+ */
+export interface ReconciledPrice {
+  /** Reference price in XCH */
+  priceXch: number;
+  /** Source the reference price is attributed to */
+  sourceId: PriceSourceId;
+  /** Every source price, reference first */
+  quotes: SourcePriceQuote[];
+  /** Spread between the highest and lowest price (undefined with a single price) */
+  divergencePct?: number;
+}
+
+/**
+ * Display names of source prices where the source label alone is ambiguous
+ */
+const PRICE_LABELS: Record<string, string> = {
+  dexie: 'Dexie last',
+  tibetswap: 'TibetSwap AMM',
+};
+
+/**
+ * Display names of order book mid prices (both Dexie feeds are the same book)
+ */
+const MID_LABELS: Record<string, string> = {
+  dexie: 'Dexie mid',
+  dexieOffers: 'Dexie mid',
+};
+
+/**
+ * Policy set with REFERENCE_PRICE_POLICY (priority when unset or unknown)
+ */
+export function getReferencePricePolicy(): ReferencePricePolicy {
+  const setting = process.env.REFERENCE_PRICE_POLICY?.trim().toLowerCase();
+  if (!setting) return 'priority';
+
+  if (POLICIES.includes(setting as ReferencePricePolicy)) {
+    return setting as ReferencePricePolicy;
+  }
+  console.warn(`Unknown REFERENCE_PRICE_POLICY (${setting}), using priority`);
+  return 'priority';
+}
+
+/**
+ * Median of a non-empty list (mean of the middle two for an even count)
+ *
+ * Shared with the XCH price oracles (lib/xch-price).
+ */
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Reconcile the source prices of a token
+ *
+ * @param entries - Quotes of the token, most preferred source first
+ * @param mid - Order book mid price, if a two-sided book exists
+ * @param policy - How to choose the reference price
+ * @returns Reconciled prices, or null when no source has a positive price
+ */
+export function reconcilePrices(
+  entries: SourceQuoteEntry[],
+  mid: MidPriceEntry | undefined,
+  policy: ReferencePricePolicy
+): ReconciledPrice | null {
+  const priced = entries.filter((entry) => entry.quote.priceXch > 0);
+  if (priced.length === 0) return null;
+
+  const quotes: Omit<SourcePriceQuote, 'deviationPct' | 'isReference'>[] = priced.map(
+    ({ sourceId, label, quote }) => ({
+      source: sourceId,
+      kind: 'price',
+      label: PRICE_LABELS[sourceId] ?? label,
+      priceXch: quote.priceXch,
+      observedAt: quote.priceTimestamp ?? quote.timestamp,
+    })
+  );
+
+  if (mid) {
+    quotes.push({
+      source: mid.sourceId,
+      kind: 'mid',
+      label: MID_LABELS[mid.sourceId] ?? `${mid.label} mid`,
+      priceXch: mid.priceXch,
+      observedAt: mid.observedAt,
+    });
+  }
+
+  // Index of the quote that sets (or, for median, is closest to) the reference price
+  let referenceIndex = 0;
+  let priceXch = quotes[0].priceXch;
+
+  if (policy === 'mid' && mid) {
+    referenceIndex = quotes.length - 1;
+    priceXch = mid.priceXch;
+  } else if (policy === 'median') {
+    priceXch = median(priced.map((entry) => entry.quote.priceXch));
+    quotes.forEach((quote, index) => {
+      if (
+        quote.kind === 'price' &&
+        Math.abs(quote.priceXch - priceXch) < Math.abs(quotes[referenceIndex].priceXch - priceXch)
+      ) {
+        referenceIndex = index;
+      }
+    });
+  }
+
+  const reconciled: SourcePriceQuote[] = quotes.map((quote, index) => ({
+    ...quote,
+    deviationPct: ((quote.priceXch - priceXch) / priceXch) * 100,
+    // A median between two prices is set by neither of them
+    isReference: index === referenceIndex && quote.priceXch === priceXch,
+  }));
+
+  const prices = reconciled.map((quote) => quote.priceXch);
+  const reference = reconciled[referenceIndex];
+
+  return {
+    priceXch,
+    sourceId: reference.source,
+    quotes: [reference, ...reconciled.filter((_, index) => index !== referenceIndex)],
+    divergencePct:
+      prices.length > 1
+        ? ((Math.max(...prices) - Math.min(...prices)) / priceXch) * 100
+        : undefined,
+  };
+}
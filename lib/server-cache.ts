@@ -0,0 +1,159 @@
+/**
+ * Server Cache
+ *
+ * In-process stale-while-revalidate cache shared by every request
+ * handled by this server instance.
+ *
+ * - Fresh entries are returned directly.
+ * - Expired entries are returned immediately while a single background
+ *   refresh runs.
+ * - Concurrent refreshes are coalesced into one upstream call.
+ * - When upstream fails, the last good value keeps being served and is
+ *   flagged stale until a refresh succeeds.
+ *
+ * @module lib/server-cache
+ */
+
+import { CacheStats, Result } from '@/contracts/types';
+
+/**
+ * Cache configuration
+ */
+export interface ServerCacheOptions {
+  /** How long an entry is served without revalidating */
+  ttlMs: number;
+  /** Oldest entry that is still served while revalidating (default: forever) */
+  maxStaleMs?: number;
+}
+
+/**
+ * Value returned by the cache with its age
+ */
+export interface CachedValue<T> {
+  value: T;
+  /** Milliseconds since the value was loaded */
+  ageMs: number;
+  /** True when the last refresh failed and this is an old value */
+  isStale: boolean;
+}
+
+/**
+ * A keyless SWR cache around one loader
+ */
+export interface ServerCache<T> {
+  /** Get the cached value, loading or revalidating as needed */
+  get: () => Promise<Result<CachedValue<T>>>;
+  /** Force a refresh, coalesced with any in-flight one */
+  refresh: () => Promise<Result<T>>;
+  /** Hit/miss statistics */
+  stats: () => CacheStats;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  loadedAt: number;
+}
+
+/**
+ * Create a stale-while-revalidate cache around a loader
+ *
+ * @param loader - Upstream fetch; failures are reported as Result errors
+ * @param options - TTL and maximum staleness
+ * @returns Cache instance
+ */
+export function createServerCache<T>(
+  loader: () => Promise<Result<T>>,
+  options: ServerCacheOptions
+): ServerCache<T> {
+  const { ttlMs, maxStaleMs = Infinity } = options;
+
+  let entry: CacheEntry<T> | null = null;
+  let inFlight: Promise<Result<T>> | null = null;
+  let lastRefreshFailed = false;
+
+  const stats: CacheStats = {
+    hits: 0,
+    misses: 0,
+    staleHits: 0,
+    coalesced: 0,
+    refreshes: 0,
+    failures: 0,
+    cachedAt: null,
+    lastError: null,
+  };
+
+  const refresh = (): Promise<Result<T>> => {
+    if (inFlight) {
+      stats.coalesced += 1;
+      return inFlight;
+    }
+
+    stats.refreshes += 1;
+    inFlight = loader()
+      .catch((error): Result<T> => ({
+        success: false,
+        error: error instanceof Error ? error : new Error('Unknown cache loader error'),
+      }))
+      .then((result) => {
+        if (result.success) {
+          entry = { value: result.data, loadedAt: Date.now() };
+          lastRefreshFailed = false;
+          stats.cachedAt = new Date(entry.loadedAt).toISOString();
+          stats.lastError = null;
+        } else {
+          lastRefreshFailed = true;
+          stats.failures += 1;
+          stats.lastError = result.error.message;
+        }
+        return result;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+
+    return inFlight;
+  };
+
+  const toCachedValue = (current: CacheEntry<T>): CachedValue<T> => ({
+    value: current.value,
+    ageMs: Date.now() - current.loadedAt,
+    isStale: lastRefreshFailed,
+  });
+
+  const get = async (): Promise<Result<CachedValue<T>>> => {
+    const current = entry;
+    const age = current ? Date.now() - current.loadedAt : Infinity;
+
+    if (current && age < ttlMs) {
+      stats.hits += 1;
+      return { success: true, data: toCachedValue(current) };
+    }
+
+    if (current && age < maxStaleMs) {
+      // Serve the old value now, revalidate in the background
+      stats.staleHits += 1;
+      void refresh();
+      return { success: true, data: toCachedValue(current) };
+    }
+
+    stats.misses += 1;
+    const result = await refresh();
+
+    if (result.success && entry) {
+      return { success: true, data: toCachedValue(entry) };
+    }
+
+    // Upstream failed - fall back to any value we still have, however old
+    if (entry) {
+      return { success: true, data: toCachedValue(entry) };
+    }
+
+    return { success: false, error: result.success ? new Error('Cache is empty') : result.error };
+  };
+
+  return {
+    get,
+    refresh,
+    stats: () => ({ ...stats }),
+  };
+}
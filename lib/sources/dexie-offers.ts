@@ -0,0 +1,51 @@
+/**
+ * Dexie Active Offers Source
+ *
+ * Supplies best bid/ask and a depth curve from order books built out of
+ * active Dexie offers (lib/orderbook). Books are fetched per token on demand, so this
+ * source only reports tokens whose book was read recently - it never
+ * fans out one request per listed token. Provides no price.
+ *
+ * @module lib/sources/dexie-offers
+ */
+
+import { OrderBook, Result, TokenQuote } from '@/contracts/types';
+import { getRecentOrderBooks } from '../orderbook';
+import { depthCurveFromLevels } from '../liquidity';
+import { createMarketDataSource } from './registry';
+
+/**
+ * Oldest order book used for bid/ask
+ */
+const MAX_BOOK_AGE_MS = 5 * 60 * 1000;
+
+async function fetchRecentOrderBooks(): Promise<Result<OrderBook[]>> {
+  return { success: true, data: getRecentOrderBooks(MAX_BOOK_AGE_MS) };
+}
+
+export const dexieOffersSource = createMarketDataSource<OrderBook[]>({
+  id: 'dexieOffers',
+  label: 'Dexie offers',
+  priority: 40,
+  capabilities: {
+    price: false,
+    change: false,
+    volume: false,
+    liquidity: true,
+    highLow: false,
+    bidAsk: true,
+  },
+  fetch: fetchRecentOrderBooks,
+  normalize: (books) =>
+    books.map(
+      (book): TokenQuote => ({
+        tokenId: book.tokenId,
+        // No price - the merge only takes bid/ask and depth from this quote
+        priceXch: 0,
+        bestBid: book.bids[0]?.price,
+        bestAsk: book.asks[0]?.price,
+        depth: depthCurveFromLevels(book.asks, book.bids),
+        timestamp: book.fetchedAt,
+      })
+    ),
+});
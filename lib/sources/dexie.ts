@@ -0,0 +1,158 @@
+/**
+ * Dexie Orderbook Source
+ *
+ * Prices tokens from Dexie /v1/markets (XCH quote group). Provides the
+ * full set of quote fields: price, change, volume, high/low, and best
+ * bid/ask and a depth curve from the depth ladders.
+ *
+ * @module lib/sources/dexie
+ */
+
+import {
+  DepthCurve,
+  DepthPoint,
+  DexieMarket,
+  DexieQuoteGroup,
+  PriceDepth,
+  TokenQuote,
+} from '@/contracts/types';
+import { fetchMarkets } from '../dexie-api';
+import { safeNumber } from '../transform';
+import { createMarketDataSource } from './registry';
+
+/**
+ * Convert a depth ladder into depth curve points, smallest fill first
+ *
+ * Each ladder entry is the average price of filling `depth` XCH, while a
+ * depth point carries the marginal price (XCH fillable up to that price).
+ * Each step between two entries is priced by the tokens it adds:
+ * Δdepth / Δtokens, with tokens = depth / average price. A step that adds
+ * no tokens means an inconsistent ladder, and the curve stops there.
+ */
+function ladderToPoints(depths: PriceDepth[] | undefined): DepthPoint[] {
+  if (!Array.isArray(depths)) return [];
+
+  const entries = depths
+    .filter((entry) => safeNumber(entry?.price) > 0 && safeNumber(entry?.depth) > 0)
+    .sort((a, b) => a.depth - b.depth);
+
+  const points: DepthPoint[] = [];
+  let previousDepth = 0;
+  let previousTokens = 0;
+
+  for (const entry of entries) {
+    const tokens = entry.depth / entry.price;
+    const stepXch = entry.depth - previousDepth;
+    const stepTokens = tokens - previousTokens;
+
+    if (stepXch <= 0) continue;
+    if (stepTokens <= 0) break;
+
+    points.push({ price: stepXch / stepTokens, cumulativeXch: entry.depth });
+    previousDepth = entry.depth;
+    previousTokens = tokens;
+  }
+
+  return points;
+}
+
+/**
+ * Depth curve of a market from its depth ladders
+ *
+ * "buy" is the price to buy the token (asks), "sell" the price to sell it (bids).
+ */
+export function getMarketDepthCurve(market: DexieMarket): DepthCurve {
+  return {
+    asks: ladderToPoints(market.prices?.buy),
+    bids: ladderToPoints(market.prices?.sell),
+  };
+}
+
+/**
+ * Best price of a depth ladder: the entry quoted for the smallest size
+ *
+ * @returns Price in XCH, or undefined if the side is empty
+ */
+function getTopOfBook(depths: PriceDepth[] | undefined): number | undefined {
+  if (!Array.isArray(depths)) return undefined;
+
+  let top: PriceDepth | undefined;
+  for (const entry of depths) {
+    if (!(safeNumber(entry?.price) > 0)) continue;
+    if (!top || safeNumber(entry.depth) < safeNumber(top.depth)) top = entry;
+  }
+
+  return top?.price;
+}
+
+/**
+ * Convert an upstream date to an ISO timestamp (undefined when unparsable)
+ */
+function toIsoTimestamp(value: string | undefined): string | undefined {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Normalize a single market entry into a quote
+ *
+ * @returns Quote, or null if the market has no price
+ */
+function marketToQuote(market: DexieMarket, timestamp: string): TokenQuote | null {
+  const priceXch = safeNumber(market.prices?.last?.price);
+
+  // Skip tokens with no price data
+  if (priceXch === 0) {
+    return null;
+  }
+
+  return {
+    tokenId: market.id,
+    symbol: market.code,
+    name: market.name,
+    priceXch,
+    // API returns changes as decimals, convert to %
+    change24h: safeNumber(market.prices?.last?.change?.daily) * 100,
+    change7d: safeNumber(market.prices?.last?.change?.weekly) * 100,
+    volume24hXch: safeNumber(market.volume?.xch?.daily),
+    volume7dXch: safeNumber(market.volume?.xch?.weekly),
+    depth: getMarketDepthCurve(market),
+    high24h: safeNumber(market.prices?.high?.daily),
+    low24h: safeNumber(market.prices?.low?.daily),
+    // "buy" is the price to buy the token (asks), "sell" the price to sell it (bids)
+    bestBid: getTopOfBook(market.prices?.sell),
+    bestAsk: getTopOfBook(market.prices?.buy),
+    pairId: market.pair_id || '',
+    timestamp,
+    priceTimestamp: toIsoTimestamp(market.prices?.last?.date),
+    metricsSource: 'market',
+  };
+}
+
+export const dexieSource = createMarketDataSource<DexieQuoteGroup[]>({
+  id: 'dexie',
+  label: 'Dexie',
+  priority: 10,
+  capabilities: {
+    price: true,
+    change: true,
+    volume: true,
+    liquidity: true,
+    highLow: true,
+    bidAsk: true,
+  },
+  required: true,
+  fetch: fetchMarkets,
+  normalize: (groups) => {
+    const timestamp = new Date().toISOString();
+    const quotes: TokenQuote[] = [];
+    const markets = groups.find((group) => group.quote === 'xch')?.markets ?? [];
+
+    for (const market of markets) {
+      const quote = marketToQuote(market, timestamp);
+      if (quote) quotes.push(quote);
+    }
+
+    return quotes;
+  },
+});
@@ -0,0 +1,64 @@
+/**
+ * Implied XCH Price Source
+ *
+ * Prices tokens that have no XCH market on Dexie but trade against
+ * stablecoins or other CATs: the pair price times the quote asset's XCH
+ * price. When a token has several such pairs, the one with the most XCH
+ * volume sets the price.
+ *
+ * @module lib/sources/implied-xch
+ */
+
+import { DexieQuoteGroup, MarketPair, TokenQuote } from '@/contracts/types';
+import { fetchMarkets } from '../dexie-api';
+import { buildMarketPairs } from '../market-pairs';
+import { safeNumber } from '../transform';
+import { createMarketDataSource } from './registry';
+
+export const impliedXchSource = createMarketDataSource<DexieQuoteGroup[]>({
+  id: 'impliedXch',
+  label: 'Dexie cross pairs',
+  priority: 25,
+  capabilities: {
+    price: true,
+    change: false,
+    volume: true,
+    liquidity: false,
+    highLow: false,
+    bidAsk: false,
+  },
+  fetch: fetchMarkets,
+  normalize: (groups, context) => {
+    const timestamp = new Date().toISOString();
+    const pairs = buildMarketPairs(groups, context.registry);
+
+    // Tokens with a direct XCH market are priced by the Dexie source
+    const hasXchMarket = new Set(
+      pairs.filter((pair) => pair.quoteId === 'xch').map((pair) => pair.baseId)
+    );
+
+    const best = new Map<string, MarketPair>();
+    for (const pair of pairs) {
+      if (pair.quoteId === 'xch' || pair.priceXch === null) continue;
+      if (hasXchMarket.has(pair.baseId) || !context.registry.has(pair.baseId)) continue;
+
+      const current = best.get(pair.baseId);
+      if (!current || safeNumber(pair.volume24hXch) > safeNumber(current.volume24hXch)) {
+        best.set(pair.baseId, pair);
+      }
+    }
+
+    return Array.from(best.values()).map(
+      (pair): TokenQuote => ({
+        tokenId: pair.baseId,
+        symbol: pair.baseSymbol,
+        priceXch: pair.priceXch ?? 0,
+        volume24hXch: safeNumber(pair.volume24hXch),
+        volume7dXch: safeNumber(pair.volume7dXch),
+        metricsSource: 'market',
+        pairId: pair.pairId,
+        timestamp,
+      })
+    );
+  },
+});
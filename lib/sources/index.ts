@@ -0,0 +1,35 @@
+/**
+ * Market Data Sources
+ *
+ * Registers the built-in sources. Import from here (not from the
+ * individual adapters) so the registry is always populated.
+ *
+ * To add a venue, create an adapter with createMarketDataSource and
+ * register it below - no changes to the merge logic are needed.
+ *
+ * @module lib/sources
+ */
+
+import { registerSource } from './registry';
+import { dexieSource } from './dexie';
+import { tibetSwapSource } from './tibetswap';
+import { impliedXchSource } from './implied-xch';
+import { lastTradeSource } from './last-trade';
+import { dexieOffersSource } from './dexie-offers';
+
+registerSource(dexieSource);
+registerSource(tibetSwapSource);
+registerSource(impliedXchSource);
+registerSource(lastTradeSource);
+registerSource(dexieOffersSource);
+
+export {
+  createMarketDataSource,
+  registerSource,
+  unregisterSource,
+  getSource,
+  getSources,
+  fetchAllSources,
+  normalizeAllSources,
+} from './registry';
+export type { SourceQuotes, SourceFetchResult, MarketDataSourceDefinition } from './registry';
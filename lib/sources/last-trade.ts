@@ -0,0 +1,46 @@
+/**
+ * Last Trade Source
+ *
+ * Prices tokens from their most recent completed Dexie offer. Used as a
+ * last resort for known tokens without an orderbook market or AMM pair.
+ * Change and volume are derived from the crawled completed offers.
+ *
+ * @module lib/sources/last-trade
+ */
+
+import { TokenQuote } from '@/contracts/types';
+import { LastTradePrice, fetchLastTradePrices } from '../last-trade-prices';
+import { createMarketDataSource } from './registry';
+
+export const lastTradeSource = createMarketDataSource<Map<string, LastTradePrice>>({
+  id: 'lastTrade',
+  label: 'Last trade',
+  priority: 30,
+  capabilities: { price: true, change: true, volume: true, liquidity: false, highLow: false, bidAsk: false },
+  fetch: fetchLastTradePrices,
+  normalize: (lastTradePrices, context) => {
+    const quotes: TokenQuote[] = [];
+
+    // Only price tokens the registry knows - offers can reference arbitrary assets
+    for (const token of Array.from(context.registry.values())) {
+      const lastTrade = lastTradePrices.get(token.id);
+      if (!lastTrade) continue;
+
+      const activity = lastTrade.activity;
+
+      quotes.push({
+        tokenId: token.id,
+        symbol: lastTrade.tokenSymbol || undefined,
+        priceXch: lastTrade.priceXch,
+        change24h: activity?.change24h ?? undefined,
+        change7d: activity?.change7d ?? undefined,
+        volume24hXch: activity?.volume24hXch,
+        volume7dXch: activity?.volume7dXch,
+        metricsSource: activity ? 'trades' : undefined,
+        timestamp: lastTrade.date,
+      });
+    }
+
+    return quotes;
+  },
+});
@@ -0,0 +1,147 @@
+/**
+ * Market Data Source Registry
+ *
+ * Holds every registered MarketDataSource and runs them together.
+ * New venues are added by registering a source - the merge in
+ * lib/transform.ts only looks at priorities and quotes.
+ *
+ * @module lib/sources/registry
+ */
+
+import {
+  MarketDataSource,
+  PriceSourceId,
+  Result,
+  SourceContext,
+  SourceHealth,
+  TokenQuote,
+} from '@/contracts/types';
+
+/**
+ * Quotes normalized from one source, tagged with that source
+ */
+export interface SourceQuotes {
+  source: MarketDataSource;
+  quotes: TokenQuote[];
+}
+
+/**
+ * Raw fetch result of one source
+ */
+export interface SourceFetchResult {
+  source: MarketDataSource;
+  result: Result<unknown>;
+}
+
+/**
+ * Definition passed to createMarketDataSource (health is provided for you)
+ */
+export type MarketDataSourceDefinition<TRaw> = Omit<MarketDataSource<TRaw>, 'health'>;
+
+const sources = new Map<PriceSourceId, MarketDataSource>();
+
+/**
+ * Create a source whose health is tracked from its own fetch results
+ *
+ * @param definition - Source definition without health
+ * @returns Source with fetch wrapped for health tracking
+ */
+export function createMarketDataSource<TRaw>(
+  definition: MarketDataSourceDefinition<TRaw>
+): MarketDataSource<TRaw> {
+  const state: SourceHealth = {
+    status: 'unknown',
+    lastSuccess: null,
+    lastError: null,
+    consecutiveFailures: 0,
+  };
+
+  return {
+    ...definition,
+    fetch: async () => {
+      const result = await definition.fetch();
+
+      if (result.success) {
+        state.status = 'healthy';
+        state.lastSuccess = new Date().toISOString();
+        state.consecutiveFailures = 0;
+      } else {
+        state.consecutiveFailures += 1;
+        state.lastError = result.error.message;
+        state.status = state.consecutiveFailures >= 3 ? 'down' : 'degraded';
+      }
+
+      return result;
+    },
+    health: () => ({ ...state }),
+  };
+}
+
+/**
+ * Register a market data source (replaces any source with the same ID)
+ */
+export function registerSource<TRaw>(source: MarketDataSource<TRaw>): void {
+  sources.set(source.id, source as MarketDataSource);
+}
+
+/**
+ * Remove a market data source from the registry
+ */
+export function unregisterSource(id: PriceSourceId): void {
+  sources.delete(id);
+}
+
+/**
+ * Get a registered source by ID
+ */
+export function getSource(id: PriceSourceId): MarketDataSource | undefined {
+  return sources.get(id);
+}
+
+/**
+ * Get all registered sources, most preferred first
+ */
+export function getSources(): MarketDataSource[] {
+  return Array.from(sources.values()).sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Fetch raw data from every registered source in parallel
+ *
+ * @returns One result per source, most preferred first
+ */
+export async function fetchAllSources(): Promise<SourceFetchResult[]> {
+  const registered = getSources();
+  const results = await Promise.all(registered.map((source) => source.fetch()));
+
+  return registered.map((source, index) => ({ source, result: results[index] }));
+}
+
+/**
+ * Normalize every successful fetch result into quotes
+ *
+ * A source whose normalize throws is treated as having no quotes,
+ * so one malformed feed cannot break the others.
+ *
+ * @param fetchResults - Results from fetchAllSources
+ * @param context - Shared normalization context
+ * @returns Quotes per source, most preferred first
+ */
+export function normalizeAllSources(
+  fetchResults: SourceFetchResult[],
+  context: SourceContext
+): SourceQuotes[] {
+  const normalized: SourceQuotes[] = [];
+
+  for (const { source, result } of fetchResults) {
+    if (!result.success) continue;
+
+    try {
+      normalized.push({ source, quotes: source.normalize(result.data, context) });
+    } catch (error) {
+      console.error(`Failed to normalize ${source.id} data:`, error);
+    }
+  }
+
+  return normalized;
+}
@@ -0,0 +1,102 @@
+/**
+ * TibetSwap AMM Source
+ *
+ * Prices tokens from TibetSwap pair reserves. Provides price and the
+ * pool reserves used for liquidity. The pairs endpoint has no change or
+ * volume data, so both are derived from recorded reserve snapshots
+ * (lib/price-history).
+ *
+ * @module lib/sources/tibetswap
+ */
+
+import { ActivityMetrics, Result, TokenQuote } from '@/contracts/types';
+import { TibetSwapPair, fetchTibetSwapPairs, calculatePriceFromReserves } from '../tibetswap-api';
+import { getPoolFromPair } from '../amm-quote';
+import { getAmmActivity } from '../price-history';
+import { fetchTokenRegistry, getTokenDenom } from '../token-registry';
+import { createMarketDataSource } from './registry';
+
+/**
+ * Pairs with the activity derived from their recorded reserves
+ */
+interface TibetSwapSnapshot {
+  pairs: TibetSwapPair[];
+  activity: Map<string, ActivityMetrics>;
+}
+
+/**
+ * Fetch pairs and derive each pair's change and volume from its history
+ *
+ * Pairs are measured concurrently against baselines cached until the next
+ * snapshot (lib/price-history). Activity is best effort: without the
+ * registry or history the pairs are still returned.
+ */
+async function fetchPairsWithActivity(): Promise<Result<TibetSwapSnapshot>> {
+  const [pairsResult, registryResult] = await Promise.all([
+    fetchTibetSwapPairs(),
+    fetchTokenRegistry(),
+  ]);
+  if (!pairsResult.success) return pairsResult;
+
+  const activity = new Map<string, ActivityMetrics>();
+  if (registryResult.success) {
+    try {
+      const registry = registryResult.data;
+      const metrics = await Promise.all(
+        pairsResult.data.map((pair) => {
+          const denom = getTokenDenom(registry, pair.asset_id);
+          const priceXch = calculatePriceFromReserves(pair.xch_reserve, pair.token_reserve, denom);
+          return getAmmActivity(pair.asset_id, priceXch);
+        })
+      );
+
+      pairsResult.data.forEach((pair, index) => {
+        const pairMetrics = metrics[index];
+        if (pairMetrics) activity.set(pair.asset_id, pairMetrics);
+      });
+    } catch (error) {
+      console.warn('Failed to derive TibetSwap activity from reserve history:', error);
+    }
+  }
+
+  return { success: true, data: { pairs: pairsResult.data, activity } };
+}
+
+export const tibetSwapSource = createMarketDataSource<TibetSwapSnapshot>({
+  id: 'tibetswap',
+  label: 'TibetSwap',
+  priority: 20,
+  capabilities: {
+    price: true,
+    change: true,
+    volume: true,
+    liquidity: true,
+    highLow: false,
+    bidAsk: false,
+  },
+  fetch: fetchPairsWithActivity,
+  normalize: ({ pairs, activity }, context) => {
+    const timestamp = new Date().toISOString();
+
+    return pairs.map((pair): TokenQuote => {
+      const denom = getTokenDenom(context.registry, pair.asset_id);
+      const metrics = activity.get(pair.asset_id);
+
+      return {
+        tokenId: pair.asset_id,
+        symbol: pair.asset_short_name,
+        name: pair.asset_name,
+        iconUrl: pair.asset_image_url,
+        priceXch: calculatePriceFromReserves(pair.xch_reserve, pair.token_reserve, denom),
+        change24h: metrics?.change24h ?? undefined,
+        change7d: metrics?.change7d ?? undefined,
+        volume24hXch: metrics?.volume24hXch,
+        volume7dXch: metrics?.volume7dXch,
+        metricsSource: metrics ? 'reserves' : undefined,
+        pool: getPoolFromPair(pair, denom),
+        pairId: pair.pair_id,
+        timestamp,
+      };
+    });
+  },
+});
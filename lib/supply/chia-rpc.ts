@@ -0,0 +1,103 @@
+/**
+ * Chia Full Node Supply Provider
+ *
+ * Derives circulating supply from the chain: the token's total supply
+ * (from the local registry) minus the unspent CAT coins held at its
+ * locked puzzle hashes, read with the full node's
+ * `get_coin_records_by_puzzle_hashes` RPC.
+ *
+ * Enabled by CHIA_RPC_URL (e.g. `https://localhost:8555`). Requests are
+ * plain JSON POSTs without client certificates, so point it at a node
+ * behind a TLS-terminating proxy or at a local stand-in that implements
+ * the same endpoint.
+ *
+ * @module lib/supply/chia-rpc
+ */
+
+import { SupplyProvider } from '@/contracts/types';
+import { upstreamRequest } from '../http-client';
+import { withUpstream } from '../upstream-health';
+import { fetchTokenRegistry, getTokenDenom } from '../token-registry';
+import { readSupplyRegistry, toSupply } from './local-registry';
+
+interface CoinRecordsResponse {
+  success: boolean;
+  error?: string;
+  coin_records?: { coin: { amount: number } }[];
+}
+
+/**
+ * Configured RPC endpoint, or null when the provider is disabled
+ */
+export function getChiaRpcUrl(): string | null {
+  const url = process.env.CHIA_RPC_URL;
+  return url ? url.replace(/\/+$/, '') : null;
+}
+
+/**
+ * Sum the unspent coins at the given puzzle hashes
+ *
+ * @returns Balance in mojos
+ */
+async function fetchUnspentBalance(rpcUrl: string, puzzleHashes: string[]): Promise<number> {
+  const data = await withUpstream('chia-rpc', async (): Promise<CoinRecordsResponse> => {
+    const response = await upstreamRequest(`${rpcUrl}/get_coin_records_by_puzzle_hashes`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ puzzle_hashes: puzzleHashes, include_spent_coins: false }),
+      cache: 'no-store',
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  });
+
+  if (!data.success || !Array.isArray(data.coin_records)) {
+    throw new Error(data.error || 'Invalid response from get_coin_records_by_puzzle_hashes');
+  }
+
+  return data.coin_records.reduce((sum, record) => sum + (Number(record.coin?.amount) || 0), 0);
+}
+
+export const chiaRpcSupplyProvider: SupplyProvider = {
+  id: 'chiaRpc',
+  label: 'Chia full node',
+  getSupply: async (tokenId) => {
+    const rpcUrl = getChiaRpcUrl();
+    const entry = (await readSupplyRegistry())[tokenId];
+    const total = toSupply(entry?.total);
+
+    // Needs a node, the total, and the locked addresses to subtract
+    if (!rpcUrl || !total || !entry?.lockedPuzzleHashes?.length) {
+      return { success: true, data: null };
+    }
+
+    try {
+      // The supply file's denom wins; otherwise use the token registry's
+      let denom = entry.denom;
+      if (!denom) {
+        const registry = await fetchTokenRegistry();
+        if (!registry.success) return registry;
+        denom = getTokenDenom(registry.data, tokenId);
+      }
+
+      const lockedMojos = await fetchUnspentBalance(rpcUrl, entry.lockedPuzzleHashes);
+      const locked = toSupply(lockedMojos / denom);
+      if (locked === null) {
+        throw new Error(`Invalid locked balance from node: ${lockedMojos}`);
+      }
+
+      return {
+        success: true,
+        data: { circulating: Math.max(0, total - locked), total },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error('Unknown error fetching supply from node'),
+      };
+    }
+  },
+};
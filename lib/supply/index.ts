@@ -0,0 +1,107 @@
+/**
+ * Token Supply
+ *
+ * Looks up circulating and total supply through pluggable providers and
+ * values it at the token price (market cap and fully diluted value).
+ * Providers are asked in registration order; for each figure the first
+ * provider that knows it wins, so a live provider can override the
+ * hand-maintained registry.
+ *
+ * @module lib/supply
+ */
+
+import { DashboardToken, SupplyProvider, TokenDetail, TokenSupply } from '@/contracts/types';
+import { localSupplyProvider } from './local-registry';
+import { chiaRpcSupplyProvider } from './chia-rpc';
+
+/**
+ * How long a token's supply is reused before providers are asked again
+ */
+const SUPPLY_CACHE_TTL_MS = 10 * 60 * 1000;
+
+const providers: SupplyProvider[] = [];
+const supplyCache = new Map<string, { supply: TokenSupply | null; cachedAt: number }>();
+
+/**
+ * Add a supply provider (asked after the ones already registered)
+ */
+export function registerSupplyProvider(provider: SupplyProvider): void {
+  if (!providers.some((existing) => existing.id === provider.id)) {
+    providers.push(provider);
+    supplyCache.clear();
+  }
+}
+
+registerSupplyProvider(chiaRpcSupplyProvider);
+registerSupplyProvider(localSupplyProvider);
+
+/**
+ * Get a token's supply from the registered providers
+ *
+ * @param tokenId - Token asset ID
+ * @returns Supply, or null if no provider knows the token
+ */
+export async function fetchTokenSupply(tokenId: string): Promise<TokenSupply | null> {
+  const hit = supplyCache.get(tokenId);
+  if (hit && Date.now() - hit.cachedAt < SUPPLY_CACHE_TTL_MS) {
+    return hit.supply;
+  }
+
+  let circulating: number | null = null;
+  let total: number | null = null;
+  const sources: string[] = [];
+
+  for (const provider of providers) {
+    if (circulating !== null && total !== null) break;
+
+    const result = await provider.getSupply(tokenId);
+    if (!result.success) {
+      console.warn(`Supply provider ${provider.id} failed for ${tokenId}:`, result.error);
+      continue;
+    }
+    if (!result.data) continue;
+
+    let used = false;
+    if (circulating === null && result.data.circulating !== null) {
+      circulating = result.data.circulating;
+      used = true;
+    }
+    if (total === null && result.data.total !== null) {
+      total = result.data.total;
+      used = true;
+    }
+    if (used) sources.push(provider.id);
+  }
+
+  const supply: TokenSupply | null =
+    circulating === null && total === null
+      ? null
+      : { tokenId, circulating, total, sources, updatedAt: new Date().toISOString() };
+
+  supplyCache.set(tokenId, { supply, cachedAt: Date.now() });
+  return supply;
+}
+
+/**
+ * Value a token's supply at its current price
+ *
+ * @param supply - Token supply, or null if unknown
+ * @returns Market cap and FDV in XCH and USD (undefined where the figure is unknown)
+ */
+export function calculateValuation(
+  token: DashboardToken,
+  supply: TokenSupply | null,
+  xchUsdPrice: number
+): Pick<TokenDetail, 'marketCapXch' | 'marketCapUsd' | 'fdvXch' | 'fdvUsd'> {
+  if (!supply || !(token.priceXch > 0)) return {};
+
+  const marketCapXch = supply.circulating !== null ? supply.circulating * token.priceXch : undefined;
+  const fdvXch = supply.total !== null ? supply.total * token.priceXch : undefined;
+
+  return {
+    marketCapXch,
+    marketCapUsd: marketCapXch !== undefined ? marketCapXch * xchUsdPrice : undefined,
+    fdvXch,
+    fdvUsd: fdvXch !== undefined ? fdvXch * xchUsdPrice : undefined,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Local Supply Registry
+ *
+ * Supply figures maintained by hand in a JSON file (default
+ * `data/token-supply.json`, override with TOKEN_SUPPLY_FILE), keyed by
+ * asset ID:
+ *
+ *   {
+ *     "tokens": {
+ *       "<asset id>": {
+ *         "total": 1000000,
+ *         "circulating": 750000,
+ *         "denom": 1000,
+ *         "lockedPuzzleHashes": ["0x..."]
+ *       }
+ *     }
+ *   }
+ *
+ * `lockedPuzzleHashes` (CAT outer puzzle hashes of treasury, vesting or
+ * burn addresses) are used by the Chia RPC provider to derive the
+ * circulating supply from the chain.
+ *
+ * Entries are validated like token registry overrides (lib/validators):
+ * malformed ones are skipped and counted in the `token-supply` report.
+ *
+ * @module lib/supply/local-registry
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SupplyProvider } from '@/contracts/types';
+import { validateRecords, validateSupplyEntry } from '../validators';
+
+/**
+ * One token in the registry file
+ */
+export interface SupplyRegistryEntry {
+  /** Total supply in whole tokens */
+  total?: number;
+  /** Circulating supply in whole tokens */
+  circulating?: number;
+  /** Token mojos per token (defaults to the token registry's) */
+  denom?: number;
+  /** Puzzle hashes whose balance is not circulating */
+  lockedPuzzleHashes?: string[];
+}
+
+const SUPPLY_FILE =
+  process.env.TOKEN_SUPPLY_FILE || path.join(process.cwd(), 'data', 'token-supply.json');
+
+/**
+ * How long the parsed file is reused before it is read again
+ */
+const RELOAD_INTERVAL_MS = 60 * 1000;
+
+let cached: { entries: Record<string, SupplyRegistryEntry>; loadedAt: number } | null = null;
+
+/**
+ * Keep a figure only if it is a finite, non-negative number
+ */
+export function toSupply(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+}
+
+/**
+ * Read the registry file
+ *
+ * @returns Entries by asset ID (empty when the file is missing or invalid;
+ *   entries that fail validation are skipped)
+ */
+export async function readSupplyRegistry(): Promise<Record<string, SupplyRegistryEntry>> {
+  if (cached && Date.now() - cached.loadedAt < RELOAD_INTERVAL_MS) {
+    return cached.entries;
+  }
+
+  let entries: Record<string, SupplyRegistryEntry> = {};
+  try {
+    const parsed = JSON.parse(await fs.readFile(SUPPLY_FILE, 'utf8'));
+    if (parsed && typeof parsed.tokens === 'object' && !Array.isArray(parsed.tokens)) {
+      const raw = Object.entries(parsed.tokens as Record<string, unknown>).map(([id, entry]) =>
+        entry && typeof entry === 'object' ? { ...entry, id } : entry
+      );
+      const { records } = validateRecords('token-supply', raw, validateSupplyEntry);
+
+      entries = Object.fromEntries(records.map(({ id, ...entry }) => [id, entry]));
+    }
+  } catch (error) {
+    console.warn(`Failed to read supply registry ${SUPPLY_FILE}:`, error);
+  }
+
+  cached = { entries, loadedAt: Date.now() };
+  return entries;
+}
+
+export const localSupplyProvider: SupplyProvider = {
+  id: 'local',
+  label: 'Local registry',
+  getSupply: async (tokenId) => {
+    const entry = (await readSupplyRegistry())[tokenId];
+    if (!entry) return { success: true, data: null };
+
+    return {
+      success: true,
+      data: { circulating: toSupply(entry.circulating), total: toSupply(entry.total) },
+    };
+  },
+};
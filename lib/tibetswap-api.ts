@@ -6,6 +6,9 @@
  */
 
 import { Result } from '@/contracts/types';
+import { withUpstream } from './upstream-health';
+import { upstreamRequest } from './http-client';
+import { validateRecords, validateTibetSwapPair, validateTibetSwapToken } from './validators';
 
 const TIBETSWAP_API = 'https://api.v2.tibetswap.io';
 
@@ -22,31 +25,72 @@ export interface TibetSwapPair {
 
 export interface TibetSwapToken {
   asset_id: string;
+  pair_id: string;
   name: string;
   short_name: string;
+  image_url: string;
   verified: boolean;
 }
 
+/**
+ * How long a fetched pairs list is reused (quotes are requested per
+ * keystroke, and the host allows only ~2 requests per second)
+ */
+const PAIRS_CACHE_TTL_MS = 10 * 1000;
+
+let cachedPairs: { pairs: TibetSwapPair[]; fetchedAt: number } | null = null;
+
+/**
+ * In-flight pairs request, shared by concurrent callers
+ */
+let pairsInFlight: Promise<Result<TibetSwapPair[]>> | null = null;
+
 /**
  * Fetch all trading pairs from TibetSwap
+ *
+ * A successful response is reused for PAIRS_CACHE_TTL_MS and concurrent
+ * callers share one request.
  */
-export async function fetchTibetSwapPairs(): Promise<Result<TibetSwapPair[]>> {
+export function fetchTibetSwapPairs(): Promise<Result<TibetSwapPair[]>> {
+  if (cachedPairs && Date.now() - cachedPairs.fetchedAt < PAIRS_CACHE_TTL_MS) {
+    return Promise.resolve({ success: true, data: cachedPairs.pairs });
+  }
+
+  if (!pairsInFlight) {
+    pairsInFlight = fetchPairs()
+      .then((result) => {
+        if (result.success) cachedPairs = { pairs: result.data, fetchedAt: Date.now() };
+        return result;
+      })
+      .finally(() => {
+        pairsInFlight = null;
+      });
+  }
+  return pairsInFlight;
+}
+
+async function fetchPairs(): Promise<Result<TibetSwapPair[]>> {
   try {
-    const response = await fetch(`${TIBETSWAP_API}/pairs`, {
-      next: { revalidate: 60 }, // Cache for 1 minute
-    });
+    const data: unknown = await withUpstream('tibetswap', async () => {
+      const response = await upstreamRequest(`${TIBETSWAP_API}/pairs`, {
+        next: { revalidate: 60 }, // Cache for 1 minute
+      });
 
-    if (!response.ok) {
-      throw new Error(`TibetSwap API error: ${response.status}`);
-    }
+      if (!response.ok) {
+        throw new Error(`TibetSwap API error: ${response.status}`);
+      }
 
-    const data = await response.json();
+      return response.json();
+    });
 
     if (!Array.isArray(data)) {
       return { success: false, error: new Error('Invalid TibetSwap response') };
     }
 
-    return { success: true, data };
+    // Drop pairs with unusable reserves, repair the rest
+    const { records } = validateRecords('tibetswap-pairs', data, validateTibetSwapPair);
+
+    return { success: true, data: records };
   } catch (error) {
     console.error('TibetSwap fetch error:', error);
     return {
@@ -56,14 +100,48 @@ export async function fetchTibetSwapPairs(): Promise<Result<TibetSwapPair[]>> {
   }
 }
 
+/**
+ * Fetch the token list from TibetSwap (names, icons and verified flags)
+ */
+export async function fetchTibetSwapTokens(): Promise<Result<TibetSwapToken[]>> {
+  try {
+    const data: unknown = await withUpstream('tibetswap', async () => {
+      const response = await upstreamRequest(`${TIBETSWAP_API}/tokens`, {
+        next: { revalidate: 300 }, // Token list changes rarely
+      });
+
+      if (!response.ok) {
+        throw new Error(`TibetSwap API error: ${response.status}`);
+      }
+
+      return response.json();
+    });
+
+    if (!Array.isArray(data)) {
+      return { success: false, error: new Error('Invalid TibetSwap tokens response') };
+    }
+
+    const { records } = validateRecords('tibetswap-tokens', data, validateTibetSwapToken);
+
+    return { success: true, data: records };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error('Unknown error'),
+    };
+  }
+}
+
 /**
  * Calculate price in XCH per token from reserves
  * TibetSwap reserves are in mojos (1 XCH = 10^12 mojos)
+ *
+ * @param tokenDenom - Token mojos per token (from the token registry)
  */
 export function calculatePriceFromReserves(
   xchReserve: number,
   tokenReserve: number,
-  tokenDenom: number = 1000 // Default denom
+  tokenDenom: number
 ): number {
   if (tokenReserve === 0) return 0;
 
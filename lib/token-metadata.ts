@@ -0,0 +1,127 @@
+/**
+ * Token Metadata
+ *
+ * Descriptive metadata for the token page (description, website, social
+ * links, tags, launch date), merged from:
+ *
+ * 1. the curated override file of the token registry (lib/token-registry)
+ *    - always wins
+ * 2. the Dexie token list, for the fields it carries
+ *
+ * Links are only kept when they are http(s) URLs, since they are rendered
+ * as anchors.
+ *
+ * @module lib/token-metadata
+ */
+
+import {
+  DexieToken,
+  Result,
+  TokenMetadata,
+  TokenMetadataSource,
+  TokenSocialPlatform,
+} from '@/contracts/types';
+import { TokenOverride, fetchTokenSources } from './token-registry';
+
+const SOCIAL_PLATFORMS: TokenSocialPlatform[] = [
+  'twitter',
+  'discord',
+  'telegram',
+  'github',
+  'reddit',
+];
+
+function nonEmpty(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+/**
+ * Keep a link only if it is an http(s) URL
+ */
+function safeUrl(value: unknown): string | undefined {
+  const url = nonEmpty(value);
+  if (!url) return undefined;
+
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:' ? url : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Normalize a launch date to YYYY-MM-DD
+ */
+function toIsoDate(value: unknown): string | undefined {
+  const date = nonEmpty(value);
+  const time = date ? Date.parse(date) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Merge the curated and upstream metadata of a token
+ *
+ * Each field takes the override value first, then Dexie. Social links are
+ * merged per platform; tags come from the override file only.
+ *
+ * @param tokenId - Token asset ID
+ * @param override - Curated entry, if any
+ * @param dexie - Dexie token list entry, if any
+ */
+export function buildTokenMetadata(
+  tokenId: string,
+  override: TokenOverride | undefined,
+  dexie: DexieToken | undefined
+): TokenMetadata {
+  const upstreamSocials: Partial<Record<TokenSocialPlatform, string>> = {
+    twitter: dexie?.twitter,
+    discord: dexie?.discord,
+    telegram: dexie?.telegram,
+  };
+
+  const socials: Partial<Record<TokenSocialPlatform, string>> = {};
+  for (const platform of SOCIAL_PLATFORMS) {
+    const url = safeUrl(override?.socials?.[platform]) ?? safeUrl(upstreamSocials[platform]);
+    if (url) socials[platform] = url;
+  }
+
+  const tags = Array.isArray(override?.tags)
+    ? Array.from(new Set(override.tags.map(nonEmpty).filter((tag): tag is string => !!tag)))
+    : [];
+
+  const sources: TokenMetadataSource[] = [];
+  if (override) sources.push('local');
+  if (dexie) sources.push('dexie');
+
+  return {
+    tokenId,
+    description: nonEmpty(override?.description) ?? nonEmpty(dexie?.description),
+    website: safeUrl(override?.website) ?? safeUrl(dexie?.website),
+    socials,
+    tags,
+    launchDate: toIsoDate(override?.launchDate),
+    sources,
+  };
+}
+
+/**
+ * Get the metadata of a token
+ *
+ * The override and Dexie entries come from the cached token registry
+ * build, so the override file and the Dexie list are not re-read per
+ * request. The Dexie entry is optional - without it the curated metadata
+ * is still served.
+ *
+ * @param tokenId - Token asset ID
+ * @returns Result containing the metadata, or an error if no source knows the token
+ */
+export async function fetchTokenMetadata(tokenId: string): Promise<Result<TokenMetadata>> {
+  const { record, override, dexie } = await fetchTokenSources(tokenId);
+
+  if (!override && !dexie && !record) {
+    return { success: false, error: new Error('Unknown token') };
+  }
+
+  return { success: true, data: buildTokenMetadata(tokenId, override, dexie) };
+}
@@ -0,0 +1,335 @@
+/**
+ * Token Registry
+ *
+ * One canonical record per asset ID (symbol, name, icon, denomination,
+ * verified flag, aliases), merged from:
+ *
+ * 1. a local override file (default `data/token-registry.json`, override
+ *    with TOKEN_REGISTRY_FILE) - always wins
+ * 2. the Dexie token list (/v1/tokens)
+ * 3. the TibetSwap token list (/tokens)
+ *
+ * Every price and reserve conversion takes its denomination from here, so
+ * a CAT with a non-standard denomination, or one Dexie does not list, is
+ * not silently priced with the 1000-mojo default.
+ *
+ * The descriptive fields (description through launchDate) are read by
+ * lib/token-metadata, not by the registry.
+ *
+ * Override file format, keyed by asset ID (every field optional):
+ *
+ *   {
+ *     "tokens": {
+ *       "<asset id>": {
+ *         "symbol": "ABC",
+ *         "name": "Example Token",
+ *         "icon": "https://...",
+ *         "denom": 1000,
+ *         "verified": true,
+ *         "aliases": ["ABC.old"],
+ *         "description": "...",
+ *         "website": "https://...",
+ *         "socials": { "twitter": "https://...", "discord": "https://..." },
+ *         "tags": ["meme"],
+ *         "launchDate": "2023-05-01"
+ *       }
+ *     }
+ *   }
+ *
+ * @module lib/token-registry
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  DexieToken,
+  Result,
+  TokenSocialPlatform,
+  TokenRecord,
+  TokenRegistry,
+  TokenRegistrySource,
+} from '@/contracts/types';
+import { fetchTokens } from './dexie-api';
+import { TibetSwapToken, fetchTibetSwapTokens } from './tibetswap-api';
+import { validateRecords, validateTokenOverride } from './validators';
+
+/**
+ * Denomination of standard CATs (1 token = 1000 mojos)
+ */
+export const DEFAULT_CAT_DENOM = 1000;
+
+/**
+ * One token in the override file
+ */
+export interface TokenOverride {
+  symbol?: string;
+  name?: string;
+  icon?: string;
+  denom?: number;
+  verified?: boolean;
+  aliases?: string[];
+  description?: string;
+  website?: string;
+  socials?: Partial<Record<TokenSocialPlatform, string>>;
+  tags?: string[];
+  launchDate?: string;
+}
+
+const OVERRIDES_FILE =
+  process.env.TOKEN_REGISTRY_FILE || path.join(process.cwd(), 'data', 'token-registry.json');
+
+/**
+ * How long a built registry is reused (token lists change rarely)
+ */
+const REGISTRY_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * A built registry with the Dexie token list and overrides it was built
+ * from (also read by lib/token-metadata, so neither is fetched or read twice)
+ */
+interface RegistryBuild {
+  registry: TokenRegistry;
+  dexieById: Map<string, DexieToken>;
+  overrides: Record<string, TokenOverride>;
+}
+
+/**
+ * What the registry knows about one token, per source
+ */
+export interface TokenSources {
+  record?: TokenRecord;
+  override?: TokenOverride;
+  dexie?: DexieToken;
+}
+
+let cached: (RegistryBuild & { builtAt: number }) | null = null;
+let inFlight: Promise<Result<RegistryBuild>> | null = null;
+
+/**
+ * Read the override file
+ *
+ * @returns Overrides by asset ID (empty when the file is missing or invalid;
+ *   entries that fail validation are skipped)
+ */
+async function readTokenOverrides(): Promise<Record<string, TokenOverride>> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(OVERRIDES_FILE, 'utf8'));
+    if (parsed && typeof parsed.tokens === 'object' && !Array.isArray(parsed.tokens)) {
+      // Hand-edited entries get the same checks as upstream records
+      const entries = Object.entries(parsed.tokens as Record<string, unknown>).map(
+        ([id, entry]) => (entry && typeof entry === 'object' ? { ...entry, id } : entry)
+      );
+      const { records } = validateRecords('token-registry', entries, validateTokenOverride);
+
+      return Object.fromEntries(records.map(({ id, ...override }) => [id, override]));
+    }
+  } catch (error) {
+    console.warn(`Failed to read token registry ${OVERRIDES_FILE}:`, error);
+  }
+  return {};
+}
+
+function nonEmpty(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+function validDenom(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Merge the token lists into canonical records
+ *
+ * Each field takes the first value available from the override, Dexie and
+ * TibetSwap, in that order. Symbols that lose to a higher-precedence list
+ * are kept as aliases.
+ *
+ * @param dexieTokens - Dexie token list
+ * @param tibetSwapTokens - TibetSwap token list
+ * @param overrides - Local overrides by asset ID
+ * @returns Records by asset ID
+ */
+export function buildTokenRegistry(
+  dexieTokens: DexieToken[],
+  tibetSwapTokens: TibetSwapToken[],
+  overrides: Record<string, TokenOverride>
+): TokenRegistry {
+  const dexieById = new Map(dexieTokens.map((token) => [token.id, token]));
+  const tibetById = new Map(tibetSwapTokens.map((token) => [token.asset_id, token]));
+  const ids = new Set([
+    ...Object.keys(overrides),
+    ...Array.from(dexieById.keys()),
+    ...Array.from(tibetById.keys()),
+  ]);
+
+  const registry = new Map<string, TokenRecord>();
+
+  for (const id of Array.from(ids)) {
+    const override = overrides[id];
+    const dexie = dexieById.get(id);
+    const tibet = tibetById.get(id);
+
+    const sources: TokenRegistrySource[] = [];
+    if (override) sources.push('local');
+    if (dexie) sources.push('dexie');
+    if (tibet) sources.push('tibetswap');
+
+    const symbols = [
+      nonEmpty(override?.symbol),
+      nonEmpty(dexie?.code),
+      nonEmpty(tibet?.short_name),
+    ];
+    const symbol = symbols.find(Boolean) ?? 'UNKNOWN';
+
+    const aliases = new Set<string>();
+    for (const alias of [...symbols, ...(override?.aliases ?? []).map(nonEmpty)]) {
+      if (alias && alias !== symbol) aliases.add(alias);
+    }
+
+    registry.set(id, {
+      id,
+      symbol,
+      name: nonEmpty(override?.name) ?? nonEmpty(dexie?.name) ?? nonEmpty(tibet?.name) ?? symbol,
+      iconUrl:
+        nonEmpty(override?.icon) ??
+        nonEmpty(dexie?.icon) ??
+        nonEmpty(tibet?.image_url) ??
+        `https://icons.dexie.space/${id}.webp`,
+      denom: validDenom(override?.denom) ?? validDenom(dexie?.denom) ?? DEFAULT_CAT_DENOM,
+      verified: override?.verified ?? tibet?.verified ?? false,
+      aliases: Array.from(aliases),
+      sources,
+    });
+  }
+
+  return registry;
+}
+
+/**
+ * Fetch every token list and build the registry
+ *
+ * The Dexie list is required; the TibetSwap list and the override file
+ * are merged in when available.
+ */
+async function fetchAndBuildRegistry(): Promise<Result<RegistryBuild>> {
+  const [dexieResult, tibetResult, overrides] = await Promise.all([
+    fetchTokens(),
+    fetchTibetSwapTokens(),
+    readTokenOverrides(),
+  ]);
+
+  if (!dexieResult.success) return dexieResult;
+  if (!tibetResult.success) {
+    console.warn('TibetSwap token list unavailable:', tibetResult.error.message);
+  }
+
+  const registry = buildTokenRegistry(
+    dexieResult.data,
+    tibetResult.success ? tibetResult.data : [],
+    overrides
+  );
+  return {
+    success: true,
+    data: {
+      registry,
+      dexieById: new Map(dexieResult.data.map((token) => [token.id, token])),
+      overrides,
+    },
+  };
+}
+
+/**
+ * Get the latest registry build
+ *
+ * Rebuilt at most every REGISTRY_TTL_MS; concurrent callers share one
+ * build. When a rebuild fails the previous build keeps being served.
+ */
+async function fetchRegistryBuild(): Promise<Result<RegistryBuild>> {
+  if (cached && Date.now() - cached.builtAt < REGISTRY_TTL_MS) {
+    return { success: true, data: cached };
+  }
+
+  if (!inFlight) {
+    inFlight = fetchAndBuildRegistry().finally(() => {
+      inFlight = null;
+    });
+  }
+
+  const result = await inFlight;
+  if (result.success) {
+    cached = { ...result.data, builtAt: Date.now() };
+    return result;
+  }
+
+  if (cached) {
+    console.warn('Token registry rebuild failed, serving previous one:', result.error.message);
+    return { success: true, data: cached };
+  }
+  return result;
+}
+
+/**
+ * Get the token registry
+ *
+ * Rebuilt at most every REGISTRY_TTL_MS; concurrent callers share one
+ * build. When a rebuild fails the previous registry keeps being served.
+ *
+ * @returns Result containing the registry, or an error if none was ever built
+ */
+export async function fetchTokenRegistry(): Promise<Result<TokenRegistry>> {
+  const result = await fetchRegistryBuild();
+  return result.success ? { success: true, data: result.data.registry } : result;
+}
+
+/**
+ * Get what the registry's sources say about a token: its record, its
+ * override entry and its Dexie token list entry
+ *
+ * Served from the cached build. When no registry was ever built (Dexie
+ * down since startup), the override file is read directly so curated data
+ * is still available.
+ *
+ * @returns The token's entries (each undefined when that source lacks it)
+ */
+export async function fetchTokenSources(tokenId: string): Promise<TokenSources> {
+  const result = await fetchRegistryBuild();
+  if (!result.success) {
+    console.warn('Token registry unavailable, reading overrides only:', result.error.message);
+    return { override: (await readTokenOverrides())[tokenId] };
+  }
+
+  const { registry, overrides, dexieById } = result.data;
+  return {
+    record: registry.get(tokenId),
+    override: overrides[tokenId],
+    dexie: dexieById.get(tokenId),
+  };
+}
+
+/**
+ * Denomination of a token (DEFAULT_CAT_DENOM for unknown tokens)
+ */
+export function getTokenDenom(registry: TokenRegistry, tokenId: string): number {
+  return registry.get(tokenId)?.denom ?? DEFAULT_CAT_DENOM;
+}
+
+/**
+ * Find a token by asset ID, symbol or alias (case-insensitive)
+ *
+ * A symbol match takes precedence over another token's alias.
+ *
+ * @returns The matching record, or undefined
+ */
+export function findToken(registry: TokenRegistry, query: string): TokenRecord | undefined {
+  const exact = registry.get(query);
+  if (exact) return exact;
+
+  const key = query.toLowerCase();
+  const records = Array.from(registry.values());
+
+  return (
+    records.find(
+      (record) => record.id.toLowerCase() === key || record.symbol.toLowerCase() === key
+    ) ?? records.find((record) => record.aliases.some((alias) => alias.toLowerCase() === key))
+  );
+}
@@ -2,28 +2,31 @@
  * Data Transformation Layer
  *
  * Transforms raw API responses into unified dashboard format.
- * Merges data from Dexie orderbook and TibetSwap AMM.
+ * Merges quotes from all registered market data sources (lib/sources).
  */
 
-import { DexieToken, DexieMarket, DashboardToken } from '@/contracts/types';
-import { TibetSwapPair, calculatePriceFromReserves, calculateLiquidityXch } from './tibetswap-api';
-import { LastTradePrice } from './last-trade-prices';
-
-/**
- * Create a map of token ID to token data for fast lookups
- */
-function createTokenMap(tokens: DexieToken[]): Map<string, DexieToken> {
-  const map = new Map<string, DexieToken>();
-  for (const token of tokens) {
-    map.set(token.id, token);
-  }
-  return map;
-}
+import {
+  DashboardToken,
+  FiatCurrency,
+  ReferencePricePolicy,
+  TokenQuote,
+  TokenRecord,
+  TokenRegistry,
+} from '@/contracts/types';
+import type { SourceQuotes } from './sources/registry';
+import { LIQUIDITY_BANDS, calculateBandLiquidity } from './liquidity';
+import {
+  MidPriceEntry,
+  ReconciledPrice,
+  SourceQuoteEntry,
+  getReferencePricePolicy,
+  reconcilePrices,
+} from './reference-price';
 
 /**
  * Safely extract numeric value with fallback
  */
-function safeNumber(value: unknown, fallback = 0): number {
+export function safeNumber(value: unknown, fallback = 0): number {
   if (typeof value === 'number' && !isNaN(value) && isFinite(value)) {
     return value;
   }
@@ -31,243 +34,216 @@ function safeNumber(value: unknown, fallback = 0): number {
 }
 
 /**
- * Calculate total liquidity from bid/ask arrays
+ * Find the most preferred quote that has either side of a book
+ *
+ * Bid and ask are taken together from this quote, so a spread is never
+ * computed across two venues.
+ *
+ * @param entries - All quotes for the token, most preferred first
  */
-function calculateDexieLiquidity(liquidity: { ask: number[]; bid: number[] } | undefined): number {
-  if (!liquidity) return 0;
-
-  // Sum the deepest liquidity level from both sides
-  const maxAsk = liquidity.ask?.length > 0 ? Math.max(...liquidity.ask) : 0;
-  const maxBid = liquidity.bid?.length > 0 ? Math.max(...liquidity.bid) : 0;
-
-  return maxAsk + maxBid;
+function findBookEntry(entries: SourceQuoteEntry[]): SourceQuoteEntry | undefined {
+  return entries.find(
+    ({ quote }) => safeNumber(quote.bestBid) > 0 || safeNumber(quote.bestAsk) > 0
+  );
 }
 
 /**
- * Transform a single market entry into a DashboardToken
+ * Derive best bid/ask, mid price and spread from a quote
  */
-function transformMarket(
-  market: DexieMarket,
-  tokenMap: Map<string, DexieToken>,
-  xchUsdPrice: number,
-  tibetSwapMap: Map<string, TibetSwapPair>
-): DashboardToken | null {
-  // Find matching token metadata
-  const token = tokenMap.get(market.id);
-  const tibetPair = tibetSwapMap.get(market.id);
-
-  // Use market data if token metadata is missing
-  const symbol = token?.code || market.code || 'UNKNOWN';
-  const name = token?.name || market.name || 'Unknown Token';
-  const iconUrl = token?.icon || `https://icons.dexie.space/${market.id}.webp`;
-
-  // Extract price data from Dexie
-  const priceXch = safeNumber(market.prices?.last?.price);
-
-  // Skip tokens with no price data
-  if (priceXch === 0) {
-    return null;
-  }
+function getBidAsk(
+  quote: TokenQuote | undefined
+): Pick<DashboardToken, 'bestBid' | 'bestAsk' | 'midPrice' | 'spreadPct'> {
+  if (!quote) return {};
 
-  const priceUsd = priceXch * xchUsdPrice;
+  const bestBid = safeNumber(quote.bestBid) > 0 ? quote.bestBid : undefined;
+  const bestAsk = safeNumber(quote.bestAsk) > 0 ? quote.bestAsk : undefined;
 
-  // Extract change percentages (API returns as decimals, convert to %)
-  const change24h = safeNumber(market.prices?.last?.change?.daily) * 100;
-  const change7d = safeNumber(market.prices?.last?.change?.weekly) * 100;
+  if (bestBid === undefined || bestAsk === undefined) {
+    return { bestBid, bestAsk };
+  }
 
-  // Extract volume data (24h and 7d)
-  const volume24hXch = safeNumber(market.volume?.xch?.daily);
-  const volume24hUsd = volume24hXch * xchUsdPrice;
-  const volume7dXch = safeNumber(market.volume?.xch?.weekly);
-  const volume7dUsd = volume7dXch * xchUsdPrice;
+  const midPrice = (bestBid + bestAsk) / 2;
+  return {
+    bestBid,
+    bestAsk,
+    midPrice,
+    spreadPct: ((bestAsk - bestBid) / midPrice) * 100,
+  };
+}
 
-  // Calculate liquidity - prefer TibetSwap if available, else use Dexie orderbook
-  let liquidityXch = calculateDexieLiquidity(market.liquidity);
-  if (tibetPair) {
-    const tibetLiquidity = calculateLiquidityXch(tibetPair.xch_reserve);
-    liquidityXch = Math.max(liquidityXch, tibetLiquidity);
-  }
-  const liquidityUsd = liquidityXch * xchUsdPrice;
+/**
+ * Order book mid price of a token, if its preferred book is two-sided
+ */
+function getMidPrice(entries: SourceQuoteEntry[]): MidPriceEntry | undefined {
+  const book = findBookEntry(entries);
+  const { midPrice } = getBidAsk(book?.quote);
+  if (!book || midPrice === undefined) return undefined;
 
-  // Extract high/low
-  const high24h = safeNumber(market.prices?.high?.daily);
-  const low24h = safeNumber(market.prices?.low?.daily);
+  return {
+    sourceId: book.sourceId,
+    label: book.label,
+    priceXch: midPrice,
+    observedAt: book.quote.timestamp,
+  };
+}
+
+/**
+ * Build a DashboardToken from the winning quote of a token
+ *
+ * Range comes from the winning quote; change and volume from the most
+ * preferred quote that has them (a TibetSwap-only token can take them from
+ * its reserve history or completed offers); the price is the reconciled
+ * reference price.
+ *
+ * @param quote - Quote from the highest-priority source with a price
+ * @param entries - All quotes for the token, most preferred first
+ * @param reconciled - Reference price and per-source prices
+ * @param policy - Policy the reference price was chosen by
+ */
+function quoteToDashboardToken(
+  quote: TokenQuote,
+  entries: SourceQuoteEntry[],
+  reconciled: ReconciledPrice,
+  policy: ReferencePricePolicy,
+  token: TokenRecord | undefined,
+  xchUsdPrice: number
+): DashboardToken {
+  const priceXch = reconciled.priceXch;
+  const quotes = entries.map((entry) => entry.quote);
+  const metrics = quotes.find((candidate) => candidate.metricsSource) ?? quote;
+  const volume24hXch = safeNumber(metrics.volume24hXch);
+  const volume7dXch = safeNumber(metrics.volume7dXch);
+
+  // Liquidity is measured around the book mid, or the price without a two-sided book
+  const bidAsk = getBidAsk(findBookEntry(entries)?.quote);
+  const midPrice = bidAsk.midPrice ?? priceXch;
+  const liquidityXch = calculateBandLiquidity(quotes, midPrice, LIQUIDITY_BANDS.narrow);
+  const liquidity5pctXch = calculateBandLiquidity(quotes, midPrice, LIQUIDITY_BANDS.wide);
 
   return {
-    id: market.id,
-    symbol,
-    name,
-    iconUrl,
+    id: quote.tokenId,
+    symbol: token?.symbol || quote.symbol || 'UNKNOWN',
+    name: token?.name || quote.name || 'Unknown Token',
+    iconUrl: token?.iconUrl || quote.iconUrl || `https://icons.dexie.space/${quote.tokenId}.webp`,
+    verified: token?.verified ?? false,
     priceXch,
-    priceUsd,
-    change24h,
-    change7d,
+    priceUsd: priceXch * xchUsdPrice,
+    change24h: safeNumber(metrics.change24h),
+    change7d: safeNumber(metrics.change7d),
     volume24hXch,
-    volume24hUsd,
+    volume24hUsd: volume24hXch * xchUsdPrice,
     volume7dXch,
-    volume7dUsd,
+    volume7dUsd: volume7dXch * xchUsdPrice,
     liquidityXch,
-    liquidityUsd,
-    high24h,
-    low24h,
-    pairId: market.pair_id || '',
-    lastUpdated: new Date().toISOString(),
-    priceSource: 'dexie',
+    liquidityUsd: liquidityXch * xchUsdPrice,
+    liquidity5pctXch,
+    liquidity5pctUsd: liquidity5pctXch * xchUsdPrice,
+    high24h: safeNumber(quote.high24h),
+    low24h: safeNumber(quote.low24h),
+    pairId: quote.pairId || '',
+    lastUpdated: quote.timestamp,
+    hasMarket: true,
+    priceSource: reconciled.sourceId,
+    ...bidAsk,
+    priceQuotes: reconciled.quotes,
+    referencePolicy: policy,
+    priceDivergencePct: reconciled.divergencePct,
+    metricsSource: metrics.metricsSource,
+    pool: quotes.find((candidate) => candidate.pool)?.pool,
   };
 }
 
 /**
- * Transform a TibetSwap-only token into a DashboardToken
+ * Build a DashboardToken for a known token no source could price
  */
-function transformTibetSwapToken(
-  pair: TibetSwapPair,
-  token: DexieToken | undefined,
-  xchUsdPrice: number
-): DashboardToken {
-  const symbol = token?.code || pair.asset_short_name || 'UNKNOWN';
-  const name = token?.name || pair.asset_name || 'Unknown Token';
-  const iconUrl = token?.icon || pair.asset_image_url || `https://icons.dexie.space/${pair.asset_id}.webp`;
-  const tokenDenom = token?.denom || 1000;
-
-  // Calculate price from reserves
-  const priceXch = calculatePriceFromReserves(pair.xch_reserve, pair.token_reserve, tokenDenom);
-  const priceUsd = priceXch * xchUsdPrice;
-
-  // Calculate liquidity
-  const liquidityXch = calculateLiquidityXch(pair.xch_reserve);
-  const liquidityUsd = liquidityXch * xchUsdPrice;
-
+function createUnpricedToken(token: TokenRecord): DashboardToken {
   return {
-    id: pair.asset_id,
-    symbol,
-    name,
-    iconUrl,
-    priceXch,
-    priceUsd,
-    change24h: 0, // TibetSwap doesn't provide change data
+    id: token.id,
+    symbol: token.symbol,
+    name: token.name,
+    iconUrl: token.iconUrl,
+    verified: token.verified,
+    priceXch: 0,
+    priceUsd: 0,
+    change24h: 0,
     change7d: 0,
-    volume24hXch: 0, // TibetSwap doesn't provide volume directly
+    volume24hXch: 0,
     volume24hUsd: 0,
     volume7dXch: 0,
     volume7dUsd: 0,
-    liquidityXch,
-    liquidityUsd,
+    liquidityXch: 0,
+    liquidityUsd: 0,
+    liquidity5pctXch: 0,
+    liquidity5pctUsd: 0,
     high24h: 0,
     low24h: 0,
-    pairId: pair.pair_id,
+    pairId: '',
     lastUpdated: new Date().toISOString(),
-    hasMarket: true,
-    priceSource: 'tibetswap',
+    hasMarket: false,
+    priceSource: 'none',
   };
 }
 
 /**
- * Merge tokens and markets data into unified DashboardToken array
+ * Merge quotes from all market data sources into a unified DashboardToken array
+ *
+ * For each token, the quote of the most preferred source (lowest priority
+ * number) with a positive price wins. Its price is then reconciled with the
+ * other sources' prices and the order book mid according to the reference
+ * price policy (lib/reference-price). Token metadata (symbol, name, icon)
+ * comes from the registry when it knows the token. Registry tokens that no
+ * source priced are included with priceSource 'none'.
  *
- * @param tokens - Array of token metadata from /v1/tokens
- * @param markets - Array of market data from /v1/markets
+ * @param registry - Canonical token metadata (lib/token-registry)
+ * @param sourceQuotes - Quotes per source, most preferred first
  * @param xchUsdPrice - Current XCH/USD exchange rate
- * @param tibetSwapPairs - Array of TibetSwap pairs (optional)
- * @param lastTradePrices - Map of token ID to last trade price (optional)
  * @returns Array of DashboardToken objects sorted by 7-day volume
  */
-export function mergeTokensAndMarkets(
-  tokens: DexieToken[],
-  markets: DexieMarket[],
-  xchUsdPrice: number,
-  tibetSwapPairs: TibetSwapPair[] = [],
-  lastTradePrices: Map<string, LastTradePrice> = new Map()
+export function mergeTokenQuotes(
+  registry: TokenRegistry,
+  sourceQuotes: SourceQuotes[],
+  xchUsdPrice: number
 ): DashboardToken[] {
-  const tokenMap = createTokenMap(tokens);
-  const marketMap = new Map<string, DexieMarket>();
-  const tibetSwapMap = new Map<string, TibetSwapPair>();
-  const dashboardTokens: DashboardToken[] = [];
-  const processedIds = new Set<string>();
-
-  // Create lookup maps
-  for (const market of markets) {
-    marketMap.set(market.id, market);
-  }
-  for (const pair of tibetSwapPairs) {
-    tibetSwapMap.set(pair.asset_id, pair);
-  }
-
-  // First, add all tokens that have Dexie market data
-  for (const market of markets) {
-    const transformed = transformMarket(market, tokenMap, xchUsdPrice, tibetSwapMap);
-    if (transformed) {
-      dashboardTokens.push(transformed);
-      processedIds.add(market.id);
+  const policy = getReferencePricePolicy();
+  const quotesByToken = new Map<string, SourceQuoteEntry[]>();
+
+  // Group quotes per token, preserving source priority order
+  const ordered = [...sourceQuotes].sort((a, b) => a.source.priority - b.source.priority);
+  for (const { source, quotes } of ordered) {
+    for (const quote of quotes) {
+      const entries = quotesByToken.get(quote.tokenId) ?? [];
+      entries.push({ sourceId: source.id, label: source.label, quote });
+      quotesByToken.set(quote.tokenId, entries);
     }
   }
 
-  // Second, add tokens that have TibetSwap liquidity but no Dexie market
-  for (const pair of tibetSwapPairs) {
-    if (!processedIds.has(pair.asset_id)) {
-      const token = tokenMap.get(pair.asset_id);
-      const transformed = transformTibetSwapToken(pair, token, xchUsdPrice);
-      if (transformed.priceXch > 0) {
-        dashboardTokens.push(transformed);
-        processedIds.add(pair.asset_id);
-      }
-    }
+  const dashboardTokens: DashboardToken[] = [];
+  const processedIds = new Set<string>();
+
+  for (const [tokenId, entries] of quotesByToken) {
+    const winner = entries.find((entry) => safeNumber(entry.quote.priceXch) > 0);
+    if (!winner) continue;
+
+    const reconciled = reconcilePrices(entries, getMidPrice(entries), policy);
+    if (!reconciled) continue;
+
+    dashboardTokens.push(
+      quoteToDashboardToken(
+        winner.quote,
+        entries,
+        reconciled,
+        policy,
+        registry.get(tokenId),
+        xchUsdPrice
+      )
+    );
+    processedIds.add(tokenId);
   }
 
-  // Finally, add remaining tokens - check for last trade prices first
-  for (const token of tokens) {
+  // Add remaining known tokens without any price
+  for (const token of Array.from(registry.values())) {
     if (!processedIds.has(token.id)) {
-      // Check if we have a last trade price for this token
-      const lastTrade = lastTradePrices.get(token.id);
-
-      if (lastTrade && lastTrade.priceXch > 0) {
-        // Token has last trade price - use it
-        dashboardTokens.push({
-          id: token.id,
-          symbol: token.code,
-          name: token.name,
-          iconUrl: token.icon || `https://icons.dexie.space/${token.id}.webp`,
-          priceXch: lastTrade.priceXch,
-          priceUsd: lastTrade.priceXch * xchUsdPrice,
-          change24h: 0,
-          change7d: 0,
-          volume24hXch: 0,
-          volume24hUsd: 0,
-          volume7dXch: 0,
-          volume7dUsd: 0,
-          liquidityXch: 0,
-          liquidityUsd: 0,
-          high24h: 0,
-          low24h: 0,
-          pairId: '',
-          lastUpdated: lastTrade.date,
-          hasMarket: true, // Has market activity via last trade
-          priceSource: 'lastTrade',
-        });
-      } else {
-        // No market data at all
-        dashboardTokens.push({
-          id: token.id,
-          symbol: token.code,
-          name: token.name,
-          iconUrl: token.icon || `https://icons.dexie.space/${token.id}.webp`,
-          priceXch: 0,
-          priceUsd: 0,
-          change24h: 0,
-          change7d: 0,
-          volume24hXch: 0,
-          volume24hUsd: 0,
-          volume7dXch: 0,
-          volume7dUsd: 0,
-          liquidityXch: 0,
-          liquidityUsd: 0,
-          high24h: 0,
-          low24h: 0,
-          pairId: '',
-          lastUpdated: new Date().toISOString(),
-          hasMarket: false,
-          priceSource: 'none',
-        });
-      }
+      dashboardTokens.push(createUnpricedToken(token));
     }
   }
 
@@ -314,23 +290,41 @@ export function formatPrice(price: number, decimals = 6): string {
 }
 
 /**
- * Format USD price for display
+ * Symbol shown before amounts in each fiat currency
  */
-export function formatUsd(price: number): string {
-  if (price < 0.01) {
-    return `$${price.toFixed(6)}`;
+const FIAT_SYMBOLS: Record<FiatCurrency, string> = {
+  USD: '$',
+  EUR: '€',
+  GBP: '£',
+};
+
+/**
+ * Format a fiat amount for display
+ */
+export function formatFiat(amount: number, currency: FiatCurrency): string {
+  const symbol = FIAT_SYMBOLS[currency];
+
+  if (amount < 0.01) {
+    return `${symbol}${amount.toFixed(6)}`;
   }
 
-  if (price < 1) {
-    return `$${price.toFixed(4)}`;
+  if (amount < 1) {
+    return `${symbol}${amount.toFixed(4)}`;
   }
 
-  return `$${price.toLocaleString('en-US', {
+  return `${symbol}${amount.toLocaleString('en-US', {
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   })}`;
 }
 
+/**
+ * Format USD price for display
+ */
+export function formatUsd(price: number): string {
+  return formatFiat(price, 'USD');
+}
+
 /**
  * Format volume for display (with K, M, B suffixes)
  */
@@ -357,3 +351,25 @@ export function formatPercentage(value: number): string {
   const sign = value >= 0 ? '+' : '';
   return `${sign}${value.toFixed(2)}%`;
 }
+
+/**
+ * Format a timestamp relative to `now` ("5m ago", or the date after a week)
+ *
+ * Depends on the current time and locale - in server-rendered components,
+ * call it only after mount.
+ *
+ * @param dateString - ISO timestamp
+ * @param now - Current time in milliseconds
+ */
+export function formatRelativeTime(dateString: string, now: number = Date.now()): string {
+  const date = new Date(dateString);
+  const diffMins = Math.floor((now - date.getTime()) / 60000);
+  const diffHours = Math.floor(diffMins / 60);
+  const diffDays = Math.floor(diffHours / 24);
+
+  if (diffMins < 1) return 'Just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString();
+}
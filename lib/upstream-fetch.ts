@@ -0,0 +1,140 @@
+/**
+ * Upstream Fetch
+ *
+ * Lowest-level fetch for every upstream API call (wrapped by
+ * lib/http-client), with an optional
+ * record-and-replay fixture mode for offline development and reproducing
+ * a specific market state. Selected by the UPSTREAM_FIXTURES environment
+ * variable:
+ *
+ * - unset:   live requests (default)
+ * - record:  live requests, every response is also saved as a fixture
+ * - replay:  no network; responses are served from fixtures, and requests
+ *            without a fixture fail like an unreachable host
+ *
+ * Fixtures are JSON files in UPSTREAM_FIXTURES_DIR (default
+ * `fixtures/upstream/`), one per URL (and request body, for POST-style
+ * RPC calls).
+ *
+ * @module lib/upstream-fetch
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+
+type FixtureMode = 'live' | 'record' | 'replay';
+
+/**
+ * A recorded upstream response
+ */
+interface UpstreamFixture {
+  url: string;
+  status: number;
+  contentType: string | null;
+  /** Parsed JSON body, or the raw text if the body was not JSON */
+  body: unknown;
+  recordedAt: string;
+}
+
+const FIXTURES_DIR =
+  process.env.UPSTREAM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'upstream');
+
+/**
+ * Get the active fixture mode
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = process.env.UPSTREAM_FIXTURES;
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+/**
+ * Build the fixture path for a request: readable host prefix plus a hash
+ * of the URL and body
+ */
+function getFixturePath(url: string, requestBody?: string): string {
+  const host = new URL(url).hostname.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const key = requestBody ? `${url}\n${requestBody}` : url;
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 16);
+  return path.join(FIXTURES_DIR, `${host}-${hash}.json`);
+}
+
+/**
+ * Save a live response as a fixture (best effort)
+ */
+async function recordFixture(
+  url: string,
+  requestBody: string | undefined,
+  response: Response
+): Promise<void> {
+  try {
+    const text = await response.text();
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON - keep the raw text
+    }
+
+    const fixture: UpstreamFixture = {
+      url,
+      status: response.status,
+      contentType: response.headers.get('content-type'),
+      body,
+      recordedAt: new Date().toISOString(),
+    };
+
+    const filePath = getFixturePath(url, requestBody);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), 'utf8');
+  } catch (error) {
+    console.warn(`Failed to record fixture for ${url}:`, error);
+  }
+}
+
+/**
+ * Serve a recorded fixture as a Response
+ *
+ * @throws Error if no fixture exists for the URL
+ */
+async function replayFixture(url: string, requestBody?: string): Promise<Response> {
+  let fixture: UpstreamFixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(getFixturePath(url, requestBody), 'utf8'));
+  } catch {
+    throw new Error(`No upstream fixture for ${url}`);
+  }
+
+  const body = typeof fixture.body === 'string' ? fixture.body : JSON.stringify(fixture.body);
+  return new Response(body, {
+    status: fixture.status,
+    headers: fixture.contentType ? { 'content-type': fixture.contentType } : undefined,
+  });
+}
+
+/**
+ * Fetch an upstream URL, honoring the fixture mode
+ *
+ * Drop-in replacement for fetch for upstream API requests. String
+ * request bodies are part of the fixture key.
+ *
+ * @param url - Absolute upstream URL
+ * @param init - Fetch options (including Next.js `next` cache options)
+ * @returns Live or replayed response
+ */
+export async function upstreamFetch(url: string, init?: RequestInit): Promise<Response> {
+  const mode = getFixtureMode();
+  const requestBody = typeof init?.body === 'string' ? init.body : undefined;
+
+  if (mode === 'replay') {
+    return replayFixture(url, requestBody);
+  }
+
+  const response = await fetch(url, init);
+
+  if (mode === 'record') {
+    await recordFixture(url, requestBody, response.clone());
+  }
+
+  return response;
+}
@@ -0,0 +1,225 @@
+/**
+ * Upstream Health Tracking
+ *
+ * Records latency and failures of every upstream API call and wraps each
+ * upstream in a circuit breaker. After FAILURE_THRESHOLD consecutive
+ * failures the circuit opens and calls are rejected with CircuitOpenError
+ * for COOL_DOWN_MS; the first call after the cool-down is a trial that
+ * closes the circuit on success or re-opens it on failure.
+ *
+ * Only upstream failures (5xx, timeouts, network errors) count. A request
+ * the upstream rejects because of its input throws ClientRequestError,
+ * which proves the upstream is reachable and never opens the circuit.
+ *
+ * @module lib/upstream-health
+ */
+
+import { CircuitState, UpstreamHealth, UpstreamId } from '@/contracts/types';
+
+/**
+ * Consecutive failures that open a circuit
+ */
+const FAILURE_THRESHOLD = 3;
+
+/**
+ * How long an open circuit rejects calls
+ */
+const COOL_DOWN_MS = 60 * 1000;
+
+/**
+ * Known upstreams and their display labels
+ */
+const UPSTREAM_LABELS: Record<UpstreamId, string> = {
+  dexie: 'Dexie API',
+  'dexie-offers': 'Dexie offers',
+  'dexie-crawler': 'Dexie offer crawler',
+  'dexie-prices': 'Dexie XCH price',
+  tibetswap: 'TibetSwap',
+  coingecko: 'CoinGecko',
+  okx: 'OKX',
+  'fiat-rates': 'Fiat rates',
+};
+
+/**
+ * Thrown instead of calling an upstream whose circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly upstream: UpstreamId,
+    public readonly retryAt: Date
+  ) {
+    super(`${upstream} circuit open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown by an upstream call whose request was rejected as invalid (4xx
+ * other than 429) - the caller's fault, not the upstream's
+ */
+export class ClientRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'ClientRequestError';
+  }
+}
+
+/**
+ * Check whether an HTTP status means the request itself was invalid
+ */
+export function isClientErrorStatus(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 429;
+}
+
+interface UpstreamState {
+  latencyMs: number | null;
+  lastSuccess: string | null;
+  lastFailure: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  openUntil: number | null;
+  trialInFlight: boolean;
+}
+
+const upstreams = new Map<UpstreamId, UpstreamState>();
+
+/**
+ * Get (or create) the state of an upstream
+ */
+function getState(id: UpstreamId): UpstreamState {
+  let state = upstreams.get(id);
+  if (!state) {
+    state = {
+      latencyMs: null,
+      lastSuccess: null,
+      lastFailure: null,
+      lastError: null,
+      consecutiveFailures: 0,
+      totalCalls: 0,
+      totalFailures: 0,
+      openUntil: null,
+      trialInFlight: false,
+    };
+    upstreams.set(id, state);
+  }
+  return state;
+}
+
+/**
+ * Current circuit state of an upstream
+ */
+function getCircuit(state: UpstreamState): CircuitState {
+  if (state.openUntil === null) return 'closed';
+  return Date.now() < state.openUntil ? 'open' : 'half-open';
+}
+
+/**
+ * Call an upstream through its circuit breaker, recording the outcome
+ *
+ * The call must throw (or reject) to count as a failure; ClientRequestError
+ * does not count.
+ *
+ * @param id - Upstream identifier
+ * @param call - Upstream request
+ * @returns Result of the call
+ * @throws CircuitOpenError if the circuit is open, or the call's own error
+ */
+export async function withUpstream<T>(id: UpstreamId, call: () => Promise<T>): Promise<T> {
+  const state = getState(id);
+  const circuit = getCircuit(state);
+
+  if (circuit === 'open' || (circuit === 'half-open' && state.trialInFlight)) {
+    throw new CircuitOpenError(id, new Date(state.openUntil ?? Date.now()));
+  }
+
+  const isTrial = circuit === 'half-open';
+  if (isTrial) state.trialInFlight = true;
+
+  const startedAt = Date.now();
+  state.totalCalls += 1;
+
+  try {
+    const result = await call();
+
+    state.latencyMs = Date.now() - startedAt;
+    state.lastSuccess = new Date().toISOString();
+    state.consecutiveFailures = 0;
+    state.openUntil = null;
+
+    return result;
+  } catch (error) {
+    state.latencyMs = Date.now() - startedAt;
+
+    // The upstream answered - bad input must not open the circuit for everyone
+    if (error instanceof ClientRequestError) {
+      state.lastSuccess = new Date().toISOString();
+      state.consecutiveFailures = 0;
+      state.openUntil = null;
+      throw error;
+    }
+
+    state.lastFailure = new Date().toISOString();
+    state.lastError = error instanceof Error ? error.message : String(error);
+    state.consecutiveFailures += 1;
+    state.totalFailures += 1;
+
+    if (isTrial || state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      state.openUntil = Date.now() + COOL_DOWN_MS;
+      console.warn(`Circuit opened for ${id} after ${state.consecutiveFailures} failures`);
+    }
+
+    throw error;
+  } finally {
+    if (isTrial) state.trialInFlight = false;
+  }
+}
+
+/**
+ * Get the health of one upstream
+ */
+export function getUpstreamHealth(id: UpstreamId): UpstreamHealth {
+  const state = getState(id);
+  const circuit = getCircuit(state);
+
+  let status: UpstreamHealth['status'] = 'unknown';
+  if (circuit === 'open') status = 'down';
+  else if (state.consecutiveFailures > 0) status = 'degraded';
+  else if (state.lastSuccess) status = 'healthy';
+
+  return {
+    id,
+    label: UPSTREAM_LABELS[id] ?? id,
+    status,
+    circuit,
+    latencyMs: state.latencyMs,
+    lastSuccess: state.lastSuccess,
+    lastFailure: state.lastFailure,
+    lastError: state.lastError,
+    consecutiveFailures: state.consecutiveFailures,
+    totalCalls: state.totalCalls,
+    totalFailures: state.totalFailures,
+    circuitOpenUntil: state.openUntil ? new Date(state.openUntil).toISOString() : null,
+  };
+}
+
+/**
+ * Get the health of every known upstream (including ones not called yet)
+ */
+export function getAllUpstreamHealth(): UpstreamHealth[] {
+  const ids = new Set<UpstreamId>([...Object.keys(UPSTREAM_LABELS), ...upstreams.keys()]);
+  return Array.from(ids).map(getUpstreamHealth);
+}
+
+/**
+ * Get labels of upstreams that are currently degraded or down
+ */
+export function getDegradedUpstreams(): string[] {
+  return getAllUpstreamHealth()
+    .filter((health) => health.status === 'degraded' || health.status === 'down')
+    .map((health) => health.label);
+}
@@ -0,0 +1,529 @@
+/**
+ * Upstream Payload Validators
+ *
+ * Runtime checks for the upstream record types in contracts/types.ts.
+ * Every record is checked field by field:
+ *
+ * - required fields (IDs, prices, reserves) that are missing or not finite
+ *   cause the record to be dropped
+ * - optional fields (names, volumes, depth levels) that are malformed are
+ *   repaired to a safe default and the record is kept
+ *
+ * The outcome of each payload is kept per feed so the dashboard can show
+ * how much of an upstream response was quarantined.
+ *
+ * @module lib/validators
+ */
+
+import {
+  ChangeData,
+  DexieMarket,
+  DexieToken,
+  MarketPrices,
+  PriceDepth,
+  QuarantineReport,
+  TokenSocialPlatform,
+  VolumeData,
+} from '@/contracts/types';
+import type { TibetSwapPair, TibetSwapToken } from './tibetswap-api';
+import type { TokenOverride } from './token-registry';
+import type { SupplyRegistryEntry } from './supply/local-registry';
+
+/**
+ * Validates one record
+ * Returns null to drop it; calls `repair` for every field it had to fix.
+ */
+type RecordValidator<T> = (raw: unknown, repair: (field: string) => void) => T | null;
+
+/**
+ * Result of validating a payload
+ */
+export interface ValidationResult<T> {
+  records: T[];
+  report: QuarantineReport;
+}
+
+// Latest report per feed
+const reports = new Map<string, QuarantineReport>();
+
+// =============================================================================
+// Field helpers
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * CAT asset IDs are 32-byte hashes, hex encoded
+ */
+const ASSET_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Check that a token ID is a CAT asset ID before it reaches an upstream
+ * query string or a cache key
+ */
+export function isAssetId(value: unknown): value is string {
+  return typeof value === 'string' && ASSET_ID_PATTERN.test(value);
+}
+
+/**
+ * Read an optional string, repairing anything else to a fallback
+ */
+function optionalString(
+  value: unknown,
+  field: string,
+  repair: (field: string) => void,
+  fallback = ''
+): string {
+  if (typeof value === 'string') return value;
+  repair(field);
+  return fallback;
+}
+
+/**
+ * Read a field most records do not have (absent is not a repair)
+ */
+function presentString(value: unknown): string | undefined {
+  return isNonEmptyString(value) ? value : undefined;
+}
+
+/**
+ * Read an optional finite number, repairing anything else to a fallback
+ */
+function optionalNumber(
+  value: unknown,
+  field: string,
+  repair: (field: string) => void,
+  fallback = 0
+): number {
+  if (isFiniteNumber(value)) return value;
+  repair(field);
+  return fallback;
+}
+
+/**
+ * Read a number array, dropping non-finite entries
+ */
+function numberArray(value: unknown, field: string, repair: (field: string) => void): number[] {
+  if (!Array.isArray(value)) {
+    repair(field);
+    return [];
+  }
+
+  const numbers = value.filter(isFiniteNumber);
+  if (numbers.length !== value.length) repair(field);
+  return numbers;
+}
+
+/**
+ * Read a field a hand-written record may leave out: absent is fine, a value
+ * of the wrong type is repaired to absent
+ */
+function optionalField<T>(
+  value: unknown,
+  field: string,
+  repair: (field: string) => void,
+  isValid: (value: unknown) => value is T
+): T | undefined {
+  if (value === undefined) return undefined;
+  if (isValid(value)) return value;
+  repair(field);
+  return undefined;
+}
+
+/**
+ * Read an optional string list, dropping entries that are not strings
+ */
+function optionalStringList(
+  value: unknown,
+  field: string,
+  repair: (field: string) => void
+): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    repair(field);
+    return undefined;
+  }
+
+  const strings = value.filter(isNonEmptyString);
+  if (strings.length !== value.length) repair(field);
+  return strings;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return isFiniteNumber(value) && value > 0;
+}
+
+function isNonNegativeNumber(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0;
+}
+
+/**
+ * Puzzle hashes are 32-byte hashes, hex encoded (optionally 0x-prefixed)
+ */
+const PUZZLE_HASH_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+function isPuzzleHashList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((hash) => typeof hash === 'string' && PUZZLE_HASH_PATTERN.test(hash))
+  );
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+/**
+ * Read a daily/weekly/monthly/yearly block (volume or change)
+ */
+function periodData(
+  value: unknown,
+  field: string,
+  repair: (field: string) => void
+): VolumeData & ChangeData {
+  const raw = isObject(value) ? value : {};
+  if (!isObject(value)) repair(field);
+
+  return {
+    daily: optionalNumber(raw.daily, `${field}.daily`, repair),
+    weekly: optionalNumber(raw.weekly, `${field}.weekly`, repair),
+    monthly: optionalNumber(raw.monthly, `${field}.monthly`, repair),
+    yearly: optionalNumber(raw.yearly, `${field}.yearly`, repair),
+  };
+}
+
+/**
+ * Read an array of depth levels, dropping levels without a finite price/depth
+ */
+function depthArray(value: unknown, field: string, repair: (field: string) => void): PriceDepth[] {
+  if (!Array.isArray(value)) {
+    repair(field);
+    return [];
+  }
+
+  const levels: PriceDepth[] = [];
+  for (const level of value) {
+    if (!isObject(level) || !isFiniteNumber(level.price) || !isFiniteNumber(level.depth)) {
+      repair(field);
+      continue;
+    }
+    levels.push({
+      depth: level.depth,
+      price: level.price,
+      change: periodData(level.change, `${field}.change`, repair),
+    });
+  }
+  return levels;
+}
+
+/**
+ * Read per-asset volume blocks other than XCH (non-XCH quote groups report
+ * volume in their quote asset); malformed blocks are dropped
+ */
+function quoteVolumes(
+  volume: Record<string, unknown>,
+  repair: (field: string) => void
+): Record<string, VolumeData> {
+  const volumes: Record<string, VolumeData> = {};
+
+  for (const [asset, value] of Object.entries(volume)) {
+    if (asset === 'xch') continue;
+    if (!isObject(value)) {
+      repair(`volume.${asset}`);
+      continue;
+    }
+    volumes[asset] = periodData(value, `volume.${asset}`, repair);
+  }
+
+  return volumes;
+}
+
+// =============================================================================
+// Record validators
+// =============================================================================
+
+/**
+ * Validate a token from /v1/tokens
+ * Requires id, code and name; repairs denom (default 1000) and icon.
+ */
+export const validateDexieToken: RecordValidator<DexieToken> = (raw, repair) => {
+  if (!isObject(raw)) return null;
+  if (!isNonEmptyString(raw.id) || !isNonEmptyString(raw.code) || !isNonEmptyString(raw.name)) {
+    return null;
+  }
+
+  let denom = 1000;
+  if (isFiniteNumber(raw.denom) && raw.denom > 0) {
+    denom = raw.denom;
+  } else {
+    repair('denom');
+  }
+
+  return {
+    id: raw.id,
+    code: raw.code,
+    name: raw.name,
+    denom,
+    icon: optionalString(raw.icon, 'icon', repair),
+    description: presentString(raw.description),
+    website: presentString(raw.website),
+    twitter: presentString(raw.twitter),
+    discord: presentString(raw.discord),
+    telegram: presentString(raw.telegram),
+  };
+};
+
+/**
+ * Validate a market from /v1/markets
+ * Requires id and a finite, non-negative last price; repairs everything else.
+ */
+export const validateDexieMarket: RecordValidator<DexieMarket> = (raw, repair) => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id)) return null;
+
+  const prices = isObject(raw.prices) ? raw.prices : null;
+  const last = prices && isObject(prices.last) ? prices.last : null;
+  if (!prices || !last || !isFiniteNumber(last.price) || last.price < 0) return null;
+
+  const volume = isObject(raw.volume) ? raw.volume : {};
+  if (!isObject(raw.volume)) repair('volume');
+
+  const totalOffered = isObject(raw.total_offered) ? raw.total_offered : {};
+  if (!isObject(raw.total_offered)) repair('total_offered');
+
+  const liquidity = isObject(raw.liquidity) ? raw.liquidity : {};
+  if (!isObject(raw.liquidity)) repair('liquidity');
+
+  const high = isObject(prices.high) ? prices.high : {};
+  const low = isObject(prices.low) ? prices.low : {};
+
+  const marketPrices: MarketPrices = {
+    buy: depthArray(prices.buy, 'prices.buy', repair),
+    sell: depthArray(prices.sell, 'prices.sell', repair),
+    high: { daily: optionalNumber(high.daily, 'prices.high.daily', repair) },
+    low: { daily: optionalNumber(low.daily, 'prices.low.daily', repair) },
+    last: {
+      price: last.price,
+      date: optionalString(last.date, 'prices.last.date', repair),
+      change: periodData(last.change, 'prices.last.change', repair),
+    },
+    avg: depthArray(prices.avg, 'prices.avg', repair),
+  };
+
+  return {
+    id: raw.id,
+    name: optionalString(raw.name, 'name', repair),
+    code: optionalString(raw.code, 'code', repair),
+    pair_id: optionalString(raw.pair_id, 'pair_id', repair),
+    volume: {
+      ...quoteVolumes(volume, repair),
+      xch: periodData(volume.xch, 'volume.xch', repair),
+    },
+    total_offered: { xch: optionalNumber(totalOffered.xch, 'total_offered.xch', repair) },
+    prices: marketPrices,
+    change: periodData(raw.change, 'change', repair),
+    incentives: raw.incentives === true,
+    liquidity: {
+      ask: numberArray(liquidity.ask, 'liquidity.ask', repair),
+      bid: numberArray(liquidity.bid, 'liquidity.bid', repair),
+    },
+  };
+};
+
+/**
+ * Validate a pair from TibetSwap /pairs
+ * Requires asset_id, pair_id and finite, non-negative reserves.
+ */
+export const validateTibetSwapPair: RecordValidator<TibetSwapPair> = (raw, repair) => {
+  if (!isObject(raw) || !isNonEmptyString(raw.asset_id) || !isNonEmptyString(raw.pair_id)) {
+    return null;
+  }
+  if (!isFiniteNumber(raw.xch_reserve) || raw.xch_reserve < 0) return null;
+  if (!isFiniteNumber(raw.token_reserve) || raw.token_reserve < 0) return null;
+
+  return {
+    pair_id: raw.pair_id,
+    asset_id: raw.asset_id,
+    asset_name: optionalString(raw.asset_name, 'asset_name', repair),
+    asset_short_name: optionalString(raw.asset_short_name, 'asset_short_name', repair),
+    asset_image_url: optionalString(raw.asset_image_url, 'asset_image_url', repair),
+    xch_reserve: raw.xch_reserve,
+    token_reserve: raw.token_reserve,
+    liquidity: optionalNumber(raw.liquidity, 'liquidity', repair),
+  };
+};
+
+/**
+ * Validate a token from TibetSwap /tokens
+ * Requires asset_id; repairs names, image URL and the verified flag.
+ */
+export const validateTibetSwapToken: RecordValidator<TibetSwapToken> = (raw, repair) => {
+  if (!isObject(raw) || !isNonEmptyString(raw.asset_id)) return null;
+
+  if (typeof raw.verified !== 'boolean') repair('verified');
+
+  return {
+    asset_id: raw.asset_id,
+    pair_id: optionalString(raw.pair_id, 'pair_id', repair),
+    name: optionalString(raw.name, 'name', repair),
+    short_name: optionalString(raw.short_name, 'short_name', repair),
+    image_url: optionalString(raw.image_url, 'image_url', repair),
+    verified: raw.verified === true,
+  };
+};
+
+/**
+ * Override entry of the local token registry file, with its asset ID
+ */
+export type TokenOverrideRecord = TokenOverride & { id: string };
+
+/**
+ * Validate an entry of the local token registry file
+ * Requires an asset ID and an object entry; fields of the wrong type are
+ * dropped so the registry falls back to the upstream lists for them.
+ */
+export const validateTokenOverride: RecordValidator<TokenOverrideRecord> = (raw, repair) => {
+  if (!isObject(raw) || !isAssetId(raw.id)) return null;
+
+  let socials: TokenOverride['socials'];
+  if (raw.socials !== undefined) {
+    socials = {};
+    if (!isObject(raw.socials)) {
+      repair('socials');
+    } else {
+      for (const [platform, url] of Object.entries(raw.socials)) {
+        if (isNonEmptyString(url)) socials[platform as TokenSocialPlatform] = url;
+        else repair(`socials.${platform}`);
+      }
+    }
+  }
+
+  return {
+    id: raw.id,
+    symbol: optionalField(raw.symbol, 'symbol', repair, isNonEmptyString),
+    name: optionalField(raw.name, 'name', repair, isNonEmptyString),
+    icon: optionalField(raw.icon, 'icon', repair, isNonEmptyString),
+    denom: optionalField(raw.denom, 'denom', repair, isPositiveInteger),
+    verified: optionalField(raw.verified, 'verified', repair, isBoolean),
+    aliases: optionalStringList(raw.aliases, 'aliases', repair),
+    description: optionalField(raw.description, 'description', repair, isNonEmptyString),
+    website: optionalField(raw.website, 'website', repair, isNonEmptyString),
+    socials,
+    tags: optionalStringList(raw.tags, 'tags', repair),
+    launchDate: optionalField(raw.launchDate, 'launchDate', repair, isNonEmptyString),
+  };
+};
+
+/**
+ * Supply entry of the local supply registry file, with its asset ID
+ */
+export type SupplyRegistryRecord = SupplyRegistryEntry & { id: string };
+
+/**
+ * Validate an entry of the local supply registry file
+ * Unlike overrides, entries are never repaired: a malformed figure, denom
+ * or puzzle hash list would misstate the supply, so the entry is dropped.
+ * Requires an asset ID, a positive total, a non-negative circulating supply
+ * no larger than the total, a positive integer denom and 32-byte hex
+ * puzzle hashes (each only when present).
+ */
+export const validateSupplyEntry: RecordValidator<SupplyRegistryRecord> = (raw) => {
+  if (!isObject(raw) || !isAssetId(raw.id)) return null;
+  if (raw.total !== undefined && !isPositiveNumber(raw.total)) return null;
+  if (raw.circulating !== undefined && !isNonNegativeNumber(raw.circulating)) return null;
+  if (raw.denom !== undefined && !isPositiveInteger(raw.denom)) return null;
+  if (raw.lockedPuzzleHashes !== undefined && !isPuzzleHashList(raw.lockedPuzzleHashes)) {
+    return null;
+  }
+
+  const total = raw.total as number | undefined;
+  const circulating = raw.circulating as number | undefined;
+  if (total !== undefined && circulating !== undefined && circulating > total) return null;
+
+  return {
+    id: raw.id,
+    total,
+    circulating,
+    denom: raw.denom as number | undefined,
+    lockedPuzzleHashes: raw.lockedPuzzleHashes as string[] | undefined,
+  };
+};
+
+// =============================================================================
+// Payload validation
+// =============================================================================
+
+/**
+ * Validate every record of an upstream payload
+ *
+ * Keeps valid and repaired records, drops the rest, and stores the
+ * counts as the latest report for `feed`.
+ *
+ * @param feed - Feed name the report is stored under (e.g. 'dexie-markets')
+ * @param records - Raw records from the upstream response
+ * @param validator - Record validator
+ * @returns Kept records and the quarantine report
+ */
+export function validateRecords<T>(
+  feed: string,
+  records: unknown[],
+  validator: RecordValidator<T>
+): ValidationResult<T> {
+  const kept: T[] = [];
+  const repairedFields = new Set<string>();
+  let repaired = 0;
+  let dropped = 0;
+
+  for (const raw of records) {
+    let needsRepair = false;
+    const record = validator(raw, (field) => {
+      needsRepair = true;
+      repairedFields.add(field);
+    });
+
+    if (record === null) {
+      dropped += 1;
+      continue;
+    }
+    if (needsRepair) repaired += 1;
+    kept.push(record);
+  }
+
+  const report: QuarantineReport = {
+    total: records.length,
+    valid: kept.length - repaired,
+    repaired,
+    dropped,
+    checkedAt: new Date().toISOString(),
+  };
+  reports.set(feed, report);
+
+  if (dropped > 0 || repaired > 0) {
+    console.warn(
+      `${feed}: dropped ${dropped} and repaired ${repaired} of ${records.length} records` +
+        (repairedFields.size > 0 ? ` (fields: ${Array.from(repairedFields).join(', ')})` : '')
+    );
+  }
+
+  return { records: kept, report };
+}
+
+/**
+ * Get the latest quarantine report of every validated feed
+ */
+export function getQuarantineReports(): Record<string, QuarantineReport> {
+  return Object.fromEntries(reports);
+}
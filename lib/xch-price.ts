@@ -1,115 +1,311 @@
 /**
- * XCH/USD Price Fetcher
+ * XCH/USD Price Oracles
  *
- * Fetches the current XCH price in USD from multiple sources.
- * Falls back to a cached/default value if all sources fail.
+ * Queries every enabled price oracle in parallel and takes the median of
+ * their readings after rejecting outliers. The quote reports which oracles
+ * contributed, how far they diverge, and whether the price is a fallback
+ * (an expired cached median or a hard-coded constant) rather than live.
+ *
+ * Oracles are selected with XCH_PRICE_ORACLES (comma-separated IDs, default
+ * all) and the outlier tolerance with XCH_PRICE_MAX_DEVIATION_PCT.
+ *
+ * @module lib/xch-price
  */
 
-import { Result } from '@/contracts/types';
+import { Result, XchOracleId, XchOracleReading, XchUsdQuote } from '@/contracts/types';
+import { withUpstream } from './upstream-health';
+import { upstreamRequest } from './http-client';
+import { median } from './reference-price';
 
 // Fallback price if all APIs fail (update periodically)
 const FALLBACK_XCH_USD = 25.0;
 
 // Cache for XCH price to avoid too many API calls
-let cachedPrice: { value: number; timestamp: number } | null = null;
+let cachedPrice: { value: XchUsdQuote; timestamp: number } | null = null;
 const CACHE_TTL = 60000; // 1 minute cache
 
 /**
- * Fetch XCH price from CoinGecko
+ * Readings further than this from the median of all readings are rejected
+ * (only when at least MIN_READINGS_FOR_REJECTION oracles answered)
  */
-async function fetchFromCoinGecko(): Promise<number | null> {
-  try {
-    const response = await fetch(
-      'https://api.coingecko.com/api/v3/simple/price?ids=chia&vs_currencies=usd',
-      {
-        next: { revalidate: 60 }, // Cache for 1 minute
-      }
-    );
+const MAX_DEVIATION_PCT = Number(process.env.XCH_PRICE_MAX_DEVIATION_PCT) || 5;
 
-    if (!response.ok) {
-      return null;
-    }
+/**
+ * With fewer readings there is no majority to tell which one is wrong
+ */
+const MIN_READINGS_FOR_REJECTION = 3;
 
-    const data = await response.json();
-    const price = data?.chia?.usd;
+/**
+ * Price and 24h change reported by an oracle
+ */
+interface OraclePrice {
+  priceUsd: number;
+  change24h: number | null;
+}
 
-    if (typeof price === 'number' && price > 0) {
-      return price;
-    }
+/**
+ * Price reported by a named oracle
+ */
+interface OracleAnswer {
+  oracle: XchOracleId;
+  label: string;
+  price: OraclePrice;
+}
 
-    return null;
-  } catch {
-    return null;
-  }
+/**
+ * An XCH/USD price oracle
+ */
+interface XchPriceOracle {
+  id: XchOracleId;
+  label: string;
+  /** Fetch the current price; null when the oracle has no usable answer */
+  fetchPrice(): Promise<OraclePrice | null>;
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function toChange(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
 }
 
 /**
- * Fetch XCH price from Dexie (if they provide USD rates)
- * This is a backup source
+ * CoinGecko simple price API (price and 24h change)
  */
-async function fetchFromDexieRates(): Promise<number | null> {
-  try {
-    const response = await fetch('https://api.dexie.space/v1/prices/xch', {
-      next: { revalidate: 60 },
+const coinGeckoOracle: XchPriceOracle = {
+  id: 'coingecko',
+  label: 'CoinGecko',
+  async fetchPrice() {
+    const data = await withUpstream('coingecko', async () => {
+      const response = await upstreamRequest(
+        'https://api.coingecko.com/api/v3/simple/price?ids=chia&vs_currencies=usd&include_24hr_change=true',
+        {
+          next: { revalidate: 60 }, // Cache for 1 minute
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`CoinGecko API error: ${response.status}`);
+      }
+
+      return response.json();
     });
+    const price = data?.chia?.usd;
 
-    if (!response.ok) {
-      return null;
-    }
+    if (!isPositive(price)) return null;
+    return { priceUsd: price, change24h: toChange(data?.chia?.usd_24h_change) };
+  },
+};
 
-    const data = await response.json();
+/**
+ * Dexie XCH price (price only)
+ */
+const dexieOracle: XchPriceOracle = {
+  id: 'dexie',
+  label: 'Dexie',
+  async fetchPrice() {
+    const data = await withUpstream('dexie-prices', async () => {
+      const response = await upstreamRequest('https://api.dexie.space/v1/prices/xch', {
+        next: { revalidate: 60 },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Dexie prices API error: ${response.status}`);
+      }
+
+      return response.json();
+    });
     const price = data?.usd;
 
-    if (typeof price === 'number' && price > 0) {
-      return price;
-    }
+    return isPositive(price) ? { priceUsd: price, change24h: null } : null;
+  },
+};
 
-    return null;
-  } catch {
-    return null;
+/**
+ * OKX XCH/USDT spot ticker (USDT taken at par with USD)
+ */
+const okxOracle: XchPriceOracle = {
+  id: 'okx',
+  label: 'OKX',
+  async fetchPrice() {
+    const data = await withUpstream('okx', async () => {
+      const response = await upstreamRequest(
+        'https://www.okx.com/api/v5/market/ticker?instId=XCH-USDT',
+        {
+          next: { revalidate: 60 },
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`OKX API error: ${response.status}`);
+      }
+
+      return response.json();
+    });
+    const ticker = Array.isArray(data?.data) ? data.data[0] : undefined;
+    const price = Number(ticker?.last);
+    const open24h = Number(ticker?.open24h);
+
+    if (!isPositive(price)) return null;
+    return {
+      priceUsd: price,
+      change24h: isPositive(open24h) ? ((price - open24h) / open24h) * 100 : null,
+    };
+  },
+};
+
+/**
+ * All known oracles, in display order
+ */
+const ORACLES: XchPriceOracle[] = [coinGeckoOracle, dexieOracle, okxOracle];
+
+/**
+ * Oracles enabled by XCH_PRICE_ORACLES (all when unset)
+ */
+function getEnabledOracles(): XchPriceOracle[] {
+  const setting = process.env.XCH_PRICE_ORACLES;
+  if (!setting) return ORACLES;
+
+  const ids = setting.split(',').map((id) => id.trim().toLowerCase());
+  const enabled = ORACLES.filter((oracle) => ids.includes(oracle.id));
+
+  if (enabled.length === 0) {
+    console.warn(`XCH_PRICE_ORACLES matches no known oracle (${setting}), using all`);
+    return ORACLES;
   }
+  return enabled;
 }
 
 /**
- * Fetch XCH/USD price with fallback chain
+ * Combine oracle readings into a single price
  *
- * Tries multiple sources in order:
- * 1. CoinGecko API
- * 2. Dexie rates API
- * 3. Cached value
- * 4. Fallback constant
+ * Readings deviating more than MAX_DEVIATION_PCT from the median of all
+ * readings are rejected when at least MIN_READINGS_FOR_REJECTION oracles
+ * answered. The quote is divergent when the readings that were kept still
+ * disagree by more than the tolerance (e.g. two oracles far apart).
  *
- * @returns Result containing USD price
+ * @param answers - Readings of the oracles that answered
+ * @returns Aggregated quote, or null without any reading
  */
-export async function fetchXchUsdPrice(): Promise<Result<number>> {
+function aggregateReadings(
+  answers: OracleAnswer[]
+): Omit<XchUsdQuote, 'provider' | 'fetchedAt'> | null {
+  if (answers.length === 0) return null;
+
+  const overallMedian = median(answers.map((answer) => answer.price.priceUsd));
+  const canReject = answers.length >= MIN_READINGS_FOR_REJECTION;
+
+  const readings: XchOracleReading[] = answers.map(({ oracle, label, price }) => {
+    const deviationPct = (Math.abs(price.priceUsd - overallMedian) / overallMedian) * 100;
+    return {
+      oracle,
+      label,
+      priceUsd: price.priceUsd,
+      change24h: price.change24h,
+      deviationPct,
+      accepted: !canReject || deviationPct <= MAX_DEVIATION_PCT,
+    };
+  });
+
+  // An even split leaves no reading near the median - keep them all
+  if (readings.every((reading) => !reading.accepted)) {
+    readings.forEach((reading) => (reading.accepted = true));
+  }
+
+  const accepted = readings.filter((reading) => reading.accepted);
+  const priceUsd = median(accepted.map((reading) => reading.priceUsd));
+  const changes = accepted
+    .map((reading) => reading.change24h)
+    .filter((change): change is number => change !== null);
+
+  const acceptedSpread = Math.max(
+    ...accepted.map((reading) => (Math.abs(reading.priceUsd - priceUsd) / priceUsd) * 100)
+  );
+
+  return {
+    priceUsd,
+    change24h: changes.length > 0 ? median(changes) : null,
+    readings,
+    divergencePct:
+      readings.length > 1 ? Math.max(...readings.map((reading) => reading.deviationPct)) : null,
+    isDivergent: acceptedSpread > MAX_DEVIATION_PCT,
+  };
+}
+
+/**
+ * Fetch XCH/USD price and 24h change from all enabled oracles
+ *
+ * Falls back to:
+ * 1. Cached median (even if expired)
+ * 2. Fallback constant
+ *
+ * Both fallbacks are marked by their provider, so callers can warn instead
+ * of presenting them as live prices.
+ *
+ * @returns Result containing the USD quote
+ */
+export async function fetchXchUsdQuote(): Promise<Result<XchUsdQuote>> {
   // Check cache first
   if (cachedPrice && Date.now() - cachedPrice.timestamp < CACHE_TTL) {
     return { success: true, data: cachedPrice.value };
   }
 
-  // Try CoinGecko first
-  const coinGeckoPrice = await fetchFromCoinGecko();
-  if (coinGeckoPrice) {
-    cachedPrice = { value: coinGeckoPrice, timestamp: Date.now() };
-    return { success: true, data: coinGeckoPrice };
-  }
+  const oracles = getEnabledOracles();
+  const results = await Promise.allSettled(oracles.map((oracle) => oracle.fetchPrice()));
 
-  // Try Dexie rates
-  const dexiePrice = await fetchFromDexieRates();
-  if (dexiePrice) {
-    cachedPrice = { value: dexiePrice, timestamp: Date.now() };
-    return { success: true, data: dexiePrice };
+  const answers: OracleAnswer[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled' && result.value) {
+      answers.push({ oracle: oracles[index].id, label: oracles[index].label, price: result.value });
+    }
+  });
+
+  const aggregate = aggregateReadings(answers);
+  if (aggregate) {
+    if (aggregate.isDivergent) {
+      console.warn(`XCH price oracles diverge by ${aggregate.divergencePct?.toFixed(1)}%`);
+    }
+
+    const quote: XchUsdQuote = {
+      ...aggregate,
+      provider: 'oracles',
+      fetchedAt: new Date().toISOString(),
+    };
+    cachedPrice = { value: quote, timestamp: Date.now() };
+    return { success: true, data: quote };
   }
 
   // Use cached value if available (even if expired)
   if (cachedPrice) {
     console.warn('Using expired cached XCH price');
-    return { success: true, data: cachedPrice.value };
+    return { success: true, data: { ...cachedPrice.value, provider: 'cache' } };
   }
 
   // Last resort: use fallback
   console.warn('Using fallback XCH price');
-  return { success: true, data: FALLBACK_XCH_USD };
+  return {
+    success: true,
+    data: {
+      priceUsd: FALLBACK_XCH_USD,
+      change24h: null,
+      provider: 'fallback',
+      readings: [],
+      divergencePct: null,
+      isDivergent: false,
+      fetchedAt: new Date().toISOString(),
+    },
+  };
+}
+
+/**
+ * Fetch XCH/USD price
+ *
+ * @returns Result containing USD price
+ */
+export async function fetchXchUsdPrice(): Promise<Result<number>> {
+  const result = await fetchXchUsdQuote();
+  return result.success ? { success: true, data: result.data.priceUsd } : result;
 }
 
 /**
@@ -117,5 +313,5 @@ export async function fetchXchUsdPrice(): Promise<Result<number>> {
  * Returns fallback if not cached
  */
 export function getCachedXchPrice(): number {
-  return cachedPrice?.value ?? FALLBACK_XCH_USD;
+  return cachedPrice?.value.priceUsd ?? FALLBACK_XCH_USD;
 }